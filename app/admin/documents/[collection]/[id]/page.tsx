@@ -0,0 +1,357 @@
+"use client";
+
+import { ComponentProps, FormEvent, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Loader2, Save, Trash2 } from "lucide-react";
+import { MainNav } from "@/components/main-nav";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+// Document as returned by /api/documents/[collection]/[id]
+interface EditableDocument {
+  _id: string;
+  collection: string;
+  title?: string;
+  name?: string;
+  content?: string;
+  summary?: string;
+  department?: string;
+  categories?: string[];
+  keywords?: string[];
+  fileType?: string;
+  createdAt: string | null;
+  supabase?: { url?: string };
+  aws?: { bucket?: string; key?: string; region?: string };
+}
+
+// Form state: every field as the text shown in its input
+interface DocumentForm {
+  title: string;
+  department: string;
+  summary: string;
+  categories: string;
+  keywords: string;
+  fileType: string;
+  createdAt: string;
+  supabaseUrl: string;
+  awsBucket: string;
+  awsKey: string;
+  awsRegion: string;
+  content: string;
+}
+
+function toForm(doc: EditableDocument): DocumentForm {
+  return {
+    title: doc.title || doc.name || "",
+    department: doc.department ?? "",
+    summary: doc.summary ?? "",
+    categories: (doc.categories ?? []).join(", "),
+    keywords: (doc.keywords ?? []).join(", "),
+    fileType: doc.fileType ?? "",
+    createdAt: doc.createdAt?.slice(0, 10) ?? "",
+    supabaseUrl: doc.supabase?.url ?? "",
+    awsBucket: doc.aws?.bucket ?? "",
+    awsKey: doc.aws?.key ?? "",
+    awsRegion: doc.aws?.region ?? "",
+    content: doc.content ?? "",
+  };
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// The PATCH body: only fields that differ from the loaded document
+function buildUpdate(
+  form: DocumentForm,
+  initial: DocumentForm
+): Record<string, unknown> {
+  const changed = (field: keyof DocumentForm) =>
+    form[field].trim() !== initial[field].trim();
+  const update: Record<string, unknown> = {};
+
+  for (const field of [
+    "title",
+    "department",
+    "summary",
+    "fileType",
+    "createdAt",
+    "content",
+  ] as const) {
+    if (changed(field)) update[field] = form[field];
+  }
+  for (const field of ["categories", "keywords"] as const) {
+    if (changed(field)) update[field] = splitList(form[field]);
+  }
+  if (changed("supabaseUrl")) {
+    update.supabase = form.supabaseUrl.trim()
+      ? { url: form.supabaseUrl }
+      : null;
+  }
+  if (changed("awsBucket") || changed("awsKey") || changed("awsRegion")) {
+    update.aws =
+      form.awsBucket.trim() || form.awsKey.trim()
+        ? { bucket: form.awsBucket, key: form.awsKey, region: form.awsRegion }
+        : null;
+  }
+  return update;
+}
+
+export default function EditDocumentPage() {
+  const { collection, id } = useParams<{ collection: string; id: string }>();
+  const router = useRouter();
+  const [form, setForm] = useState<DocumentForm | null>(null);
+  const [initial, setInitial] = useState<DocumentForm | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const documentUrl = `/api/documents/${encodeURIComponent(
+    collection
+  )}/${encodeURIComponent(id)}`;
+
+  useEffect(() => {
+    const loadDocument = async () => {
+      setIsLoading(true);
+      setError("");
+      try {
+        const res = await fetch(documentUrl);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || "Failed to load document");
+          return;
+        }
+        const loaded = toForm(data.document);
+        setForm(loaded);
+        setInitial(loaded);
+      } catch (e) {
+        console.error("Error loading document:", e);
+        setError("Failed to load document");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadDocument();
+  }, [documentUrl]);
+
+  const setField = (field: keyof DocumentForm, value: string) => {
+    setForm((current) => current && { ...current, [field]: value });
+    setNotice("");
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form || !initial) return;
+    const update = buildUpdate(form, initial);
+    if (Object.keys(update).length === 0) {
+      setNotice("No changes to save");
+      return;
+    }
+
+    setIsSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch(documentUrl, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save document");
+        return;
+      }
+      const saved = toForm(data.document);
+      setForm(saved);
+      setInitial(saved);
+      setNotice("Changes saved");
+    } catch (e) {
+      console.error("Error saving document:", e);
+      setError("Failed to save document");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm("Delete this document? This can't be undone.")) {
+      return;
+    }
+    setIsSaving(true);
+    setError("");
+    try {
+      const res = await fetch(documentUrl, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to delete document");
+        return;
+      }
+      router.push("/admin");
+    } catch (e) {
+      console.error("Error deleting document:", e);
+      setError("Failed to delete document");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const textField = (
+    field: keyof DocumentForm,
+    label: string,
+    props: ComponentProps<typeof Input> = {}
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={field}>{label}</Label>
+      <Input
+        id={field}
+        value={form?.[field] ?? ""}
+        onChange={(e) => setField(field, e.target.value)}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white dark:from-gray-950 dark:to-gray-900">
+      <MainNav />
+      <main className="container mx-auto max-w-4xl px-4 py-8">
+        <Link
+          href="/admin"
+          className="mb-6 inline-flex items-center text-sm text-blue-700 hover:underline dark:text-blue-400"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to documents
+        </Link>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-16 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            Loading document
+          </div>
+        )}
+
+        {!isLoading && !form && error && (
+          <Card className="border-red-100 dark:border-red-900/50">
+            <CardContent className="py-8 text-center text-red-700 dark:text-red-400">
+              {error}
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && form && (
+          <Card className="border-blue-100 dark:border-blue-900/50 dark:bg-gray-900">
+            <CardHeader>
+              <CardTitle className="text-2xl">Edit document</CardTitle>
+              <CardDescription>
+                {collection} ·{" "}
+                <Link
+                  href={`/documents/${collection}/${id}`}
+                  className="text-blue-700 hover:underline dark:text-blue-400"
+                >
+                  View public page
+                </Link>
+                . Changing the title, summary, keywords or text re-indexes the
+                document for search.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-4">
+                {textField("title", "Title", { required: true })}
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {textField("department", "Department")}
+                  {textField("createdAt", "Created", { type: "date" })}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="summary">Summary</Label>
+                  <Textarea
+                    id="summary"
+                    value={form.summary}
+                    onChange={(e) => setField("summary", e.target.value)}
+                    rows={4}
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {textField("categories", "Categories (comma-separated)")}
+                  {textField("keywords", "Keywords (comma-separated)")}
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {textField("fileType", "File type", {
+                    placeholder: "pdf or docx",
+                  })}
+                  {textField("supabaseUrl", "Supabase file URL", {
+                    type: "url",
+                  })}
+                </div>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  {textField("awsBucket", "S3 bucket")}
+                  {textField("awsKey", "S3 key")}
+                  {textField("awsRegion", "S3 region")}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="content">Extracted text</Label>
+                  <Textarea
+                    id="content"
+                    value={form.content}
+                    onChange={(e) => setField("content", e.target.value)}
+                    className="max-h-[32rem] font-mono text-xs"
+                    rows={12}
+                  />
+                </div>
+
+                {error && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {error}
+                  </p>
+                )}
+                {notice && (
+                  <p className="text-sm text-green-700 dark:text-green-400">
+                    {notice}
+                  </p>
+                )}
+
+                <div className="flex flex-wrap justify-between gap-2 pt-2">
+                  <Button
+                    type="submit"
+                    disabled={isSaving}
+                    className="bg-blue-600 text-white hover:bg-blue-700"
+                  >
+                    {isSaving ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Save changes
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={isSaving}
+                    onClick={handleDelete}
+                    className="text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
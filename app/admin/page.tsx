@@ -0,0 +1,292 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Pencil,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { MainNav } from "@/components/main-nav";
+import { FacetSelect } from "@/components/facet-select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+// Row of the list returned by GET /api/documents
+interface AdminDocument {
+  _id: string;
+  collection: string;
+  title?: string;
+  department?: string;
+  createdAt: string | null;
+  fileType?: string;
+  hasSummary: boolean;
+  hasFile: boolean;
+}
+
+const COLLECTION_OPTIONS = [
+  { value: "EmploymentNotice", label: "Employment" },
+  { value: "NotificationCircular", label: "Circular" },
+  { value: "Tender", label: "Tender" },
+];
+
+const COLLECTION_LABELS: Record<string, string> = Object.fromEntries(
+  COLLECTION_OPTIONS.map((option) => [option.value, option.label])
+);
+
+const PAGE_SIZE = 20;
+
+export default function AdminPage() {
+  const [documents, setDocuments] = useState<AdminDocument[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [collection, setCollection] = useState("all");
+  const [queryInput, setQueryInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState("");
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+
+  const loadDocuments = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        pageSize: String(PAGE_SIZE),
+      });
+      if (collection !== "all") params.set("collection", collection);
+      if (query) params.set("q", query);
+
+      const res = await fetch(`/api/documents?${params}`);
+      const data = await res.json();
+      setNeedsSignIn(res.status === 401);
+      if (!res.ok) {
+        setError(data.error || "Failed to load documents");
+        setDocuments([]);
+        setTotal(0);
+        return;
+      }
+      setDocuments(data.documents);
+      setTotal(data.total);
+    } catch (e) {
+      console.error("Error loading documents:", e);
+      setError("Failed to load documents");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [collection, page, query]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setQuery(queryInput.trim());
+  };
+
+  const handleDelete = async (doc: AdminDocument) => {
+    if (!window.confirm(`Delete "${doc.title || "Untitled"}"?`)) return;
+    setDeletingId(doc._id);
+    try {
+      const res = await fetch(`/api/documents/${doc.collection}/${doc._id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to delete document");
+        return;
+      }
+      await loadDocuments();
+    } catch (e) {
+      console.error("Error deleting document:", e);
+      setError("Failed to delete document");
+    } finally {
+      setDeletingId("");
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white dark:from-gray-950 dark:to-gray-900">
+      <MainNav />
+      <main className="container mx-auto max-w-6xl px-4 py-8">
+        <Card className="border-blue-100 dark:border-blue-900/50 dark:bg-gray-900">
+          <CardHeader>
+            <CardTitle className="text-2xl">Manage documents</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form
+              onSubmit={handleSearch}
+              className="grid gap-4 md:grid-cols-[220px_1fr_auto] md:items-end"
+            >
+              <FacetSelect
+                label="Collection"
+                allLabel="All collections"
+                value={collection}
+                options={COLLECTION_OPTIONS}
+                onValueChange={(value) => {
+                  setPage(1);
+                  setCollection(value);
+                }}
+              />
+              <Input
+                value={queryInput}
+                onChange={(e) => setQueryInput(e.target.value)}
+                placeholder="Title, file name or department"
+              />
+              <Button
+                type="submit"
+                className="bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+            </form>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {error}{" "}
+                {needsSignIn && (
+                  <Link href="/login" className="underline">
+                    Sign in
+                  </Link>
+                )}
+              </p>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-gray-500">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading documents
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="border-b text-gray-500 dark:border-gray-700">
+                    <tr>
+                      <th className="py-2 pr-4 font-medium">Title</th>
+                      <th className="py-2 pr-4 font-medium">Collection</th>
+                      <th className="py-2 pr-4 font-medium">Department</th>
+                      <th className="py-2 pr-4 font-medium">Created</th>
+                      <th className="py-2 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {documents.map((doc) => (
+                      <tr
+                        key={`${doc.collection}/${doc._id}`}
+                        className="border-b align-top dark:border-gray-800"
+                      >
+                        <td className="py-3 pr-4">
+                          <Link
+                            href={`/admin/documents/${doc.collection}/${doc._id}`}
+                            className="font-medium text-blue-700 hover:underline dark:text-blue-400 break-words"
+                          >
+                            {doc.title || "Untitled"}
+                          </Link>
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {!doc.hasSummary && (
+                              <Badge variant="outline" className="text-xs">
+                                No summary
+                              </Badge>
+                            )}
+                            {!doc.hasFile && (
+                              <Badge variant="outline" className="text-xs">
+                                No file
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
+                        <td className="py-3 pr-4">
+                          {COLLECTION_LABELS[doc.collection] ?? doc.collection}
+                        </td>
+                        <td className="py-3 pr-4">
+                          {doc.department || (
+                            <span className="italic text-gray-400">
+                              Not specified
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 pr-4 whitespace-nowrap">
+                          {doc.createdAt
+                            ? new Date(doc.createdAt).toLocaleDateString()
+                            : "—"}
+                        </td>
+                        <td className="py-3 whitespace-nowrap text-right">
+                          <Button asChild variant="ghost" size="icon">
+                            <Link
+                              href={`/admin/documents/${doc.collection}/${doc._id}`}
+                              aria-label="Edit"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Delete"
+                            disabled={deletingId === doc._id}
+                            onClick={() => handleDelete(doc)}
+                            className="text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                    {documents.length === 0 && !error && (
+                      <tr>
+                        <td
+                          colSpan={5}
+                          className="py-8 text-center italic text-gray-400"
+                        >
+                          No documents found.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm text-gray-500">
+              <span>
+                {total} documents · page {page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  aria-label="Previous page"
+                  disabled={page <= 1 || isLoading}
+                  onClick={() => setPage(page - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  aria-label="Next page"
+                  disabled={page >= totalPages || isLoading}
+                  onClick={() => setPage(page + 1)}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, requireUser } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/mongodb";
+import { runSavedSearches } from "@/lib/saved-searches";
+
+// True when the request carries "Authorization: Bearer <CRON_SECRET>"
+function hasCronSecret(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.get("authorization") ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * ALERT JOB ENDPOINT
+ * Responsible for: Running every saved search and sending alerts for new
+ * documents (see runSavedSearches)
+ * - Called by the scheduler with "Authorization: Bearer <CRON_SECRET>", or
+ *   by a signed-in administrator with POST
+ * - GET is accepted with the secret only, since that is what Vercel Cron
+ *   sends; a session cookie would also ride along on a followed link
+ * - Responds with { checked, alerted, failed }
+ */
+async function runAlerts(
+  req: NextRequest,
+  { allowSession }: { allowSession: boolean }
+): Promise<NextResponse> {
+  console.log(`📩 ${req.method} /api/alerts/run received`);
+
+  try {
+    const { db } = await connectToDatabase();
+    if (!hasCronSecret(req)) {
+      if (!allowSession) {
+        throw new AuthError("The scheduler secret is required", 401);
+      }
+      await requireUser(db, req, "admin");
+    }
+
+    const summary = await runSavedSearches(db);
+    console.log(
+      `✅ Alert run: ${summary.checked} checked, ${summary.alerted} alerted, ${summary.failed} failed`
+    );
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("🚨 Alert run error:", error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Alert run temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  return runAlerts(req, { allowSession: true });
+}
+
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  return runAlerts(req, { allowSession: false });
+}
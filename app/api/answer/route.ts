@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { answerQuestion } from "@/lib/answer";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+  describeSearchError,
+  parseSearchRequest,
+  readJsonBody,
+} from "@/lib/search";
+
+/**
+ * ANSWER ENDPOINT
+ * Responsible for: Answering a question from the retrieved documents
+ * - Body: { query: string, mode?: "waterfall" | "hybrid" | "semantic",
+ *   filters?: SearchFilters }, validated like /api/chat
+ * - Responds with the `answer`, whether the documents `supported` it, the
+ *   `citations` its inline [n] markers refer to and every `sources` entry
+ *   the generator was shown
+ * - Unsupported questions still answer 200, saying so in `answer`
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 POST /api/answer received");
+
+  try {
+    const request = parseSearchRequest(await readJsonBody(req));
+
+    console.log("💬 Answering question:", request.query);
+
+    const { db } = await connectToDatabase();
+    return NextResponse.json(await answerQuestion(db, request));
+  } catch (error) {
+    console.error("🚨 Answer error:", error);
+
+    const { error: message, status } = describeSearchError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
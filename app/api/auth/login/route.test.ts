@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+
+vi.mock("@/lib/mongodb", () => ({
+  connectToDatabase: () => Promise.reject(new Error("no database in tests")),
+}));
+
+const login = (body: string) =>
+  POST(
+    new NextRequest("http://localhost/api/auth/login", {
+      method: "POST",
+      body,
+    })
+  );
+
+describe("POST /api/auth/login", () => {
+  it.each(["{username", "null", ""])("answers %j with a 400", async (body) => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const response = await login(body);
+    expect(response.status).toBe(400);
+  });
+});
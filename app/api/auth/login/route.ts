@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+  AuthError,
+  createSession,
+  ensureBootstrapAdmin,
+  getAuthProvider,
+  setSessionCookie,
+  toSessionUser,
+} from "@/lib/auth";
+
+/**
+ * SIGN-IN ENDPOINT
+ * Responsible for: Starting a session from credentials
+ * - Body: { username: string, password: string, provider?: "local" }
+ * - Sets the httpOnly session cookie and responds with the `user`
+ * - Responds 401 without saying whether the username exists
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 POST /api/auth/login received");
+
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AuthError("Expected a JSON body", 400);
+    }
+    const { username, password, provider } = (body ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof username !== "string" || typeof password !== "string") {
+      throw new AuthError("Username and password are required", 400);
+    }
+
+    const { db } = await connectToDatabase();
+    await ensureBootstrapAdmin(db);
+    const user = await getAuthProvider(
+      db,
+      typeof provider === "string" ? provider : undefined
+    ).authenticate({
+      username,
+      password,
+    });
+    if (!user) {
+      throw new AuthError("Invalid username or password", 401);
+    }
+
+    console.log(`🔑 Signed in "${user.username}" (${user.role})`);
+    const response = NextResponse.json({ user: toSessionUser(user) });
+    setSessionCookie(response, await createSession(db, user));
+    return response;
+  } catch (error) {
+    console.error("🚨 Sign-in error:", error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Sign-in temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { clearSessionCookie, deleteSession, SESSION_COOKIE } from "@/lib/auth";
+
+/**
+ * SIGN-OUT ENDPOINT
+ * Ends the current session and clears its cookie; succeeds when signed out
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 POST /api/auth/logout received");
+
+  const response = NextResponse.json({ ok: true });
+  clearSessionCookie(response);
+  try {
+    const { db } = await connectToDatabase();
+    await deleteSession(db, req.cookies.get(SESSION_COOKIE)?.value);
+  } catch (error) {
+    // The cookie is gone either way; the session expires on its own
+    console.error("🚨 Sign-out error:", error);
+  }
+  return response;
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+  AuthError,
+  createLocalUser,
+  createSession,
+  setSessionCookie,
+  toSessionUser,
+} from "@/lib/auth";
+
+/**
+ * REGISTRATION ENDPOINT
+ * Responsible for: Citizen self sign-up with a local account
+ * - Body: { username: string, password: string, displayName?: string }
+ * - Always creates a citizen; the administrator account comes from
+ *   ADMIN_USERNAME / ADMIN_PASSWORD
+ * - Signs the new user in and responds 201 with the `user`
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 POST /api/auth/register received");
+
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new AuthError("Expected a JSON body", 400);
+    }
+    const { username, password, displayName } = (body ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof username !== "string" || typeof password !== "string") {
+      throw new AuthError("Username and password are required", 400);
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await createLocalUser(db, {
+      username,
+      password,
+      displayName: typeof displayName === "string" ? displayName : undefined,
+    });
+
+    const response = NextResponse.json(
+      { user: toSessionUser(user) },
+      { status: 201 }
+    );
+    setSessionCookie(response, await createSession(db, user));
+    return response;
+  } catch (error) {
+    console.error("🚨 Registration error:", error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Registration temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getCurrentUser } from "@/lib/auth";
+
+/**
+ * SESSION ENDPOINT
+ * Responds with the signed-in `user`, or `user: null`, for the nav menu
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  try {
+    const { db } = await connectToDatabase();
+    return NextResponse.json({ user: await getCurrentUser(db, req) });
+  } catch (error) {
+    console.error("🚨 Session lookup error:", error);
+    return NextResponse.json(
+      { error: "Session lookup temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+
+vi.mock("@/lib/mongodb", () => ({
+  connectToDatabase: () => Promise.reject(new Error("no database in tests")),
+}));
+
+const stream = async (body: string) => {
+  const response = await POST(
+    new NextRequest("http://localhost/api/chat/stream", {
+      method: "POST",
+      body,
+    })
+  );
+  return response.text();
+};
+
+describe("POST /api/chat/stream", () => {
+  it("reports malformed JSON as a 400 error event", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await stream('{"query": "tender')).toBe(
+      `event: error\ndata: ${JSON.stringify({
+        error: "Expected a JSON body",
+        status: 400,
+      })}\n\n`
+    );
+  });
+
+  it("still reports a missing query as such", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await stream("{}")).toContain('"status":400');
+    expect(await stream("{}")).not.toContain("Expected a JSON body");
+  });
+});
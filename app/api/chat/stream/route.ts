@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+  describeSearchError,
+  noResultsResponse,
+  parseSearchRequest,
+  readJsonBody,
+  searchDocuments,
+} from "@/lib/search";
+
+/**
+ * STREAMING SEARCH ENDPOINT
+ * Responsible for: Running the /api/chat search while streaming progress
+ * - Same request body as /api/chat
+ * - Responds with Server-Sent Events:
+ *   - status: { message } as each tier starts
+ *   - partial: { tier, collection?, results } as tiers/collections finish
+ *   - refined: { keywords } when AI refinement suggests keywords
+ *   - done: the final page, as /api/chat would return it
+ *   - notFound: suggestions and corrected queries when every tier comes
+ *     back empty
+ *   - error: { error, status }
+ */
+export async function POST(req: NextRequest): Promise<Response> {
+  console.log("📩 POST /api/chat/stream received");
+
+  const encoder = new TextEncoder();
+
+  // Set when the client disconnects; the search finishes but sends nothing
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (cancelled) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      try {
+        const request = parseSearchRequest(await readJsonBody(req));
+        console.log("🔎 Streaming query:", request.query);
+
+        const { db } = await connectToDatabase();
+        const outcome = await searchDocuments(db, {
+          ...request,
+          onProgress: (event) => {
+            const { type, ...data } = event;
+            send(type, data);
+          },
+        });
+
+        if (outcome.total > 0) {
+          send("done", outcome);
+        } else {
+          send("notFound", noResultsResponse(outcome));
+        }
+      } catch (error) {
+        console.error("🚨 Streaming search error:", error);
+        send("error", describeSearchError(error));
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
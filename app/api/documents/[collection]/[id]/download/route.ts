@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+  DocumentNotFoundError,
+  getDocumentFiles,
+} from "@/lib/document-details";
+import { createSignedDownload, StorageError } from "@/lib/storage";
+
+/**
+ * DOCUMENT DOWNLOAD ENDPOINT
+ * Responsible for: Sending the browser to a short-lived signed file URL
+ * - Signs with Supabase storage first, then S3 from the document's `aws`
+ *   block (see lib/storage)
+ * - Redirects (307) to the signed URL, which expires after
+ *   DOWNLOAD_URL_TTL_SECONDS, so the redirect itself is never cached
+ * - Responds 404 when the document or its file doesn't exist
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ collection: string; id: string }> }
+): Promise<NextResponse> {
+  const { collection, id } = await params;
+  console.log(`📩 GET /api/documents/${collection}/${id}/download received`);
+
+  try {
+    const { db } = await connectToDatabase();
+    const download = await createSignedDownload(
+      await getDocumentFiles(db, collection, id)
+    );
+
+    console.log(`🔗 Signed ${download.source} download for ${id}`);
+    const response = NextResponse.redirect(download.url, 307);
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error) {
+    console.error("🚨 Download error:", error);
+
+    if (
+      error instanceof DocumentNotFoundError ||
+      error instanceof StorageError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Downloads temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { AuthError, requireUser } from "@/lib/auth";
+import {
+  deleteDocument,
+  DocumentUpdateError,
+  parseDocumentUpdate,
+  updateDocument,
+} from "@/lib/document-admin";
+import {
+  DocumentNotFoundError,
+  findRelatedDocuments,
+  getDocumentDetails,
+} from "@/lib/document-details";
+import { LLMError } from "@/lib/llm";
+
+/**
+ * DOCUMENT DETAIL ENDPOINT
+ * Responsible for: Serving one document to the /documents detail page
+ * - Responds with every stored field except the embedding, including the
+ *   full text `content`, plus `related` documents
+ * - Responds 404 for unknown collections, malformed ids and missing
+ *   documents alike
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ collection: string; id: string }> }
+): Promise<NextResponse> {
+  const { collection, id } = await params;
+  console.log(`📩 GET /api/documents/${collection}/${id} received`);
+
+  try {
+    const { db } = await connectToDatabase();
+    const document = await getDocumentDetails(db, collection, id);
+    const related = await findRelatedDocuments(db, document);
+
+    return NextResponse.json({ document, related });
+  } catch (error) {
+    console.error("🚨 Document lookup error:", error);
+
+    if (error instanceof DocumentNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Document service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
+
+/**
+ * DOCUMENT EDIT ENDPOINT
+ * Responsible for: Admin corrections to a stored document
+ * - Body: any of title, summary, department, content, categories, keywords,
+ *   fileType, createdAt, supabase { url }, aws { bucket, key, region };
+ *   null clears a field
+ * - Re-embeds the document when its searchable text changes
+ * - Responds with the updated `document`
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ collection: string; id: string }> }
+): Promise<NextResponse> {
+  const { collection, id } = await params;
+  console.log(`📩 PATCH /api/documents/${collection}/${id} received`);
+
+  try {
+    const { db } = await connectToDatabase();
+    const admin = await requireUser(db, req, "admin");
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      throw new DocumentUpdateError("Expected a JSON body");
+    }
+    const update = parseDocumentUpdate(body);
+
+    console.log(`👤 Edit by "${admin.username}"`);
+    const document = await updateDocument(db, collection, id, update);
+    return NextResponse.json({ document });
+  } catch (error) {
+    console.error("🚨 Document update error:", error);
+
+    if (
+      error instanceof AuthError ||
+      error instanceof DocumentNotFoundError ||
+      error instanceof DocumentUpdateError ||
+      error instanceof LLMError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Document service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
+
+/**
+ * DOCUMENT DELETE ENDPOINT
+ * Responsible for: Removing a document from its collection and from search
+ * (administrators only); responds 204
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ collection: string; id: string }> }
+): Promise<NextResponse> {
+  const { collection, id } = await params;
+  console.log(`📩 DELETE /api/documents/${collection}/${id} received`);
+
+  try {
+    const { db } = await connectToDatabase();
+    const admin = await requireUser(db, req, "admin");
+
+    console.log(`👤 Delete by "${admin.username}"`);
+    await deleteDocument(db, collection, id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("🚨 Document delete error:", error);
+
+    if (error instanceof AuthError || error instanceof DocumentNotFoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Document service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+  describeSearchError,
+  findSimilarDocuments,
+  normalizeResults,
+  SEARCH_LIMITS,
+  SearchError,
+} from "@/lib/search";
+
+/**
+ * SIMILAR DOCUMENTS ENDPOINT
+ * Responsible for: "More like this" for one stored document
+ * - Query: ?limit=N (default 10, at most MAX_PAGE_SIZE)
+ * - Responds with `results`, nearest first, each carrying its cosine
+ *   `similarity` to the document, and their `total`
+ * - Responds 404 for unknown collections, ids and documents
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ collection: string; id: string }> }
+): Promise<NextResponse> {
+  const { collection, id } = await params;
+  console.log(`📩 GET /api/documents/${collection}/${id}/similar received`);
+
+  try {
+    const rawLimit = req.nextUrl.searchParams.get("limit");
+    const limit =
+      rawLimit === null ? SEARCH_LIMITS.SIMILAR_RESULTS : Number(rawLimit);
+    if (
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > SEARCH_LIMITS.MAX_PAGE_SIZE
+    ) {
+      throw new SearchError(
+        `limit must be an integer from 1 to ${SEARCH_LIMITS.MAX_PAGE_SIZE}`,
+        400
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const results = normalizeResults(
+      await findSimilarDocuments(db, collection, id, limit)
+    );
+
+    return NextResponse.json({ results, total: results.length });
+  } catch (error) {
+    console.error("🚨 Similar documents error:", error);
+
+    const { error: message, status } = describeSearchError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, requireUser } from "@/lib/auth";
+import {
+  backfillStructuredFields,
+  hasStructuredFields,
+  STRUCTURED_FIELDS,
+} from "@/lib/extraction";
+import { connectToDatabase } from "@/lib/mongodb";
+
+/**
+ * STRUCTURED FIELD BACKFILL ENDPOINT
+ * Administrators only (401 when signed out, 403 for citizens)
+ * - Body: { collection?: "Tender" | "EmploymentNotice", limit?: number };
+ *   collection defaults to Tender
+ * - Extracts fields for one batch of documents stored without them
+ * - Responds with { collection, processed, extracted, failed, remaining };
+ *   call again until remaining is 0
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 POST /api/documents/backfill received");
+
+  try {
+    const { db } = await connectToDatabase();
+    const admin = await requireUser(db, req, "admin");
+
+    const body = (await req.json().catch(() => ({}))) as Record<
+      string,
+      unknown
+    >;
+    const collection = body?.collection ?? "Tender";
+    if (typeof collection !== "string" || !hasStructuredFields(collection)) {
+      return NextResponse.json(
+        {
+          error: `Collection must be one of: ${Object.keys(
+            STRUCTURED_FIELDS
+          ).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    const limit = body?.limit === undefined ? undefined : Number(body.limit);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`👤 Backfill of ${collection} by "${admin.username}"`);
+    const summary = await backfillStructuredFields(db, { collection, limit });
+    console.log(
+      `✅ Backfilled ${collection}: ${summary.processed} processed, ${summary.remaining} remaining`
+    );
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("🚨 Backfill error:", error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Backfill temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
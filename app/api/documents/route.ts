@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { ALLOWED_COLLECTIONS, isAllowedCollection } from "@/lib/documents";
+import { ingestDocument, IngestionError } from "@/lib/ingestion";
+import { StorageError } from "@/lib/storage";
+import { LLMError } from "@/lib/llm";
+import { AuthError, requireUser } from "@/lib/auth";
+import { listDocuments } from "@/lib/document-admin";
+import { omit } from "@/lib/utils";
+
+/**
+ * DOCUMENT UPLOAD ENDPOINT
+ * Administrators only (401 when signed out, 403 for citizens)
+ * Accepts multipart/form-data with:
+ * - file: the PDF or DOCX to ingest
+ * - collection: one of ALLOWED_COLLECTIONS
+ * - title, department: optional overrides for the generated metadata
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 POST /api/documents received");
+
+  try {
+    const { db } = await connectToDatabase();
+    const admin = await requireUser(db, req, "admin");
+
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      return NextResponse.json(
+        { error: "Expected multipart/form-data body" },
+        { status: 400 }
+      );
+    }
+
+    const file = form.get("file");
+    const collection = form.get("collection");
+    const title = form.get("title");
+    const department = form.get("department");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+    if (!isAllowedCollection(collection)) {
+      return NextResponse.json(
+        {
+          error: `Collection must be one of: ${ALLOWED_COLLECTIONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`👤 Upload by "${admin.username}"`);
+    const document = await ingestDocument(db, {
+      data: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name,
+      mimeType: file.type,
+      collection,
+      title: typeof title === "string" ? title : undefined,
+      department: typeof department === "string" ? department : undefined,
+    });
+
+    // Embeddings and full text are large and not useful to the uploader
+    return NextResponse.json(
+      {
+        document: {
+          ...omit(document, "embedding", "content"),
+          _id: document._id.toString(),
+          collection,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("🚨 Ingestion error:", error);
+
+    if (
+      error instanceof AuthError ||
+      error instanceof IngestionError ||
+      error instanceof StorageError ||
+      error instanceof LLMError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Document ingestion temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
+
+/**
+ * DOCUMENT LIST ENDPOINT
+ * Responsible for: The admin console's document list (administrators only)
+ * - Query params: collection (optional), q (title, file name or
+ *   department), page, pageSize
+ * - Responds with { documents, total, page, pageSize }, newest first
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 GET /api/documents received");
+
+  try {
+    const { db } = await connectToDatabase();
+    await requireUser(db, req, "admin");
+
+    const params = req.nextUrl.searchParams;
+    const collection = params.get("collection") || undefined;
+    if (collection !== undefined && !isAllowedCollection(collection)) {
+      return NextResponse.json(
+        {
+          error: `Collection must be one of: ${ALLOWED_COLLECTIONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      await listDocuments(db, {
+        collection,
+        query: params.get("q") ?? undefined,
+        page: Number(params.get("page")) || 1,
+        pageSize: Number(params.get("pageSize")) || undefined,
+      })
+    );
+  } catch (error) {
+    console.error("🚨 Document list error:", error);
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Document service temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
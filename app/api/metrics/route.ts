@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, requireUser } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/mongodb";
+import { getEmbeddingCacheStats } from "@/lib/search";
+
+/**
+ * METRICS ENDPOINT
+ * Reports in-process counters for this server instance to administrators
+ * - embeddingCache: query embedding cache hits (memory / MongoDB) and misses
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  try {
+    const { db } = await connectToDatabase();
+    await requireUser(db, req, "admin");
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error("🚨 Metrics auth error:", error);
+    return NextResponse.json(
+      { error: "Metrics temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({
+    embeddingCache: getEmbeddingCacheStats(),
+  });
+}
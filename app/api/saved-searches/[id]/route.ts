@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, requireUser } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/mongodb";
+import { deleteSavedSearch, SavedSearchError } from "@/lib/saved-searches";
+
+/**
+ * SAVED SEARCH DELETE ENDPOINT
+ * Responsible for: Removing one of the signed-in user's saved searches,
+ * which stops its alerts; responds 204
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const { id } = await params;
+  console.log(`📩 DELETE /api/saved-searches/${id} received`);
+
+  try {
+    const { db } = await connectToDatabase();
+    const user = await requireUser(db, req);
+    await deleteSavedSearch(db, user, id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("🚨 Saved search delete error:", error);
+
+    if (error instanceof AuthError || error instanceof SavedSearchError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Saved searches temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { confirmAlertEmail, SavedSearchError } from "@/lib/saved-searches";
+
+/**
+ * ALERT EMAIL CONFIRMATION ENDPOINT
+ * Responsible for: The link emailed when a search is saved with a new address
+ * - GET ?token=... confirms the address, then redirects to /saved-searches
+ *   with confirmed=1, or confirmed=0 when the link is invalid or expired
+ * - Needs no session: following the link proves the mailbox is the user's
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 GET /api/saved-searches/confirm received");
+  const done = (confirmed: boolean) =>
+    NextResponse.redirect(
+      new URL(`/saved-searches?confirmed=${confirmed ? 1 : 0}`, req.url),
+      303
+    );
+
+  try {
+    const { db } = await connectToDatabase();
+    await confirmAlertEmail(db, req.nextUrl.searchParams.get("token") ?? "");
+    return done(true);
+  } catch (error) {
+    console.error("🚨 Alert email confirmation error:", error);
+
+    if (error instanceof SavedSearchError) {
+      return done(false);
+    }
+
+    return NextResponse.json(
+      { error: "Saved searches temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
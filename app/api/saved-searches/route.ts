@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, requireUser } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/mongodb";
+import {
+  createSavedSearch,
+  listSavedSearches,
+  parseSavedSearch,
+  SavedSearchError,
+} from "@/lib/saved-searches";
+import { readJsonBody, SearchError } from "@/lib/search";
+
+function errorResponse(error: unknown): NextResponse {
+  if (
+    error instanceof AuthError ||
+    error instanceof SavedSearchError ||
+    error instanceof SearchError
+  ) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: "Saved searches temporarily unavailable" },
+    { status: 503 }
+  );
+}
+
+/**
+ * SAVED SEARCH LIST ENDPOINT
+ * Responsible for: The signed-in user's saved searches, newest first
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 GET /api/saved-searches received");
+
+  try {
+    const { db } = await connectToDatabase();
+    const user = await requireUser(db, req);
+    return NextResponse.json({
+      savedSearches: await listSavedSearches(db, user),
+    });
+  } catch (error) {
+    console.error("🚨 Saved search list error:", error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * SAVE SEARCH ENDPOINT
+ * Responsible for: Saving a search for new-document alerts
+ * - Body: { query, mode?, filters?, email, name? }, with query, mode and
+ *   filters as in a search request
+ * - Alerts cover documents created after the search is saved, and start
+ *   once the email is confirmed (`savedSearch.emailConfirmed`); a new
+ *   address is sent a confirmation link, 502 when that fails
+ * - Responds 201 with the `savedSearch`
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  console.log("📩 POST /api/saved-searches received");
+
+  try {
+    const { db } = await connectToDatabase();
+    const user = await requireUser(db, req);
+    const search = parseSavedSearch(await readJsonBody(req));
+    return NextResponse.json(
+      { savedSearch: await createSavedSearch(db, user, search) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("🚨 Save search error:", error);
+    return errorResponse(error);
+  }
+}
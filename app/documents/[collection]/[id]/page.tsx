@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, Download, Loader2 } from "lucide-react";
+import { MainNav } from "@/components/main-nav";
+import { ClosingBadge } from "@/components/closing-badge";
+import {
+  EmploymentDetails,
+  formatAgeLimits,
+  QUALIFICATION_LABELS,
+} from "@/components/employment-details";
+import { formatRupees, TenderDetails } from "@/components/tender-details";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// Document as returned by /api/documents/[collection]/[id]
+interface DocumentDetails {
+  _id: string;
+  collection: string;
+  title?: string;
+  name?: string;
+  content?: string;
+  categories?: string[];
+  keywords?: string[];
+  department?: string;
+  createdAt: string | null;
+  filePath?: string;
+  supabase?: { url?: string };
+  aws?: { bucket?: string; key?: string; region?: string };
+  summary?: string;
+  fileType?: string;
+  tender?: TenderDetails;
+  employment?: EmploymentDetails;
+}
+
+interface RelatedDocument {
+  _id: string;
+  collection: string;
+  title?: string;
+  department?: string;
+  createdAt: string | null;
+  summary?: string;
+}
+
+const COLLECTION_LABELS: Record<string, string> = {
+  EmploymentNotice: "Employment",
+  NotificationCircular: "Circular",
+  Tender: "Tender",
+};
+
+// Characters of content shown before "Show full text"
+const PREVIEW_CHARS = 3000;
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "Not specified";
+}
+
+// Metadata rows for a tender's extracted fields; none for other documents
+function tenderMetadata(
+  tender?: TenderDetails
+): [string, string | undefined][] {
+  if (!tender) return [];
+  const dateTime = (value?: string) =>
+    value ? new Date(value).toLocaleString() : undefined;
+  return [
+    ["Tender number", tender.tenderNumber],
+    ["Issuing office", tender.issuingOffice],
+    ["Estimated cost", formatRupees(tender.estimatedCost)],
+    ["EMD", formatRupees(tender.emd)],
+    ["Bid submission opens", dateTime(tender.bidStartDate)],
+    ["Bid submission closes", dateTime(tender.bidCloseDate)],
+  ];
+}
+
+// Metadata rows for an employment notice's extracted fields
+function employmentMetadata(
+  employment?: EmploymentDetails
+): [string, string | undefined][] {
+  if (!employment) return [];
+  return [
+    [
+      "Vacancies",
+      employment.vacancies !== undefined
+        ? String(employment.vacancies)
+        : undefined,
+    ],
+    [
+      "Qualification",
+      employment.qualification ??
+        (employment.qualificationLevel &&
+          QUALIFICATION_LABELS[employment.qualificationLevel]),
+    ],
+    ["Age limit", formatAgeLimits(employment)],
+    ["Pay", employment.payLevel],
+    [
+      "Applications close",
+      employment.applicationDeadline &&
+        new Date(employment.applicationDeadline).toLocaleString(),
+    ],
+  ];
+}
+
+function documentTitle(document: DocumentDetails): string {
+  if (document.name) return document.name;
+  if (document.title) return document.title;
+  const filename = document.filePath?.split("/").pop() || "";
+  return filename.replace(/\.[^/.]+$/, "").replace(/_/g, " ") || "Untitled";
+}
+
+export default function DocumentPage() {
+  const { collection, id } = useParams<{ collection: string; id: string }>();
+  const [document, setDocument] = useState<DocumentDetails | null>(null);
+  const [related, setRelated] = useState<RelatedDocument[]>([]);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [showFullText, setShowFullText] = useState(false);
+
+  useEffect(() => {
+    const loadDocument = async () => {
+      setIsLoading(true);
+      setError("");
+      setShowFullText(false);
+      try {
+        const res = await fetch(
+          `/api/documents/${encodeURIComponent(
+            collection
+          )}/${encodeURIComponent(id)}`
+        );
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || "Failed to load document");
+          setDocument(null);
+          setRelated([]);
+          return;
+        }
+        setDocument(data.document);
+        setRelated(data.related ?? []);
+      } catch (e) {
+        console.error("Error loading document:", e);
+        setError("Failed to load document");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadDocument();
+  }, [collection, id]);
+
+  const content = document?.content?.trim() ?? "";
+  const preview =
+    showFullText || content.length <= PREVIEW_CHARS
+      ? content
+      : `${content.slice(0, PREVIEW_CHARS)}…`;
+
+  const metadata: [string, string | undefined][] = document
+    ? [
+        ["Document type", COLLECTION_LABELS[document.collection]],
+        ["Department", document.department],
+        ["File type", document.fileType?.toUpperCase()],
+        ["Created", formatDate(document.createdAt)],
+        ...tenderMetadata(document.tender),
+        ...employmentMetadata(document.employment),
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white dark:from-gray-950 dark:to-gray-900">
+      <MainNav />
+      <main className="container mx-auto max-w-5xl px-4 py-8">
+        <Link
+          href="/"
+          className="mb-6 inline-flex items-center text-sm text-blue-700 hover:underline dark:text-blue-400"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to search
+        </Link>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-16 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            Loading document
+          </div>
+        )}
+
+        {!isLoading && error && (
+          <Card className="border-red-100 dark:border-red-900/50">
+            <CardContent className="py-8 text-center text-red-700 dark:text-red-400">
+              {error}
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && document && (
+          <div className="grid gap-6 md:grid-cols-[1fr_280px]">
+            <div className="min-w-0 space-y-6">
+              <Card className="border-blue-100 dark:border-blue-900/50 dark:bg-gray-900">
+                <CardHeader>
+                  <div className="mb-2 flex flex-wrap gap-2">
+                    <Badge className="w-fit bg-blue-100 text-xs text-black">
+                      {COLLECTION_LABELS[document.collection] ??
+                        document.collection}
+                    </Badge>
+                    {document.tender?.bidCloseDate && (
+                      <ClosingBadge closesAt={document.tender.bidCloseDate} />
+                    )}
+                    {document.employment?.applicationDeadline && (
+                      <ClosingBadge
+                        closesAt={document.employment.applicationDeadline}
+                        description="Applications"
+                      />
+                    )}
+                  </div>
+                  <CardTitle className="break-words text-2xl font-semibold leading-relaxed">
+                    {documentTitle(document)}
+                  </CardTitle>
+                  {document.summary && (
+                    <CardDescription className="break-words leading-relaxed">
+                      {document.summary}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  <dl className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                    {metadata.map(([label, value]) => (
+                      <div key={label}>
+                        <dt className="text-gray-500">{label}</dt>
+                        <dd className="font-medium break-words">
+                          {value || "Not specified"}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {document.employment?.posts &&
+                    document.employment.posts.length > 0 && (
+                      <div>
+                        <p className="mb-1 text-gray-500">Posts</p>
+                        <ul className="list-disc space-y-1 pl-5">
+                          {document.employment.posts.map((post) => (
+                            <li key={post.name} className="break-words">
+                              {post.name}
+                              {post.vacancies !== undefined &&
+                                ` (${post.vacancies} ${
+                                  post.vacancies === 1 ? "vacancy" : "vacancies"
+                                })`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  {document.categories && document.categories.length > 0 && (
+                    <div>
+                      <p className="mb-1 text-gray-500">Categories</p>
+                      <div className="flex flex-wrap gap-1">
+                        {document.categories.map((category) => (
+                          <Badge
+                            key={category}
+                            variant="secondary"
+                            className="text-xs"
+                          >
+                            {category}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {document.keywords && document.keywords.length > 0 && (
+                    <div>
+                      <p className="mb-1 text-gray-500">Keywords</p>
+                      <div className="flex flex-wrap gap-1">
+                        {document.keywords.map((keyword) => (
+                          <Badge
+                            key={keyword}
+                            variant="outline"
+                            className="text-xs"
+                          >
+                            {keyword}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {document.supabase?.url ||
+                    (document.aws?.bucket && document.aws.key) ? (
+                      <Button
+                        asChild
+                        className="bg-blue-600 text-white hover:bg-blue-700"
+                      >
+                        <a
+                          href={`/api/documents/${document.collection}/${document._id}/download`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          <Download className="mr-2 h-4 w-4" />
+                          Download
+                        </a>
+                      </Button>
+                    ) : (
+                      <span className="text-sm italic text-gray-400">
+                        File not available
+                      </span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="border-blue-100 dark:border-blue-900/50 dark:bg-gray-900">
+                <CardHeader>
+                  <CardTitle className="text-lg">Text preview</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {content ? (
+                    <>
+                      <pre className="max-h-[32rem] overflow-y-auto whitespace-pre-wrap break-words font-sans text-sm leading-relaxed text-gray-700 dark:text-gray-300">
+                        {preview}
+                      </pre>
+                      {content.length > PREVIEW_CHARS && (
+                        <Button
+                          variant="outline"
+                          className="mt-4"
+                          onClick={() => setShowFullText(!showFullText)}
+                        >
+                          {showFullText ? "Show less" : "Show full text"}
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm italic text-gray-400">
+                      No text was extracted from this document.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <aside>
+              <Card className="border-blue-100 dark:border-blue-900/50 dark:bg-gray-900">
+                <CardHeader>
+                  <CardTitle className="text-lg">Related documents</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  {related.length === 0 && (
+                    <p className="italic text-gray-400">
+                      No related documents found.
+                    </p>
+                  )}
+                  {related.map((doc) => (
+                    <div key={`${doc.collection}/${doc._id}`}>
+                      <Link
+                        href={`/documents/${doc.collection}/${doc._id}`}
+                        className="font-medium text-blue-700 hover:underline dark:text-blue-400 break-words"
+                      >
+                        {doc.title || "Untitled"}
+                      </Link>
+                      <p className="text-xs text-gray-500">
+                        {[
+                          COLLECTION_LABELS[doc.collection],
+                          doc.department,
+                          formatDate(doc.createdAt),
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </aside>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
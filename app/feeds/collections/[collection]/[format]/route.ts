@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  collectionFeed,
+  feedAppUrl,
+  FeedError,
+  parseFeedFormat,
+  renderFeed,
+} from "@/lib/feeds";
+import { connectToDatabase } from "@/lib/mongodb";
+
+/**
+ * COLLECTION FEED ENDPOINT
+ * Responsible for: The newest documents of one collection as RSS or Atom
+ * - GET /feeds/collections/{collection}/rss or .../atom
+ * - Responds 404 for unknown collections and formats
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ collection: string; format: string }> }
+): Promise<NextResponse> {
+  const { collection, format } = await params;
+  console.log(`📩 GET /feeds/collections/${collection}/${format} received`);
+
+  try {
+    const feedFormat = parseFeedFormat(format);
+    const appUrl = feedAppUrl(req.nextUrl.origin);
+    const selfUrl = `${appUrl}${req.nextUrl.pathname}${req.nextUrl.search}`;
+    const { db } = await connectToDatabase();
+    const feed = await collectionFeed(db, collection, selfUrl);
+
+    const { body, contentType } = renderFeed(feed, feedFormat, appUrl);
+    console.log(
+      `📰 ${collection} ${format} feed with ${feed.entries.length} entries`
+    );
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=600",
+      },
+    });
+  } catch (error) {
+    console.error("🚨 Collection feed error:", error);
+
+    if (error instanceof FeedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Feeds temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  departmentFeed,
+  feedAppUrl,
+  FeedError,
+  parseFeedFormat,
+  renderFeed,
+} from "@/lib/feeds";
+import { connectToDatabase } from "@/lib/mongodb";
+
+/**
+ * DEPARTMENT FEED ENDPOINT
+ * Responsible for: The newest documents of one department as RSS or Atom
+ * - GET /feeds/departments/{department}/rss or .../atom, with the
+ *   department name URL-encoded and matched case-insensitively
+ * - Covers every collection; responds 404 when the department has no
+ *   documents or the format is unknown
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ department: string; format: string }> }
+): Promise<NextResponse> {
+  const { department: rawDepartment, format } = await params;
+  const department = rawDepartment.trim();
+  console.log(`📩 GET /feeds/departments/${department}/${format} received`);
+
+  try {
+    const feedFormat = parseFeedFormat(format);
+    const appUrl = feedAppUrl(req.nextUrl.origin);
+    const selfUrl = `${appUrl}${req.nextUrl.pathname}${req.nextUrl.search}`;
+    const { db } = await connectToDatabase();
+    const feed = await departmentFeed(db, department, selfUrl);
+
+    const { body, contentType } = renderFeed(feed, feedFormat, appUrl);
+    console.log(
+      `📰 ${department} ${format} feed with ${feed.entries.length} entries`
+    );
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=600",
+      },
+    });
+  } catch (error) {
+    console.error("🚨 Department feed error:", error);
+
+    if (error instanceof FeedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Feeds temporarily unavailable" },
+      { status: 503 }
+    );
+  }
+}
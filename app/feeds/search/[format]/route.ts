@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  feedAppUrl,
+  FeedError,
+  parseFeedFormat,
+  renderFeed,
+  searchFeed,
+} from "@/lib/feeds";
+import { connectToDatabase } from "@/lib/mongodb";
+import { describeSearchError } from "@/lib/search";
+
+/**
+ * SEARCH FEED ENDPOINT
+ * Responsible for: The newest documents matching a query as RSS or Atom
+ * - GET /feeds/search/rss?q=...&collection=...&department=...
+ *   (or /feeds/search/atom); collection may be repeated
+ * - Responds 400 without q or with an unknown collection, 404 for an
+ *   unknown format; a query with no matches gives an empty feed
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ format: string }> }
+): Promise<NextResponse> {
+  const { format } = await params;
+  console.log(`📩 GET /feeds/search/${format} received`);
+
+  try {
+    const feedFormat = parseFeedFormat(format);
+    const appUrl = feedAppUrl(req.nextUrl.origin);
+    const selfUrl = `${appUrl}${req.nextUrl.pathname}${req.nextUrl.search}`;
+    const { db } = await connectToDatabase();
+    const feed = await searchFeed(db, req.nextUrl.searchParams, selfUrl);
+
+    const { body, contentType } = renderFeed(feed, feedFormat, appUrl);
+    console.log(`📰 Search ${format} feed with ${feed.entries.length} entries`);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=600",
+      },
+    });
+  } catch (error) {
+    console.error("🚨 Search feed error:", error);
+
+    if (error instanceof FeedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    const { error: message, status } = describeSearchError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
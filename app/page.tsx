@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,12 +15,29 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
-import { Search, Filter, Loader2 } from "lucide-react";
+import {
+  Search,
+  Filter,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
 import { MainNav } from "@/components/main-nav";
+import { FacetOption, FacetSelect } from "@/components/facet-select";
+import { ResultSnippets, Snippet } from "@/components/result-snippets";
+import { SaveSearch } from "@/components/save-search";
+import { ClosingBadge } from "@/components/closing-badge";
+import {
+  EmploymentDetails,
+  EmploymentSummary,
+  QUALIFICATION_LABELS,
+} from "@/components/employment-details";
+import { TenderDetails } from "@/components/tender-details";
+import { readEventStream } from "@/lib/sse";
 
 // Define a type for search results, replace '...' with actual properties
 interface SearchResult {
-  _id?: { $oid: string };
+  _id?: string; // ObjectId, serialized as hex
   name?: string;
   title?: string;
   filePath?: string;
@@ -28,9 +46,90 @@ interface SearchResult {
   summary?: string;
   createdAt?: string;
   supabase?: { url?: string };
+  aws?: { bucket?: string; key?: string; region?: string }; // S3 copy of the file
+  snippets?: Snippet[]; // Excerpts around the query's matches
+  tender?: TenderDetails; // Extracted fields of tenders
+  employment?: EmploymentDetails; // Extracted fields of employment notices
   // ... other properties
 }
 
+const PAGE_SIZE = 20;
+
+// Document type filter values and the collection each one searches
+const DOCUMENT_TYPE_COLLECTIONS: Record<string, string> = {
+  employment: "EmploymentNotice",
+  circular: "NotificationCircular",
+  tender: "Tender",
+};
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  employment: "Employment",
+  circular: "Circular",
+  tender: "Tender",
+};
+
+// Match counts per filter value, as returned by the search API
+interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+type SearchFacets = Record<
+  | "collection"
+  | "department"
+  | "year"
+  | "category"
+  | "fileType"
+  | "qualification",
+  FacetBucket[]
+>;
+
+// Sidebar filter choices; "all" leaves a filter off
+interface FilterSelection {
+  documentType: string;
+  year: string;
+  department: string;
+  category: string;
+  fileType: string;
+  qualification: string;
+  // "open" keeps employment notices still accepting applications
+  applications: string;
+}
+
+const NO_FILTERS: FilterSelection = {
+  documentType: "all",
+  year: "all",
+  department: "all",
+  category: "all",
+  fileType: "all",
+  qualification: "all",
+  applications: "all",
+};
+
+// Corrected query offered as "did you mean", with its match count
+interface SpellingSuggestion {
+  query: string;
+  total: number;
+}
+
+// Language the query was typed in, and the English query searched instead
+interface QueryLanguage {
+  detected: "en" | "ne" | "hi";
+  translatedQuery?: string;
+}
+
+const LANGUAGE_LABELS: Record<QueryLanguage["detected"], string> = {
+  en: "English",
+  ne: "Nepali",
+  hi: "Hindi",
+};
+
+interface SearchOverrides {
+  page?: number;
+  sort?: string;
+  filters?: FilterSelection;
+}
+
 export default function SearchPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [currentSearchQuery, setCurrentSearchQuery] = useState(""); // Store the query that was actually searched
@@ -39,35 +138,181 @@ export default function SearchPage() {
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [filteredResults, setFilteredResults] = useState<SearchResult[]>([]);
   const [chatbotQuery, setChatbotQuery] = useState<string>("");
-  const [selectedDocumentType, setSelectedDocumentType] =
-    useState<string>("all");
+  const [filterSelection, setFilterSelection] =
+    useState<FilterSelection>(NO_FILTERS);
   const [sortOrder, setSortOrder] = useState<string>("newest");
-  const [selectedYear, setSelectedYear] = useState<number>(2025);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [didYouMean, setDidYouMean] = useState<SpellingSuggestion[]>([]);
+  const [queryLanguage, setQueryLanguage] = useState<QueryLanguage | null>(
+    null
+  );
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalResults, setTotalResults] = useState(0);
+  // The search stopped at a candidate cap, so more documents may match
+  const [totalIsEstimate, setTotalIsEstimate] = useState(false);
+  const [searchStatus, setSearchStatus] = useState("");
+  const [searchError, setSearchError] = useState("");
+  // Title of the document whose neighbours are listed, if any
+  const [similarTo, setSimilarTo] = useState<string | null>(null);
+  // Filters sent with the search being shown; null for assistant results
+  const [currentFilters, setCurrentFilters] = useState<Record<
+    string,
+    unknown
+  > | null>(null);
 
-  // Add a handler to receive results from chatbot refinement
-  const handleChatbotResults = (results: SearchResult[]) => {
+  // Show the results of the assistant's searches; the chatbot stays
+  // mounted so the conversation can keep narrowing them
+  const handleChatbotResults = (results: SearchResult[], query: string) => {
     setSearchResults(results);
+    setTotalResults(results.length);
+    setTotalIsEstimate(false);
+    setCurrentSearchQuery(query);
+    setCurrentFilters(null);
+    setSimilarTo(null);
+    setFacets(null);
+    setDidYouMean([]);
+    setQueryLanguage(null);
+    setCurrentPage(1);
     setShowResults(true);
-    setChatbotQuery(""); // Unmount chatbot after showing results
+  };
+
+  // List the documents nearest in meaning to one result
+  const handleSimilar = async (result: SearchResult) => {
+    if (!result._id || !result.collection) return;
+
+    setIsSearching(true);
+    setSearchStatus("Finding similar documents");
+    setSearchError("");
+    try {
+      const res = await fetch(
+        `/api/documents/${result.collection}/${result._id}/similar`
+      );
+      const data = await res.json();
+      if (!res.ok) {
+        setSearchError(data.error || "Failed to find similar documents");
+        return;
+      }
+      setSearchResults(data.results);
+      setTotalResults(data.total);
+      setTotalIsEstimate(false);
+      setSimilarTo(getDocumentTitle(result));
+      setFacets(null);
+      setDidYouMean([]);
+      setQueryLanguage(null);
+      setCurrentPage(1);
+      setShowResults(true);
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    } catch (e) {
+      console.error("Error finding similar documents:", e);
+      setSearchError("Failed to find similar documents");
+    } finally {
+      setIsSearching(false);
+      setSearchStatus("");
+    }
   };
   // Perform search for given query or current searchQuery
-  const handleSearch = async (queryParam?: string) => {
+  const handleSearch = async (
+    queryParam?: string,
+    {
+      page = 1,
+      sort = sortOrder,
+      filters: selection = filterSelection,
+    }: SearchOverrides = {}
+  ) => {
     const query = queryParam ?? searchQuery;
     if (!query.trim()) {
       return;
     }
 
+    // Sidebar filters are applied by the server
+    const filters = {
+      ...(DOCUMENT_TYPE_COLLECTIONS[selection.documentType] && {
+        collections: [DOCUMENT_TYPE_COLLECTIONS[selection.documentType]],
+      }),
+      ...(selection.year !== "all" && {
+        createdFrom: `${selection.year}-01-01T00:00:00.000Z`,
+        createdTo: `${selection.year}-12-31T23:59:59.999Z`,
+      }),
+      ...(selection.department !== "all" && {
+        department: selection.department,
+      }),
+      ...(selection.category !== "all" && {
+        categories: [selection.category],
+      }),
+      ...(selection.fileType !== "all" && { fileType: selection.fileType }),
+      ...(selection.qualification !== "all" && {
+        qualification: selection.qualification,
+      }),
+      ...(selection.applications === "open" && { openNow: true }),
+    };
+
     setIsSearching(true);
     setShowResults(false);
+    setSearchResults([]);
+    setTotalResults(0);
+    setSearchStatus("Starting search");
+    setSearchError("");
+    setDidYouMean([]);
+    setQueryLanguage(null);
+    setSimilarTo(null);
     setCurrentSearchQuery(query); // Store the search query that's being executed
+    setCurrentFilters(filters);
 
     try {
-      const res = await fetch("/api/chat", {
+      // Stream progress so early results show while slower tiers run
+      const res = await fetch("/api/chat/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({
+          query,
+          page,
+          pageSize: PAGE_SIZE,
+          sort,
+          filters,
+        }),
+      });
+
+      let data: {
+        results?: unknown;
+        total?: unknown;
+        totalIsEstimate?: boolean;
+        facets?: SearchFacets;
+        didYouMean?: SpellingSuggestion[];
+        language?: QueryLanguage;
+      } = {};
+      await readEventStream(res, (event, payload) => {
+        switch (event) {
+          case "status":
+            setSearchStatus((payload as { message: string }).message);
+            break;
+          case "refined":
+            setSearchStatus(
+              `Refined keywords: ${(
+                payload as { keywords: string[] }
+              ).keywords.join(", ")}`
+            );
+            break;
+          case "partial": {
+            const partial = (payload as { results: SearchResult[] }).results;
+            if (partial.length > 0) {
+              setSearchResults((prev) => [...prev, ...partial]);
+              setShowResults(true);
+            }
+            break;
+          }
+          case "done":
+          case "notFound":
+            data = payload as typeof data;
+            break;
+          case "error":
+            console.error("Search failed:", payload);
+            // Query syntax problems (400s) explain themselves to the user
+            if ((payload as { status: number }).status === 400) {
+              setSearchError((payload as { error: string }).error);
+            }
+            break;
+        }
       });
-      const data = await res.json();
 
       // Type the raw results properly
       const raw = Array.isArray(data.results) ? data.results : [];
@@ -85,39 +330,103 @@ export default function SearchPage() {
           : (raw as SearchResult[]);
 
       setSearchResults(results);
+      setTotalResults(typeof data.total === "number" ? data.total : 0);
+      setTotalIsEstimate(data.totalIsEstimate === true);
+      setFacets(data.facets ?? null);
+      setDidYouMean(data.didYouMean ?? []);
+      setQueryLanguage(data.language ?? null);
+      setCurrentPage(page);
       setShowResults(true);
-      setChatbotQuery(query);
+      // Only a fruitless search restarts the assistant with the query
+      setChatbotQuery(results.length === 0 ? query : "");
     } catch (e) {
       console.error("Error during search:", e);
       setSearchResults([]);
+      setTotalResults(0);
+      setFacets(null);
+      setDidYouMean([]);
+      setQueryLanguage(null);
       setShowResults(true);
     } finally {
       setIsSearching(false);
+      setSearchStatus("");
     }
   };
 
-  // Handler for Chatbot's query refinement
-  const handleChatbotQuery = (query: string) => {
-    setSearchQuery(query);
-    handleSearch(query);
+  // Results are paged, sorted and filtered on the server, so all of these refetch
+  const handlePageChange = (page: number) => {
+    handleSearch(currentSearchQuery, { page });
   };
 
-  // Update filtered results when search results, filters, or sort order change
-  useEffect(() => {
-    let filtered = [...searchResults];
+  const handleSortChange = (value: string) => {
+    setSortOrder(value);
+    if (currentSearchQuery) {
+      handleSearch(currentSearchQuery, { sort: value });
+    }
+  };
 
-    // year filter
-    filtered = filtered.filter((r: SearchResult) => {
-      const yr = r.createdAt ? new Date(r.createdAt).getFullYear() : NaN;
-      return yr === selectedYear;
-    });
+  const handleFilterChange = (key: keyof FilterSelection, value: string) => {
+    const next = { ...filterSelection, [key]: value };
+    setFilterSelection(next);
+    if (currentSearchQuery) {
+      handleSearch(currentSearchQuery, { filters: next });
+    }
+  };
 
-    // Apply document type filter
-    if (selectedDocumentType && selectedDocumentType !== "all") {
-      filtered = filtered.filter((result) => {
-        const docType = getDocumentType(result);
-        return docType.toLowerCase() === selectedDocumentType.toLowerCase();
-      });
+  // Options for a facet-driven filter; the selection stays listed even when
+  // the latest search has no matches for it
+  const facetOptions = (
+    field: keyof SearchFacets,
+    selected: string,
+    label: (value: string) => string = (value) => value
+  ): FacetOption[] => {
+    const options = (facets?.[field] ?? []).map(({ value, count }) => ({
+      value,
+      label: label(value),
+      count,
+    }));
+    if (selected !== "all" && !options.some((o) => o.value === selected)) {
+      options.push({ value: selected, label: label(selected), count: 0 });
+    }
+    return options;
+  };
+
+  const documentTypeOptions: FacetOption[] = Object.entries(
+    DOCUMENT_TYPE_COLLECTIONS
+  ).map(([value, collection]) => ({
+    value,
+    label: DOCUMENT_TYPE_LABELS[value],
+    count: facets
+      ? facets.collection.find((bucket) => bucket.value === collection)
+          ?.count ?? 0
+      : undefined,
+  }));
+
+  const yearOptions = facetOptions("year", filterSelection.year).sort(
+    (a, b) => Number(b.value) - Number(a.value)
+  );
+
+  // Qualification levels listed lowest first
+  const qualificationLevels = Object.keys(QUALIFICATION_LABELS);
+  const qualificationOptions = facetOptions(
+    "qualification",
+    filterSelection.qualification,
+    (value) => QUALIFICATION_LABELS[value] ?? value
+  ).sort(
+    (a, b) =>
+      qualificationLevels.indexOf(a.value) -
+      qualificationLevels.indexOf(b.value)
+  );
+
+  const totalPages = Math.max(1, Math.ceil(totalResults / PAGE_SIZE));
+
+  // Keep the current page in date order (ranked tiers arrive by relevance);
+  // the closing and cost orders come from the server as they are
+  useEffect(() => {
+    const filtered = [...searchResults];
+    if (sortOrder !== "newest" && sortOrder !== "oldest") {
+      setFilteredResults(filtered);
+      return;
     }
 
     // Apply sorting
@@ -133,7 +442,7 @@ export default function SearchPage() {
     });
 
     setFilteredResults(filtered);
-  }, [searchResults, selectedDocumentType, sortOrder, selectedYear]);
+  }, [searchResults, sortOrder]);
 
   const getDocumentTitle = (result: SearchResult) => {
     // Always use the document name from database
@@ -151,6 +460,14 @@ export default function SearchPage() {
     console.error("Document missing required name field:", result);
     return "Error: Document name not found";
   };
+  // Files are signed from Supabase storage or, failing that, S3
+  const hasDownload = (result: SearchResult) =>
+    Boolean(
+      result._id &&
+        result.collection &&
+        (result.supabase?.url || (result.aws?.bucket && result.aws.key))
+    );
+
   const getDocumentType = (result: SearchResult) => {
     // Primary: Use the collection field from database
     if (result.collection) {
@@ -243,6 +560,16 @@ export default function SearchPage() {
                     </Button>
                   </div>
                 </div>
+                {searchError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {searchError}
+                  </p>
+                )}
+                {isSearching && searchStatus && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 animate-in fade-in duration-200">
+                    {searchStatus}…
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -258,60 +585,91 @@ export default function SearchPage() {
                   </CardHeader>{" "}
                   <CardContent>
                     <div className="space-y-6">
-                      <div className="space-y-2">
-                        <Label className="text-sm font-medium">
-                          Document Type
-                        </Label>
-                        <Select
-                          value={selectedDocumentType}
-                          onValueChange={(value) =>
-                            setSelectedDocumentType(value)
-                          }
-                        >
-                          <SelectTrigger className="focus:ring-blue-500">
-                            <SelectValue placeholder="All Types" />
-                          </SelectTrigger>{" "}
-                          <SelectContent>
-                            <SelectItem value="all">All Types</SelectItem>
-                            <SelectItem value="employment">
-                              Employment
-                            </SelectItem>
-                            <SelectItem value="circular">Circular</SelectItem>
-                            <SelectItem value="notice">Notice</SelectItem>
-                            <SelectItem value="tender">Tender</SelectItem>
-                            <SelectItem value="document">Document</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+                      <FacetSelect
+                        label="Document Type"
+                        allLabel="All Types"
+                        value={filterSelection.documentType}
+                        options={documentTypeOptions}
+                        onValueChange={(value) =>
+                          handleFilterChange("documentType", value)
+                        }
+                      />
 
-                      {/* Year selector */}
-                      <div className="space-y-4 px-4">
-                        <Label className="text-sm font-medium">
-                          Year: {selectedYear}
-                        </Label>
-                        <div className="w-full">
-                          <input
-                            type="range"
-                            min={2010}
-                            max={2025}
-                            value={selectedYear}
-                            onChange={(e) => setSelectedYear(+e.target.value)}
-                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                          />
-                          <div className="flex justify-between text-xs text-gray-500 mt-1">
-                            <span>2010</span>
-                            <span>2025</span>
-                          </div>
-                        </div>
-                      </div>
+                      <FacetSelect
+                        label="Year"
+                        allLabel="All Years"
+                        value={filterSelection.year}
+                        options={yearOptions}
+                        onValueChange={(value) =>
+                          handleFilterChange("year", value)
+                        }
+                      />
+
+                      <FacetSelect
+                        label="Department"
+                        allLabel="All Departments"
+                        value={filterSelection.department}
+                        options={facetOptions(
+                          "department",
+                          filterSelection.department
+                        )}
+                        onValueChange={(value) =>
+                          handleFilterChange("department", value)
+                        }
+                      />
+
+                      <FacetSelect
+                        label="Category"
+                        allLabel="All Categories"
+                        value={filterSelection.category}
+                        options={facetOptions(
+                          "category",
+                          filterSelection.category
+                        )}
+                        onValueChange={(value) =>
+                          handleFilterChange("category", value)
+                        }
+                      />
+
+                      <FacetSelect
+                        label="File Type"
+                        allLabel="All File Types"
+                        value={filterSelection.fileType}
+                        options={facetOptions(
+                          "fileType",
+                          filterSelection.fileType,
+                          (value) => value.toUpperCase()
+                        )}
+                        onValueChange={(value) =>
+                          handleFilterChange("fileType", value)
+                        }
+                      />
+
+                      <FacetSelect
+                        label="Qualification"
+                        allLabel="Any Qualification"
+                        value={filterSelection.qualification}
+                        options={qualificationOptions}
+                        onValueChange={(value) =>
+                          handleFilterChange("qualification", value)
+                        }
+                      />
+
+                      <FacetSelect
+                        label="Applications"
+                        allLabel="Any Status"
+                        value={filterSelection.applications}
+                        options={[{ value: "open", label: "Open now" }]}
+                        onValueChange={(value) =>
+                          handleFilterChange("applications", value)
+                        }
+                      />
 
                       <div className="space-y-2">
-                        <Label className="text-sm font-medium">
-                          Sort by Date
-                        </Label>
+                        <Label className="text-sm font-medium">Sort by</Label>
                         <Select
                           value={sortOrder}
-                          onValueChange={(value) => setSortOrder(value)}
+                          onValueChange={handleSortChange}
                         >
                           <SelectTrigger className="focus:ring-blue-500">
                             <SelectValue />
@@ -319,6 +677,12 @@ export default function SearchPage() {
                           <SelectContent>
                             <SelectItem value="newest">Newest First</SelectItem>
                             <SelectItem value="oldest">Oldest First</SelectItem>
+                            <SelectItem value="closing">
+                              Closing Soonest
+                            </SelectItem>
+                            <SelectItem value="cost">
+                              Highest Estimated Cost
+                            </SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -331,11 +695,63 @@ export default function SearchPage() {
                 {" "}
                 <div className="mb-4 flex items-center justify-between">
                   <h3 className="text-lg font-medium">
-                    {filteredResults.length} results for &quot;
-                    {currentSearchQuery}
-                    &quot;
+                    {similarTo !== null ? (
+                      <>
+                        {totalResults} documents similar to &quot;{similarTo}
+                        &quot;
+                      </>
+                    ) : (
+                      <>
+                        {isSearching
+                          ? `${filteredResults.length} results so far`
+                          : `${totalResults}${
+                              totalIsEstimate ? "+" : ""
+                            } results`}{" "}
+                        for &quot;
+                        {currentSearchQuery}
+                        &quot;
+                      </>
+                    )}
                   </h3>
+                  {totalPages > 1 && (
+                    <span className="text-sm text-gray-500">
+                      Showing {filteredResults.length} on this page
+                    </span>
+                  )}
                 </div>{" "}
+                {!isSearching && similarTo === null && currentFilters && (
+                  <SaveSearch
+                    query={currentSearchQuery}
+                    filters={currentFilters}
+                  />
+                )}
+                {!isSearching && queryLanguage?.translatedQuery && (
+                  <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+                    Detected {LANGUAGE_LABELS[queryLanguage.detected]}; searched
+                    in English as &quot;{queryLanguage.translatedQuery}&quot;
+                  </p>
+                )}
+                {!isSearching && didYouMean.length > 0 && (
+                  <p className="mb-4 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+                    Did you mean:
+                    {didYouMean.map((suggestion) => (
+                      <button
+                        key={suggestion.query}
+                        type="button"
+                        className="font-medium text-blue-700 hover:underline dark:text-blue-400"
+                        onClick={() => {
+                          setSearchQuery(suggestion.query);
+                          handleSearch(suggestion.query);
+                        }}
+                      >
+                        {suggestion.query}{" "}
+                        <span className="font-normal text-gray-500">
+                          ({suggestion.total})
+                        </span>
+                      </button>
+                    ))}
+                  </p>
+                )}
                 <div className="space-y-4">
                   {filteredResults.map(
                     (result: SearchResult, index: number) => {
@@ -349,7 +765,7 @@ export default function SearchPage() {
 
                       return (
                         <Card
-                          key={result._id?.$oid || index}
+                          key={result._id || index}
                           className="border-blue-100 dark:border-blue-900/50 dark:bg-gray-900 transition-all hover:shadow-md hover:border-blue-200 dark:hover:border-blue-800 group overflow-hidden"
                         >
                           <CardHeader className="pb-2">
@@ -359,9 +775,30 @@ export default function SearchPage() {
                                   <Badge className="bg-blue-100   text-black text-xs flex-shrink-0">
                                     {getDocumentType(result)}
                                   </Badge>
+                                  {result.tender?.bidCloseDate && (
+                                    <ClosingBadge
+                                      closesAt={result.tender.bidCloseDate}
+                                    />
+                                  )}
+                                  {result.employment?.applicationDeadline && (
+                                    <ClosingBadge
+                                      closesAt={
+                                        result.employment.applicationDeadline
+                                      }
+                                      description="Applications"
+                                    />
+                                  )}
                                 </div>{" "}
                                 <CardTitle className="text-lg font-medium text-blue-700 hover:text-blue-800 transition-colors group-hover:underline break-words leading-relaxed whitespace-normal mb-3 overflow-x-auto max-w-full">
-                                  {getDocumentTitle(result)}
+                                  {result._id && result.collection ? (
+                                    <Link
+                                      href={`/documents/${result.collection}/${result._id}`}
+                                    >
+                                      {getDocumentTitle(result)}
+                                    </Link>
+                                  ) : (
+                                    getDocumentTitle(result)
+                                  )}
                                 </CardTitle>
                                 <div className="mt-2 space-y-2 text-sm text-gray-500">
                                   {result.summary && (
@@ -369,6 +806,12 @@ export default function SearchPage() {
                                       {result.summary}
                                     </p>
                                   )}
+                                  {result.employment && (
+                                    <EmploymentSummary
+                                      employment={result.employment}
+                                    />
+                                  )}
+                                  <ResultSnippets snippets={result.snippets} />
                                   {result.categories &&
                                     result.categories.length > 0 && (
                                       <div className="flex flex-wrap gap-1 mt-2">
@@ -397,28 +840,17 @@ export default function SearchPage() {
                                   </p>
                                 </div>
                               </div>
-                              <div className="flex-shrink-0">
-                                {result.supabase?.url ? (
+                              <div className="flex flex-shrink-0 flex-col items-end gap-2">
+                                {hasDownload(result) ? (
                                   <Button
                                     className="h-10 px-4 bg-blue-600 text-white hover:bg-blue-700 whitespace-nowrap"
-                                    onClick={async () => {
-                                      // Debug log to see what's available
-                                      console.log("Document download data:", {
-                                        supabaseUrl: result.supabase?.url,
-                                        name: result.name,
-                                      });
-
-                                      // Use supabase.url directly
-                                      if (result.supabase?.url) {
-                                        window.open(
-                                          result.supabase.url,
-                                          "_blank"
-                                        );
-                                      } else {
-                                        alert(
-                                          "Sorry, file download is not available for this document."
-                                        );
-                                      }
+                                    onClick={() => {
+                                      // The route redirects to a short-lived
+                                      // Supabase or S3 signed URL
+                                      window.open(
+                                        `/api/documents/${result.collection}/${result._id}/download`,
+                                        "_blank"
+                                      );
                                     }}
                                   >
                                     Download
@@ -430,6 +862,16 @@ export default function SearchPage() {
                                     </span>
                                   </div>
                                 )}
+                                {result._id && result.collection && (
+                                  <Button
+                                    variant="outline"
+                                    className="h-9 whitespace-nowrap"
+                                    disabled={isSearching}
+                                    onClick={() => handleSimilar(result)}
+                                  >
+                                    Similar documents
+                                  </Button>
+                                )}
                               </div>
                             </div>
                           </CardHeader>
@@ -438,6 +880,29 @@ export default function SearchPage() {
                     }
                   )}
                 </div>
+                {totalPages > 1 && (
+                  <div className="mt-6 flex items-center justify-between">
+                    <Button
+                      variant="outline"
+                      onClick={() => handlePageChange(currentPage - 1)}
+                      disabled={isSearching || currentPage <= 1}
+                    >
+                      <ChevronLeft className="mr-1 h-4 w-4" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-gray-600 dark:text-gray-300">
+                      Page {currentPage} of {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      onClick={() => handlePageChange(currentPage + 1)}
+                      disabled={isSearching || currentPage >= totalPages}
+                    >
+                      Next
+                      <ChevronRight className="ml-1 h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           )}{" "}
@@ -446,16 +911,11 @@ export default function SearchPage() {
             initialQuery={
               showResults && searchResults.length === 0 ? chatbotQuery : ""
             }
-            key={
-              showResults && searchResults.length === 0
-                ? chatbotQuery
-                : "always-visible"
-            }
+            key={chatbotQuery || "always-visible"}
             initialResults={
               showResults && searchResults.length === 0 ? searchResults : []
             }
-            onResults={handleChatbotResults} // legacy: handle direct results
-            onQuery={handleChatbotQuery} // delegate refined queries to parent
+            onResults={handleChatbotResults}
           />
         </div>
       </main>
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2, Trash2 } from "lucide-react";
+import { QUALIFICATION_LABELS } from "@/components/employment-details";
+import { MainNav } from "@/components/main-nav";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// Saved search as returned by /api/saved-searches
+interface SavedSearch {
+  _id: string;
+  name: string;
+  query: string;
+  filters: Record<string, unknown>;
+  email: string;
+  emailConfirmed: boolean;
+  lastRunAt: string;
+  lastAlertAt: string | null;
+  createdAt: string;
+}
+
+const COLLECTION_LABELS: Record<string, string> = {
+  EmploymentNotice: "Employment",
+  NotificationCircular: "Circular",
+  Tender: "Tender",
+};
+
+// The day a stored date bound falls on in India, as YYYY-MM-DD
+function formatDay(value: string): string {
+  return new Date(value).toLocaleDateString("en-CA", {
+    timeZone: "Asia/Kolkata",
+  });
+}
+
+// Short labels for the filters a search was saved with
+function describeFilters(filters: Record<string, unknown>): string[] {
+  const labels: string[] = [];
+  if (Array.isArray(filters.collections)) {
+    labels.push(
+      ...filters.collections.map(
+        (collection) => COLLECTION_LABELS[collection] ?? String(collection)
+      )
+    );
+  }
+  if (typeof filters.createdFrom === "string") {
+    labels.push(`From ${formatDay(filters.createdFrom)}`);
+  }
+  if (typeof filters.createdTo === "string") {
+    labels.push(`Until ${formatDay(filters.createdTo)}`);
+  }
+  if (typeof filters.department === "string") {
+    labels.push(filters.department);
+  }
+  if (Array.isArray(filters.categories)) {
+    labels.push(...filters.categories.map(String));
+  }
+  if (typeof filters.fileType === "string") {
+    labels.push(filters.fileType.toUpperCase());
+  }
+  if (typeof filters.qualification === "string") {
+    labels.push(
+      QUALIFICATION_LABELS[filters.qualification] ?? filters.qualification
+    );
+  }
+  if (filters.openNow === true) {
+    labels.push("Open now");
+  }
+  return labels;
+}
+
+export default function SavedSearchesPage() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [error, setError] = useState("");
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  // Outcome of an emailed confirmation link, which redirects here
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+
+  useEffect(() => {
+    setConfirmation(
+      new URLSearchParams(window.location.search).get("confirmed")
+    );
+  }, []);
+
+  useEffect(() => {
+    const loadSavedSearches = async () => {
+      try {
+        const res = await fetch("/api/saved-searches");
+        const data = await res.json();
+        if (!res.ok) {
+          setNeedsSignIn(res.status === 401);
+          setError(data.error || "Failed to load saved searches");
+          return;
+        }
+        setSavedSearches(data.savedSearches);
+      } catch (e) {
+        console.error("Error loading saved searches:", e);
+        setError("Failed to load saved searches");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadSavedSearches();
+  }, []);
+
+  const handleDelete = async (search: SavedSearch) => {
+    setError("");
+    try {
+      const res = await fetch(`/api/saved-searches/${search._id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to delete saved search");
+        return;
+      }
+      setSavedSearches((current) =>
+        current.filter((item) => item._id !== search._id)
+      );
+    } catch (e) {
+      console.error("Error deleting saved search:", e);
+      setError("Failed to delete saved search");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white dark:from-gray-950 dark:to-gray-900">
+      <MainNav />
+      <main className="container mx-auto max-w-4xl px-4 py-8">
+        <Card className="border-blue-100 dark:border-blue-900/50 dark:bg-gray-900">
+          <CardHeader>
+            <CardTitle className="text-2xl">Saved searches</CardTitle>
+            <CardDescription>
+              We check each saved search daily and email you when new documents
+              match it. Save a search from its results page.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {confirmation === "1" && (
+              <p className="text-sm text-green-700 dark:text-green-400">
+                Email confirmed. Alerts for it start with the next daily check.
+              </p>
+            )}
+            {confirmation === "0" && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                That confirmation link is invalid or has expired. Save the
+                search again to get a new one.
+              </p>
+            )}
+
+            {isLoading && (
+              <div className="flex items-center justify-center py-12 text-gray-500">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading saved searches
+              </div>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {error}{" "}
+                {needsSignIn && (
+                  <Link href="/login" className="underline">
+                    Sign in
+                  </Link>
+                )}
+              </p>
+            )}
+
+            {!isLoading && !error && savedSearches.length === 0 && (
+              <p className="py-8 text-center italic text-gray-400">
+                You have no saved searches yet.
+              </p>
+            )}
+
+            {savedSearches.map((search) => (
+              <div
+                key={search._id}
+                className="flex items-start justify-between gap-4 border-b pb-4 last:border-b-0 dark:border-gray-800"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium break-words">{search.name}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 break-words">
+                    &quot;{search.query}&quot;
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {describeFilters(search.filters).map((label) => (
+                      <Badge key={label} variant="outline" className="text-xs">
+                        {label}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {search.emailConfirmed
+                      ? `Alerts to ${search.email} · last checked ${new Date(
+                          search.lastRunAt
+                        ).toLocaleString()}`
+                      : `Waiting for ${search.email} to be confirmed: follow the link we emailed`}
+                    {search.lastAlertAt &&
+                      ` · last alert ${new Date(
+                        search.lastAlertAt
+                      ).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete saved search"
+                  onClick={() => handleDelete(search)}
+                  className="text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
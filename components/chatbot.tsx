@@ -5,11 +5,18 @@ import { motion, AnimatePresence } from "framer-motion";
 import { MessageCircle, Send, X, Loader2 } from "lucide-react";
 import Image from "next/image";
 
+// Search the assistant ran for a reply, sent back so follow-ups can narrow it
+type AssistantSearch = {
+  query: string;
+  filters?: Record<string, unknown>;
+};
+
 type Message = {
   id: string;
   text: string;
   sender: "user" | "bot";
   timestamp: Date;
+  search?: AssistantSearch;
 };
 
 type Document = {
@@ -25,8 +32,7 @@ type ChatbotProps = {
   position?: "bottom-right" | "bottom-left";
   initialQuery?: string;
   initialResults?: Document[]; // Accept initial results
-  onResults?: (results: Document[]) => void; // legacy callback for result arrays
-  onQuery?: (query: string) => void; // NEW: callback to send refined query to parent
+  onResults?: (results: Document[], query: string) => void; // results of the assistant's searches
 };
 
 export default function Chatbot({
@@ -44,8 +50,7 @@ export default function Chatbot({
   position = "bottom-right",
   initialQuery,
   initialResults = [],
-  onResults, // legacy callback prop
-  onQuery, // NEW: query callback prop
+  onResults,
 }: ChatbotProps) {
   const [isOpen, setIsOpen] = useState(!!initialQuery); // open if initialQuery exists
   const [messages, setMessages] = useState<Message[]>(
@@ -62,7 +67,6 @@ export default function Chatbot({
   );
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [isRefining, setIsRefining] = useState(false); // NEW: Track if refining query
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -99,7 +103,6 @@ export default function Chatbot({
             timestamp: new Date(),
           },
         ]);
-        setIsRefining(true); // Enable refinement mode
       }
     }
   }, [initialQuery, initialResults]);
@@ -107,15 +110,6 @@ export default function Chatbot({
   const toggleChat = () => {
     setIsOpen(!isOpen);
   };
-  const handleRefinement = (userInput: string) => {
-    // Delegate refinement to parent without calling internal API
-    if (onQuery) {
-      onQuery(userInput);
-    }
-    // Close refinement state
-    setIsRefining(false);
-  };
-
   const handleSendMessage = async () => {
     if (inputValue.trim() === "") return;
 
@@ -127,50 +121,52 @@ export default function Chatbot({
       timestamp: new Date(),
     };
 
-    setMessages([...messages, userMessage]);
-    const userInput = inputValue; // Save input value before clearing
+    const conversation = [...messages, userMessage];
+    setMessages(conversation);
     setInputValue("");
 
-    if (isRefining) {
-      handleRefinement(userInput);
-      setIsRefining(false);
-    }
-    // Always query advice API for suggestions or results
+    // The assistant gets the whole conversation, including the searches
+    // behind earlier replies, and searches documents itself
     setIsLoading(true);
     try {
       const res = await fetch("/api/advice", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: userInput }),
+        body: JSON.stringify({
+          messages: conversation.map((message) => ({
+            role: message.sender === "user" ? "user" : "assistant",
+            content: message.text,
+            search: message.search,
+          })),
+        }),
       });
       const data = await res.json();
       let botText = "";
-      if (data.results) {
-        const titles = data.results
-          .map((d: Document) => d.title || d.name || "Untitled")
-          .join("\n");
-        botText = `Found ${data.results.length} documents:\n${titles}`;
-        if (onResults) onResults(data.results);
-      } else if (data.suggestions) {
-        botText =
-          data.message +
-          "\n\n" +
-          data.suggestions.map((s: string) => `* ${s}`).join("\n");
-      } else if (data.error) {
+      if (data.error) {
         botText = `Error: ${data.error}`;
+      } else {
+        botText = data.reply;
+        if (data.results?.length > 0) {
+          const titles = data.results
+            .map((d: Document) => `* ${d.title || d.name || "Untitled"}`)
+            .join("\n");
+          botText += `\n\n${titles}`;
+          if (onResults) onResults(data.results, data.search.query);
+        }
       }
       const botMessage: Message = {
         id: Date.now().toString(),
         text: botText,
         sender: "bot",
         timestamp: new Date(),
+        search: data.search,
       };
       setMessages((prev) => [...prev, botMessage]);
       setIsLoading(false);
     } catch {
       const errMsg: Message = {
         id: Date.now().toString(),
-        text: "Failed to fetch suggestions. Please try again later.",
+        text: "Failed to reach the assistant. Please try again later.",
         sender: "bot",
         timestamp: new Date(),
       };
@@ -0,0 +1,55 @@
+import { Clock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole calendar days from today to `date`, in the reader's time zone
+function daysUntil(date: Date, now: Date): number {
+  const startOfDay = (value: Date) =>
+    new Date(value.getFullYear(), value.getMonth(), value.getDate()).getTime();
+  return Math.round((startOfDay(date) - startOfDay(now)) / DAY_MS);
+}
+
+interface ClosingBadgeProps {
+  closesAt: string;
+  // What closes, for the tooltip
+  description?: string;
+}
+
+// "Closes in N days" badge for a deadline; urgent ones stand out
+export function ClosingBadge({
+  closesAt,
+  description = "Bid submission",
+}: ClosingBadgeProps) {
+  const deadline = new Date(closesAt);
+  if (isNaN(deadline.getTime())) return null;
+
+  const now = new Date();
+  const days = daysUntil(deadline, now);
+  const label =
+    deadline < now
+      ? "Closed"
+      : days === 0
+      ? "Closes today"
+      : days === 1
+      ? "Closes tomorrow"
+      : `Closes in ${days} days`;
+  const tone =
+    deadline < now
+      ? "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300"
+      : days <= 3
+      ? "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200"
+      : days <= 7
+      ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200"
+      : "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200";
+
+  return (
+    <Badge
+      className={`text-xs flex-shrink-0 ${tone}`}
+      title={`${description} closes ${deadline.toLocaleString()}`}
+    >
+      <Clock />
+      {label}
+    </Badge>
+  );
+}
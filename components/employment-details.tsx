@@ -0,0 +1,94 @@
+// Extracted employment notice fields as served by the API
+export interface EmploymentDetails {
+  posts?: { name: string; vacancies?: number }[];
+  vacancies?: number;
+  qualification?: string;
+  qualificationLevel?: string;
+  minAge?: number;
+  maxAge?: number;
+  payLevel?: string;
+  applicationDeadline?: string;
+}
+
+export const QUALIFICATION_LABELS: Record<string, string> = {
+  "class-8": "Class VIII",
+  "class-10": "Class X",
+  "class-12": "Class XII",
+  diploma: "Diploma",
+  graduate: "Graduate",
+  postgraduate: "Postgraduate",
+  doctorate: "Doctorate",
+};
+
+// Up to three posts by name, with their vacancies
+export function formatPosts(employment: EmploymentDetails): string | undefined {
+  const posts = employment.posts ?? [];
+  if (posts.length === 0) return undefined;
+  const names = posts
+    .slice(0, 3)
+    .map((post) =>
+      post.vacancies ? `${post.name} (${post.vacancies})` : post.name
+    )
+    .join(", ");
+  return posts.length > 3 ? `${names} and ${posts.length - 3} more` : names;
+}
+
+// "18–40 years", "Up to 35 years", "At least 21 years"
+export function formatAgeLimits({
+  minAge,
+  maxAge,
+}: EmploymentDetails): string | undefined {
+  if (minAge !== undefined && maxAge !== undefined) {
+    return `${minAge}–${maxAge} years`;
+  }
+  if (maxAge !== undefined) return `Up to ${maxAge} years`;
+  if (minAge !== undefined) return `At least ${minAge} years`;
+  return undefined;
+}
+
+// Posts, vacancies and eligibility shown on a search result card
+export function EmploymentSummary({
+  employment,
+}: {
+  employment: EmploymentDetails;
+}) {
+  const rows: [string, string | undefined][] = [
+    ["Posts", formatPosts(employment)],
+    [
+      "Vacancies",
+      employment.vacancies !== undefined
+        ? String(employment.vacancies)
+        : undefined,
+    ],
+    [
+      "Qualification",
+      employment.qualification ??
+        (employment.qualificationLevel &&
+          QUALIFICATION_LABELS[employment.qualificationLevel]),
+    ],
+    ["Age", formatAgeLimits(employment)],
+    ["Pay", employment.payLevel],
+    [
+      "Apply by",
+      employment.applicationDeadline &&
+        new Date(employment.applicationDeadline).toLocaleDateString(),
+    ],
+  ];
+  const shown = rows.filter(
+    (row): row is [string, string] => row[1] !== undefined && row[1] !== ""
+  );
+  if (shown.length === 0) return null;
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 rounded-md bg-blue-50/60 p-3 dark:bg-blue-900/10">
+      {shown.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-gray-500">{label}</dt>
+          <dd className="break-words text-gray-800 dark:text-gray-200">
+            {value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  // Matching documents; omitted when counts aren't known
+  count?: number;
+}
+
+interface FacetSelectProps {
+  label: string;
+  allLabel: string;
+  value: string;
+  options: FacetOption[];
+  onValueChange: (value: string) => void;
+}
+
+// Filter dropdown that shows facet counts and hides options with no matches
+export function FacetSelect({
+  label,
+  allLabel,
+  value,
+  options,
+  onValueChange,
+}: FacetSelectProps) {
+  // Keep the current selection visible even when it no longer matches
+  const visible = options.filter(
+    (option) => option.count !== 0 || option.value === value
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">{label}</Label>
+      <Select value={value} onValueChange={onValueChange}>
+        <SelectTrigger className="focus:ring-blue-500">
+          <SelectValue placeholder={allLabel} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">{allLabel}</SelectItem>
+          {visible.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+              {option.count !== undefined && (
+                <span className="ml-1 text-gray-500">({option.count})</span>
+              )}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react"
 import Link from "next/link"
  import { Button } from "@/components/ui/button"
-import { FileSearch,  Menu, X,  Settings, HelpCircle, LogOut, User } from "lucide-react"
+import { FileSearch,  Menu, X, Bell, FolderCog, LogIn, LogOut, User } from "lucide-react"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,12 +13,19 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
  import { useMobile } from "@/hooks/use-mobile"
+import { useSession } from "@/hooks/use-session"
 import { ThemeToggle } from "@/components/theme-toggle"
 
+const ROLE_LABELS = {
+  admin: "Administrator",
+  citizen: "Citizen",
+}
+
 export function MainNav() {
    const isMobile = useMobile()
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [scrolled, setScrolled] = useState(false)
+  const { user, isLoading, signOut } = useSession()
 
   // Add scroll detection for sticky header effect
   useEffect(() => {
@@ -56,34 +63,56 @@ export function MainNav() {
 
               <ThemeToggle />
 
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="ml-2 rounded-full h-9 w-9 hover:bg-blue-50 dark:hover:bg-gray-800"
-                  >
-                    <User className="h-5 w-5" />
+              {user ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="ml-2 rounded-full h-9 w-9 hover:bg-blue-50 dark:hover:bg-gray-800"
+                    >
+                      <User className="h-5 w-5" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-56">
+                    <DropdownMenuLabel>
+                      <div>{user.displayName}</div>
+                      <div className="text-xs font-normal text-gray-500 dark:text-gray-400">{ROLE_LABELS[user.role]}</div>
+                    </DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem asChild className="cursor-pointer hover:bg-blue-50 dark:hover:bg-gray-700">
+                      <Link href="/saved-searches">
+                        <Bell className="mr-2 h-4 w-4" />
+                        <span>Saved searches</span>
+                      </Link>
+                    </DropdownMenuItem>
+                    {user.role === "admin" && (
+                      <DropdownMenuItem asChild className="cursor-pointer hover:bg-blue-50 dark:hover:bg-gray-700">
+                        <Link href="/admin">
+                          <FolderCog className="mr-2 h-4 w-4" />
+                          <span>Manage documents</span>
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem
+                      onClick={signOut}
+                      className="cursor-pointer hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
+                    >
+                      <LogOut className="mr-2 h-4 w-4" />
+                      <span>Logout</span>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                !isLoading && (
+                  <Button asChild variant="ghost" className="ml-2 hover:bg-blue-50 dark:hover:bg-gray-800">
+                    <Link href="/login">
+                      <LogIn className="mr-2 h-4 w-4" />
+                      Sign in
+                    </Link>
                   </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-56">
-                  <DropdownMenuLabel>Admin User</DropdownMenuLabel>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem className="cursor-pointer hover:bg-blue-50 dark:hover:bg-gray-700">
-                    <Settings className="mr-2 h-4 w-4" />
-                    <span>Settings</span>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem className="cursor-pointer hover:bg-blue-50 dark:hover:bg-gray-700">
-                    <HelpCircle className="mr-2 h-4 w-4" />
-                    <span>Help</span>
-                  </DropdownMenuItem>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem className="cursor-pointer hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400">
-                    <LogOut className="mr-2 h-4 w-4" />
-                    <span>Logout</span>
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+                )
+              )}
             </div>
           )}
 
@@ -109,21 +138,46 @@ export function MainNav() {
                 <span className="text-sm mr-2">Theme:</span>
                 <ThemeToggle />
               </div>
-              <Button variant="ghost" className="w-full justify-start hover:bg-blue-50 dark:hover:bg-gray-800">
-                <Settings className="mr-2 h-4 w-4" />
-                Settings
-              </Button>
-              <Button variant="ghost" className="w-full justify-start hover:bg-blue-50 dark:hover:bg-gray-800">
-                <HelpCircle className="mr-2 h-4 w-4" />
-                Help
-              </Button>
-              <Button
-                variant="ghost"
-                className="w-full justify-start hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
-              >
-                <LogOut className="mr-2 h-4 w-4" />
-                Logout
-              </Button>
+              {user ? (
+                <>
+                  <div className="flex items-center px-2 py-1.5 text-sm">
+                    <User className="mr-2 h-4 w-4" />
+                    {user.displayName}
+                    <span className="ml-1 text-gray-500 dark:text-gray-400">({ROLE_LABELS[user.role]})</span>
+                  </div>
+                  <Button asChild variant="ghost" className="w-full justify-start hover:bg-blue-50 dark:hover:bg-gray-800">
+                    <Link href="/saved-searches">
+                      <Bell className="mr-2 h-4 w-4" />
+                      Saved searches
+                    </Link>
+                  </Button>
+                  {user.role === "admin" && (
+                    <Button asChild variant="ghost" className="w-full justify-start hover:bg-blue-50 dark:hover:bg-gray-800">
+                      <Link href="/admin">
+                        <FolderCog className="mr-2 h-4 w-4" />
+                        Manage documents
+                      </Link>
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    onClick={signOut}
+                    className="w-full justify-start hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400"
+                  >
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Logout
+                  </Button>
+                </>
+              ) : (
+                !isLoading && (
+                  <Button asChild variant="ghost" className="w-full justify-start hover:bg-blue-50 dark:hover:bg-gray-800">
+                    <Link href="/login">
+                      <LogIn className="mr-2 h-4 w-4" />
+                      Sign in
+                    </Link>
+                  </Button>
+                )
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,45 @@
+import { Fragment, ReactNode } from "react";
+
+export interface Snippet {
+  text: string;
+  highlights: { start: number; end: number }[];
+}
+
+// Split a snippet into plain and highlighted runs using its offsets
+function renderHighlighted({ text, highlights }: Snippet) {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(({ start, end }, index) => {
+    if (start > cursor) {
+      parts.push(
+        <Fragment key={`t${index}`}>{text.slice(cursor, start)}</Fragment>
+      );
+    }
+    parts.push(
+      <mark
+        key={`m${index}`}
+        className="rounded-sm bg-yellow-100 px-0.5 font-medium text-gray-900 dark:bg-yellow-500/30 dark:text-gray-100"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(<Fragment key="rest">{text.slice(cursor)}</Fragment>);
+  return parts;
+}
+
+// Content excerpts showing where a search result matched the query
+export function ResultSnippets({ snippets }: { snippets?: Snippet[] }) {
+  if (!snippets || snippets.length === 0) return null;
+
+  return (
+    <div className="space-y-1 border-l-2 border-blue-100 pl-3 dark:border-blue-900/50">
+      {snippets.map((snippet, index) => (
+        <p key={index} className="break-words leading-relaxed">
+          {renderHighlighted(snippet)}
+        </p>
+      ))}
+    </div>
+  );
+}
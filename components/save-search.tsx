@@ -0,0 +1,139 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import Link from "next/link";
+import { BellPlus, Check, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useSession } from "@/hooks/use-session";
+
+interface SaveSearchProps {
+  query: string;
+  // Request filters of the search being shown
+  filters: Record<string, unknown>;
+}
+
+// "Save search" control: saves the current search for new-document alerts
+export function SaveSearch({ query, filters }: SaveSearchProps) {
+  const { user, isLoading } = useSession();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState(query);
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const [needsConfirmation, setNeedsConfirmation] = useState(false);
+
+  // A new search starts over
+  useEffect(() => {
+    setIsOpen(false);
+    setIsSaved(false);
+    setError("");
+    setName(query);
+  }, [query, filters]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError("");
+    try {
+      const res = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, query, filters, email }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save search");
+        return;
+      }
+      setNeedsConfirmation(!data.savedSearch.emailConfirmed);
+      setIsSaved(true);
+      setIsOpen(false);
+    } catch (e) {
+      console.error("Error saving search:", e);
+      setError("Failed to save search");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <p className="mb-4 text-sm text-gray-500">
+        <Link
+          href="/login"
+          className="text-blue-700 hover:underline dark:text-blue-400"
+        >
+          Sign in
+        </Link>{" "}
+        to get an email when new documents match this search.
+      </p>
+    );
+  }
+
+  if (isSaved) {
+    return (
+      <p className="mb-4 flex items-center text-sm text-green-700 dark:text-green-400">
+        <Check className="mr-1 h-4 w-4" />
+        {needsConfirmation
+          ? `Search saved. Follow the link we emailed to ${email} to start alerts.`
+          : `Search saved. We'll email ${email} when new documents match.`}{" "}
+        <Link href="/saved-searches" className="ml-1 underline">
+          Manage saved searches
+        </Link>
+      </p>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="mb-4"
+        onClick={() => setIsOpen(true)}
+      >
+        <BellPlus className="mr-2 h-4 w-4" />
+        Save search and get alerts
+      </Button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mb-4 grid gap-2 rounded-md border border-blue-100 p-3 dark:border-blue-900/50 sm:grid-cols-[1fr_1fr_auto]"
+    >
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        aria-label="Name"
+      />
+      <Input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email for alerts"
+        aria-label="Email for alerts"
+        required
+      />
+      <Button
+        type="submit"
+        disabled={isSaving}
+        className="bg-blue-600 text-white hover:bg-blue-700"
+      >
+        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 sm:col-span-3">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,20 @@
+// Extracted tender fields as served by the API (dates as ISO strings)
+export interface TenderDetails {
+  tenderNumber?: string;
+  estimatedCost?: number;
+  emd?: number;
+  bidStartDate?: string;
+  bidCloseDate?: string;
+  issuingOffice?: string;
+}
+
+// "₹4,50,000", grouped the Indian way
+export function formatRupees(amount?: number): string | undefined {
+  return amount === undefined
+    ? undefined
+    : amount.toLocaleString("en-IN", {
+        style: "currency",
+        currency: "INR",
+        maximumFractionDigits: 0,
+      });
+}
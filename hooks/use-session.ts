@@ -0,0 +1,40 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+// Signed-in user as returned by /api/auth/session
+export interface SessionUser {
+  id: string
+  username: string
+  displayName: string
+  role: "citizen" | "admin"
+}
+
+export const useSession = () => {
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/auth/session", { cache: "no-store" })
+      const data = await res.json()
+      setUser(res.ok ? data.user : null)
+    } catch (error) {
+      console.error("Failed to load session:", error)
+      setUser(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" })
+    setUser(null)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { user, isLoading, refresh, signOut }
+}
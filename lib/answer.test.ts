@@ -0,0 +1,52 @@
+import { Db } from "mongodb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { answerQuestion } from "./answer";
+
+const search = vi.hoisted(() => ({ searchDocuments: vi.fn() }));
+const provider = { generateText: vi.fn(), generateEmbedding: vi.fn() };
+
+vi.mock("@/lib/search", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/search")>()),
+  searchDocuments: search.searchDocuments,
+}));
+vi.mock("@/lib/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  getLLMProvider: () => provider,
+}));
+
+const db = {} as unknown as Db;
+
+describe("answerQuestion", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    search.searchDocuments.mockResolvedValue({
+      results: [
+        { _id: "a1", collection: "NotificationCircular", title: "RTI fees" },
+      ],
+      total: 1,
+      page: 1,
+      pageSize: 5,
+    });
+    provider.generateText.mockResolvedValue("The fee is Rs. 10 [1].");
+  });
+
+  it("searches the question as plain words, not query syntax", async () => {
+    const answer = await answerQuestion(db, {
+      query: 'what is the "RTI fee? type: after: 2023',
+      mode: "waterfall",
+      filters: {},
+    });
+
+    expect(search.searchDocuments).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({
+        query: 'what is the "RTI fee? type: after: 2023',
+        plain: true,
+      })
+    );
+    expect(answer).toMatchObject({
+      supported: true,
+      citations: [{ ref: 1, _id: "a1" }],
+    });
+  });
+});
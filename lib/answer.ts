@@ -0,0 +1,159 @@
+import { Db } from "mongodb";
+import { getLLMProvider } from "@/lib/llm";
+import {
+  LanguageInfo,
+  ParsedSearchRequest,
+  searchDocuments,
+  SearchResult,
+  SearchType,
+} from "@/lib/search";
+
+/**
+ * ANSWER CONSTANTS
+ * How much retrieved material the generator sees
+ */
+const ANSWER_LIMITS = {
+  // Top search results passed to the generator as sources
+  SOURCES: 5,
+  // Characters of each source's content included in the prompt
+  SOURCE_CHARS: 4000,
+} as const;
+
+// Reply the generator is told to give when the sources don't answer the question
+const UNSUPPORTED_MARKER = "INSUFFICIENT_EVIDENCE";
+
+const UNSUPPORTED_ANSWER =
+  "The retrieved documents don't contain enough information to answer this question.";
+
+// A source the answer cites; `ref` is the [n] marker used inline
+export interface Citation {
+  ref: number;
+  _id: string;
+  collection?: string;
+  title?: string;
+}
+
+export interface GroundedAnswer {
+  answer: string;
+  // False when no documents were found or they don't support an answer
+  supported: boolean;
+  citations: Citation[];
+  // Every document the generator was shown, numbered like the citations
+  sources: Citation[];
+  searchType?: SearchType;
+  language?: LanguageInfo;
+}
+
+function toCitation(result: SearchResult, index: number): Citation {
+  return {
+    ref: index + 1,
+    _id: String(result._id),
+    collection: result.collection,
+    title: result.title || result.name,
+  };
+}
+
+// One numbered block of source material for the prompt
+function formatSource(result: SearchResult, ref: number): string {
+  const lines = [
+    `[${ref}] ${result.title || result.name || "Untitled"}`,
+    result.department && `Department: ${result.department}`,
+    result.createdAt && `Published: ${String(result.createdAt).slice(0, 10)}`,
+    result.summary && `Summary: ${result.summary}`,
+    result.content &&
+      `Content: ${result.content.slice(0, ANSWER_LIMITS.SOURCE_CHARS)}`,
+  ];
+  return lines.filter(Boolean).join("\n");
+}
+
+function buildAnswerPrompt(question: string, sources: SearchResult[]): string {
+  return `You answer questions for the Sikkim government document portal using only the numbered sources below.
+
+Question: "${question}"
+
+Sources:
+${sources.map((source, index) => formatSource(source, index + 1)).join("\n\n")}
+
+Rules:
+- Use only facts stated in the sources; do not rely on outside knowledge.
+- Cite every fact inline with its source number in square brackets, e.g. [1] or [1][3].
+- Quote dates, amounts and deadlines exactly as the sources give them.
+- If the sources do not answer the question, reply with exactly ${UNSUPPORTED_MARKER} and nothing else.
+- Answer in a few sentences of plain text, in the language of the question.`;
+}
+
+/**
+ * GROUNDED ANSWERING
+ * Responsible for: Answering a question from the documents search retrieves
+ * - Runs the usual search tiers on the question's words, ignoring query
+ *   syntax, and passes the top results' summary and content to the
+ *   generator as numbered sources
+ * - The answer cites sources inline as [n]; `citations` maps each marker
+ *   used to the document's _id and collection
+ * - Answers citing no real source are treated as unsupported, so an
+ *   uncited guess is never returned
+ */
+export async function answerQuestion(
+  db: Db,
+  request: Pick<ParsedSearchRequest, "query" | "mode" | "filters">
+): Promise<GroundedAnswer> {
+  const outcome = await searchDocuments(db, {
+    query: request.query,
+    mode: request.mode,
+    filters: request.filters,
+    pageSize: ANSWER_LIMITS.SOURCES,
+    facets: false,
+    spelling: false,
+    // Questions are prose: quotes, dashes and "type:" aren't query syntax
+    plain: true,
+  });
+  const unsupported = (sources: Citation[]): GroundedAnswer => ({
+    answer: UNSUPPORTED_ANSWER,
+    supported: false,
+    citations: [],
+    sources,
+    searchType: outcome.searchType,
+    language: outcome.language,
+  });
+
+  if (outcome.results.length === 0) {
+    console.log("❌ No documents to answer from");
+    return unsupported([]);
+  }
+
+  const sources = outcome.results.map(toCitation);
+  const reply = (
+    await getLLMProvider().generateText(
+      buildAnswerPrompt(request.query, outcome.results),
+      { temperature: 0.2 }
+    )
+  ).trim();
+
+  if (!reply || reply.includes(UNSUPPORTED_MARKER)) {
+    console.log("🤷 Sources don't support an answer");
+    return unsupported(sources);
+  }
+
+  // Keep only markers pointing at a real source, in order of first use
+  const cited = new Set<number>();
+  const answer = reply.replace(/\[(\d+)\]/g, (marker, ref: string) => {
+    const index = Number(ref);
+    if (index < 1 || index > sources.length) return "";
+    cited.add(index);
+    return marker;
+  });
+  if (cited.size === 0) {
+    console.log("🤷 Answer cited no sources, discarding it");
+    return unsupported(sources);
+  }
+
+  console.log(`✅ Answered from ${cited.size} of ${sources.length} sources`);
+  return {
+    answer: answer.replace(/[ \t]{2,}/g, " ").trim(),
+    supported: true,
+    citations: Array.from(cited, (ref) => sources[ref - 1]),
+    sources,
+    searchType: outcome.searchType,
+    language: outcome.language,
+  };
+}
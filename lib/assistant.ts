@@ -0,0 +1,268 @@
+import { Db } from "mongodb";
+import { getLLMProvider } from "@/lib/llm";
+import { ALLOWED_COLLECTIONS, QUALIFICATION_LEVELS } from "@/lib/documents";
+import {
+  parseSearchFilters,
+  searchDocuments,
+  SearchError,
+  SearchResult,
+} from "@/lib/search";
+
+/**
+ * ASSISTANT CONSTANTS
+ * Bounds on the history and tool use of one assistant turn
+ */
+const ASSISTANT_LIMITS = {
+  // Most recent conversation turns sent to the model
+  HISTORY_TURNS: 12,
+  MESSAGE_CHARS: 2000,
+  // Searches the model may run before it has to reply
+  MAX_SEARCHES: 3,
+  // Results returned to the client per search
+  RESULTS: 10,
+  // Results described to the model per search
+  RESULTS_SHOWN: 5,
+  SUMMARY_CHARS: 200,
+} as const;
+
+// A search the assistant ran: query text plus raw request-style filters
+export interface AssistantSearch {
+  query: string;
+  filters?: Record<string, unknown>;
+}
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+  // Search behind an assistant turn, so later turns can narrow it
+  search?: AssistantSearch;
+}
+
+export interface AssistantReply {
+  reply: string;
+  // Results of the last search run this turn, if any
+  results: SearchResult[];
+  total: number;
+  search?: AssistantSearch;
+}
+
+// One step the model chose: run a search, or answer the user
+type AssistantAction =
+  | { action: "search"; query: string; filters?: Record<string, unknown> }
+  | { action: "reply"; reply: string };
+
+/**
+ * CONVERSATION PARSING
+ * Responsible for: Validating the `messages` history sent by the chat widget
+ * - Accepts { messages: ChatTurn[] } or a bare { query } as a single turn
+ * - Keeps the last HISTORY_TURNS turns, each trimmed to MESSAGE_CHARS
+ * - Throws a 400 SearchError when the latest turn isn't a user message
+ */
+export function parseConversation(input: unknown): ChatTurn[] {
+  const body = (input ?? {}) as { messages?: unknown; query?: unknown };
+  const raw =
+    body.messages ??
+    (typeof body.query === "string"
+      ? [{ role: "user", content: body.query }]
+      : undefined);
+
+  if (!Array.isArray(raw)) {
+    throw new SearchError("messages must be an array of chat turns", 400);
+  }
+
+  const turns = raw.map((item, index): ChatTurn => {
+    const turn = (item ?? {}) as Record<string, unknown>;
+    if (turn.role !== "user" && turn.role !== "assistant") {
+      throw new SearchError(
+        `messages[${index}].role must be "user" or "assistant"`,
+        400
+      );
+    }
+    if (typeof turn.content !== "string") {
+      throw new SearchError(`messages[${index}].content must be a string`, 400);
+    }
+    const search = turn.search as AssistantSearch | undefined;
+    return {
+      role: turn.role,
+      content: turn.content.slice(0, ASSISTANT_LIMITS.MESSAGE_CHARS),
+      ...(turn.role === "assistant" &&
+        typeof search?.query === "string" && { search }),
+    };
+  });
+
+  const latest = turns[turns.length - 1];
+  if (!latest || latest.role !== "user" || !latest.content.trim()) {
+    throw new SearchError("The last message must be a user question", 400);
+  }
+  return turns.slice(-ASSISTANT_LIMITS.HISTORY_TURNS);
+}
+
+function formatTurn(turn: ChatTurn): string {
+  if (turn.role === "user") return `User: ${turn.content}`;
+  const searched = turn.search
+    ? ` [searched ${JSON.stringify(turn.search)}]`
+    : "";
+  return `Assistant${searched}: ${turn.content}`;
+}
+
+// What the model sees of a search it ran
+function formatSearchResults(
+  search: AssistantSearch,
+  results: SearchResult[],
+  total: number
+): string {
+  if (total === 0) {
+    return `Search ${JSON.stringify(search)} found no documents.`;
+  }
+  const lines = results
+    .slice(0, ASSISTANT_LIMITS.RESULTS_SHOWN)
+    .map((result, index) =>
+      [
+        `${index + 1}. ${result.title || result.name || "Untitled"}`,
+        result.collection,
+        result.department,
+        result.createdAt && String(result.createdAt).slice(0, 10),
+        result.tender?.bidCloseDate &&
+          `closes ${new Date(result.tender.bidCloseDate).toISOString()}`,
+        result.employment?.applicationDeadline &&
+          `apply by ${new Date(
+            result.employment.applicationDeadline
+          ).toISOString()}`,
+        result.summary?.slice(0, ASSISTANT_LIMITS.SUMMARY_CHARS),
+      ]
+        .filter(Boolean)
+        .join(" | ")
+    );
+  return `Search ${JSON.stringify(
+    search
+  )} found ${total} documents:\n${lines.join("\n")}`;
+}
+
+function buildAssistantPrompt(turns: ChatTurn[], toolLog: string[]): string {
+  return `You are the assistant of the Sikkim government document portal. You help citizens find employment notices, notifications/circulars and tenders. Today is ${new Date()
+    .toISOString()
+    .slice(0, 10)}.
+
+You can search the documents. Reply with one JSON object and nothing else, either:
+{"action":"search","query":"<keywords>","filters":{...}}
+or
+{"action":"reply","reply":"<your message to the user>"}
+
+Search query syntax: plain keywords, "exact phrases", OR, -excluded, dept:<department name>, category:<category>.
+Search filters (all optional): "collections" (any of ${ALLOWED_COLLECTIONS.join(
+    ", "
+  )}), "createdFrom" and "createdTo" (YYYY-MM-DD, both days included), "fileType", "categories" (array).
+Tender filters (these only match tenders): "closingFrom" and "closingTo" (YYYY-MM-DD, both days included; the bid submission deadline), "tenderNumber", "issuingOffice", "estimatedCostMin" and "estimatedCostMax" (rupees).
+Employment notice filters (these only match employment notices): "qualification" (the minimum qualification asked for, one of ${QUALIFICATION_LEVELS.join(
+    ", "
+  )}), "openNow" (true for notices still accepting applications), "age" (the applicant's age in years).
+
+Guidelines:
+- Search whenever the user is looking for documents; resolve relative dates like "last month" or "closing this week" against today's date, using the first and last day of the period as the bounds.
+- When the user narrows or corrects an earlier request, search again starting from the earlier search's query and filters.
+- If a search finds nothing, you may search again with broader keywords or fewer filters.
+- Reply briefly and only describe documents the searches returned. If the request is too vague to search, ask one clarifying question.
+
+Conversation:
+${turns.map(formatTurn).join("\n")}
+${
+  toolLog.length > 0
+    ? `\nSearches run for the last message:\n${toolLog.join("\n\n")}\n`
+    : ""
+}
+Next JSON object:`;
+}
+
+// Pull the JSON action out of a reply that may wrap it in prose or fences
+function parseAction(text: string): AssistantAction {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (json) {
+    try {
+      const action = JSON.parse(json) as Record<string, unknown>;
+      if (action.action === "search" && typeof action.query === "string") {
+        return {
+          action: "search",
+          query: action.query,
+          filters:
+            action.filters && typeof action.filters === "object"
+              ? (action.filters as Record<string, unknown>)
+              : undefined,
+        };
+      }
+      if (typeof action.reply === "string") {
+        return { action: "reply", reply: action.reply };
+      }
+    } catch {
+      // Not JSON after all; treat the text as the reply
+    }
+  }
+  return { action: "reply", reply: text.trim() };
+}
+
+/**
+ * CONVERSATIONAL ASSISTANT
+ * Responsible for: Answering a chat turn, searching documents as a tool
+ * - The model sees the conversation, including the searches behind earlier
+ *   assistant turns, and answers with a JSON action
+ * - Search actions run the regular search pipeline with validated filters;
+ *   their results are fed back until the model replies or MAX_SEARCHES
+ *   is reached
+ * - Returns the reply with the last search's results, so the client can
+ *   show them and send the search back on the next turn
+ */
+export async function respondToConversation(
+  db: Db,
+  turns: ChatTurn[]
+): Promise<AssistantReply> {
+  const toolLog: string[] = [];
+  let last: Omit<AssistantReply, "reply"> = { results: [], total: 0 };
+
+  for (let searches = 0; ; searches++) {
+    const action = parseAction(
+      await getLLMProvider().generateText(
+        buildAssistantPrompt(turns, toolLog),
+        {
+          temperature: 0.2,
+        }
+      )
+    );
+
+    if (
+      action.action === "reply" ||
+      searches === ASSISTANT_LIMITS.MAX_SEARCHES
+    ) {
+      const reply =
+        action.action === "reply" && action.reply
+          ? action.reply
+          : last.total > 0
+          ? `I found ${last.total} matching documents.`
+          : "I couldn't find matching documents. Could you describe them differently?";
+      return { reply, ...last };
+    }
+
+    const search: AssistantSearch = {
+      query: action.query,
+      ...(action.filters && { filters: action.filters }),
+    };
+    console.log("🛠️ Assistant searching:", JSON.stringify(search));
+    try {
+      const outcome = await searchDocuments(db, {
+        query: search.query,
+        filters: parseSearchFilters(search.filters),
+        pageSize: ASSISTANT_LIMITS.RESULTS,
+        facets: false,
+        spelling: false,
+      });
+      last = { results: outcome.results, total: outcome.total, search };
+      toolLog.push(formatSearchResults(search, outcome.results, outcome.total));
+    } catch (error) {
+      // Invalid syntax or filters go back to the model to correct
+      if (!(error instanceof SearchError) || error.statusCode !== 400) {
+        throw error;
+      }
+      toolLog.push(
+        `Search ${JSON.stringify(search)} was rejected: ${error.message}`
+      );
+    }
+  }
+}
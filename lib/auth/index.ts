@@ -0,0 +1,85 @@
+import { Db } from "mongodb";
+import { NextRequest, NextResponse } from "next/server";
+import { LocalAuthProvider } from "./local";
+import {
+  getSessionTtlSeconds,
+  getSessionUser,
+  SESSION_COOKIE,
+} from "./session";
+import { AuthError, AuthProvider, Role, SessionUser } from "./types";
+
+export * from "./types";
+export { hashPassword, verifyPassword } from "./password";
+export {
+  createSession,
+  deleteSession,
+  getSessionUser,
+  SESSION_COOKIE,
+} from "./session";
+export {
+  createLocalUser,
+  ensureBootstrapAdmin,
+  findUserById,
+  findUserByUsername,
+  toSessionUser,
+} from "./users";
+export type { NewLocalUser } from "./users";
+
+/**
+ * PROVIDER REGISTRY
+ * Sign-in providers by name; only "local" exists today, and an OIDC
+ * provider would be registered here alongside it
+ */
+export function getAuthProvider(db: Db, name: string = "local"): AuthProvider {
+  switch (name) {
+    case "local":
+      return new LocalAuthProvider(db);
+    default:
+      throw new AuthError(`Unknown sign-in provider "${name}"`, 400);
+  }
+}
+
+// The signed-in user for a request, or null
+export async function getCurrentUser(
+  db: Db,
+  req: NextRequest
+): Promise<SessionUser | null> {
+  return getSessionUser(db, req.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * ROUTE PROTECTION
+ * Responsible for: Guarding API routes by role
+ * - Throws a 401 AuthError when nobody is signed in
+ * - Throws a 403 AuthError when the user lacks the role; admins pass
+ *   every check
+ */
+export async function requireUser(
+  db: Db,
+  req: NextRequest,
+  role: Role = "citizen"
+): Promise<SessionUser> {
+  const user = await getCurrentUser(db, req);
+  if (!user) {
+    throw new AuthError("Sign in required", 401);
+  }
+  if (role === "admin" && user.role !== "admin") {
+    throw new AuthError("Administrator access required", 403);
+  }
+  return user;
+}
+
+// Set or clear the session cookie on a response
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: getSessionTtlSeconds(),
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", { path: "/", maxAge: 0 });
+}
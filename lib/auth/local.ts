@@ -0,0 +1,27 @@
+import { Db } from "mongodb";
+import { verifyPassword } from "./password";
+import { AuthProvider, Credentials, UserRecord } from "./types";
+import { findUserByUsername } from "./users";
+
+/**
+ * LOCAL PROVIDER
+ * Username/password sign-in against the User collection
+ * - Unknown users and wrong passwords both return null, so callers can't
+ *   tell which usernames exist
+ */
+export class LocalAuthProvider implements AuthProvider {
+  name = "local";
+
+  constructor(private db: Db) {}
+
+  async authenticate({
+    username,
+    password,
+  }: Credentials): Promise<UserRecord | null> {
+    const user = await findUserByUsername(this.db, username);
+    if (!user || user.provider !== "local" || !user.passwordHash) {
+      return null;
+    }
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+  }
+}
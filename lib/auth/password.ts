@@ -0,0 +1,38 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+/**
+ * PASSWORD HASHING
+ * scrypt with a random salt per password, stored as "scrypt:<salt>:<hash>"
+ */
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+// Constant-time comparison against a stored hash
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,89 @@
+import { createHash, randomBytes } from "crypto";
+import { Db, ObjectId } from "mongodb";
+import { SessionUser, UserRecord } from "./types";
+import { findUserById, toSessionUser } from "./users";
+
+/**
+ * SESSIONS
+ * Responsible for: Server-side sessions behind an opaque cookie
+ * - The cookie holds a random token; only its SHA-256 is stored, in the
+ *   Session collection, so a database leak can't be replayed
+ * - Sessions expire after SESSION_TTL_SECONDS (default 7 days) and are
+ *   removed by a TTL index
+ * - The user is re-read on every lookup, so role changes apply at once
+ */
+export const SESSION_COOKIE = "avp_session";
+
+const SESSIONS_COLLECTION = "Session";
+const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface SessionRecord {
+  // SHA-256 of the cookie token
+  _id: string;
+  userId: ObjectId;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+let ttlIndexReady: Promise<unknown> | undefined;
+
+export function getSessionTtlSeconds(): number {
+  return Number(process.env.SESSION_TTL_SECONDS) || DEFAULT_SESSION_TTL_SECONDS;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function ensureTtlIndex(db: Db): Promise<unknown> {
+  if (!ttlIndexReady) {
+    ttlIndexReady = db
+      .collection<SessionRecord>(SESSIONS_COLLECTION)
+      .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((error) => {
+        console.error("Failed to create session TTL index:", error);
+        ttlIndexReady = undefined;
+      });
+  }
+  return ttlIndexReady;
+}
+
+// Start a session for `user`, returning the token to set as the cookie
+export async function createSession(db: Db, user: UserRecord): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  await ensureTtlIndex(db);
+  await db.collection<SessionRecord>(SESSIONS_COLLECTION).insertOne({
+    _id: hashToken(token),
+    userId: user._id,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + getSessionTtlSeconds() * 1000),
+  });
+  return token;
+}
+
+export async function getSessionUser(
+  db: Db,
+  token: string | undefined
+): Promise<SessionUser | null> {
+  if (!token) return null;
+
+  const session = await db
+    .collection<SessionRecord>(SESSIONS_COLLECTION)
+    .findOne({ _id: hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!session) return null;
+
+  const user = await findUserById(db, session.userId.toString());
+  return user ? toSessionUser(user) : null;
+}
+
+export async function deleteSession(
+  db: Db,
+  token: string | undefined
+): Promise<void> {
+  if (!token) return;
+  await db
+    .collection<SessionRecord>(SESSIONS_COLLECTION)
+    .deleteOne({ _id: hashToken(token) });
+}
@@ -0,0 +1,57 @@
+import { ObjectId } from "mongodb";
+
+/**
+ * AUTH TYPES
+ * Shared contract for users, sessions and sign-in providers
+ */
+export const ROLES = ["citizen", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// Shape of a user as stored in the User collection
+export interface UserRecord {
+  _id: ObjectId;
+  // Lowercased; unique across providers
+  username: string;
+  displayName: string;
+  role: Role;
+  // Provider that vouches for the user, e.g. "local"
+  provider: string;
+  // Set for local users only
+  passwordHash?: string;
+  // Identifier at an external provider (an OIDC `sub`), for later providers
+  subject?: string;
+  createdAt: Date;
+}
+
+// What the app knows about the signed-in user
+export interface SessionUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * SIGN-IN PROVIDER
+ * Verifies credentials and returns the matching user, or null
+ * - "local" checks a stored password hash
+ * - An OIDC provider would exchange an authorization code instead and
+ *   find or create the user by `subject`
+ */
+export interface AuthProvider {
+  name: string;
+  authenticate(credentials: Credentials): Promise<UserRecord | null>;
+}
+
+// Thrown on failed sign-in and on requests lacking the required role
+export class AuthError extends Error {
+  constructor(message: string, public statusCode: number = 401) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
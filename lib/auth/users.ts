@@ -0,0 +1,154 @@
+import { Db, MongoServerError, ObjectId } from "mongodb";
+import { hashPassword } from "./password";
+import { AuthError, Role, SessionUser, UserRecord } from "./types";
+
+export const USERS_COLLECTION = "User";
+
+const USER_LIMITS = {
+  MIN_PASSWORD_LENGTH: 8,
+  MAX_PASSWORD_LENGTH: 128,
+  MAX_DISPLAY_NAME_LENGTH: 80,
+} as const;
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/;
+
+let usernameIndexReady: Promise<unknown> | undefined;
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+function ensureUsernameIndex(db: Db): Promise<unknown> {
+  if (!usernameIndexReady) {
+    usernameIndexReady = db
+      .collection<UserRecord>(USERS_COLLECTION)
+      .createIndex({ username: 1 }, { unique: true })
+      .catch((error) => {
+        console.error("Failed to create username index:", error);
+        usernameIndexReady = undefined;
+      });
+  }
+  return usernameIndexReady;
+}
+
+export function toSessionUser(user: UserRecord): SessionUser {
+  return {
+    id: user._id.toString(),
+    username: user.username,
+    displayName: user.displayName,
+    role: user.role,
+  };
+}
+
+export async function findUserByUsername(
+  db: Db,
+  username: string
+): Promise<UserRecord | null> {
+  return db
+    .collection<UserRecord>(USERS_COLLECTION)
+    .findOne({ username: normalizeUsername(username) });
+}
+
+export async function findUserById(
+  db: Db,
+  id: string
+): Promise<UserRecord | null> {
+  if (!ObjectId.isValid(id)) return null;
+  return db
+    .collection<UserRecord>(USERS_COLLECTION)
+    .findOne({ _id: new ObjectId(id) });
+}
+
+export interface NewLocalUser {
+  username: string;
+  password: string;
+  displayName?: string;
+  role?: Role;
+}
+
+/**
+ * LOCAL ACCOUNT CREATION
+ * Responsible for: Validating and storing a username/password user
+ * - Usernames are 3-32 lowercase letters, digits, ".", "_" or "-"
+ * - Passwords are 8-128 characters and stored only as a scrypt hash
+ * - New accounts are citizens unless a role is given
+ * - Throws a 400 AuthError for invalid input and 409 for a taken username
+ */
+export async function createLocalUser(
+  db: Db,
+  { username, password, displayName, role = "citizen" }: NewLocalUser
+): Promise<UserRecord> {
+  const normalized = normalizeUsername(username);
+  if (!USERNAME_PATTERN.test(normalized)) {
+    throw new AuthError(
+      'Username must be 3-32 letters, digits, ".", "_" or "-"',
+      400
+    );
+  }
+  if (
+    password.length < USER_LIMITS.MIN_PASSWORD_LENGTH ||
+    password.length > USER_LIMITS.MAX_PASSWORD_LENGTH
+  ) {
+    throw new AuthError(
+      `Password must be ${USER_LIMITS.MIN_PASSWORD_LENGTH}-${USER_LIMITS.MAX_PASSWORD_LENGTH} characters`,
+      400
+    );
+  }
+
+  const user: UserRecord = {
+    _id: new ObjectId(),
+    username: normalized,
+    displayName:
+      displayName?.trim().slice(0, USER_LIMITS.MAX_DISPLAY_NAME_LENGTH) ||
+      normalized,
+    role,
+    provider: "local",
+    passwordHash: await hashPassword(password),
+    createdAt: new Date(),
+  };
+
+  await ensureUsernameIndex(db);
+  try {
+    await db.collection<UserRecord>(USERS_COLLECTION).insertOne(user);
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw new AuthError("Username is already taken", 409);
+    }
+    throw error;
+  }
+  console.log(`👤 Created ${role} account "${normalized}"`);
+  return user;
+}
+
+let bootstrapAdminReady: Promise<unknown> | undefined;
+
+/**
+ * BOOTSTRAP ADMINISTRATOR
+ * Creates the ADMIN_USERNAME / ADMIN_PASSWORD account on first use, so a
+ * fresh deployment has someone who can manage documents
+ * - Never changes an existing account with that username
+ */
+export function ensureBootstrapAdmin(db: Db): Promise<unknown> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return Promise.resolve();
+
+  if (!bootstrapAdminReady) {
+    bootstrapAdminReady = (async () => {
+      if (await findUserByUsername(db, username)) return;
+      await createLocalUser(db, {
+        username,
+        password,
+        displayName: "Administrator",
+        role: "admin",
+      });
+    })().catch((error) => {
+      // A concurrent request may have created it first
+      if (!(error instanceof AuthError && error.statusCode === 409)) {
+        console.error("Failed to create bootstrap admin:", error);
+        bootstrapAdminReady = undefined;
+      }
+    });
+  }
+  return bootstrapAdminReady;
+}
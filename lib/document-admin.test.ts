@@ -0,0 +1,80 @@
+import { Db, ObjectId } from "mongodb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LLMError } from "@/lib/llm/types";
+import { parseDocumentUpdate, updateDocument } from "./document-admin";
+
+const provider = {
+  generateText: vi.fn<(prompt: string) => Promise<string>>(),
+  generateEmbedding: vi.fn(async () => [1, 0, 0]),
+};
+
+vi.mock("@/lib/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  getLLMProvider: () => provider,
+}));
+vi.mock("@/lib/vector", () => ({
+  getVectorIndex: () => ({ upsert: () => {} }),
+}));
+
+// One stored tender; records the update applied to it
+function fakeDb() {
+  const id = new ObjectId();
+  const updates: Array<Record<string, Record<string, unknown>>> = [];
+  const db = {
+    collection: () => ({
+      findOne: async () => ({
+        _id: id,
+        title: "NIT No. 12/RBD/2024-25",
+        content: "Estimated cost: Rs. 4,50,000",
+        tender: { tenderNumber: "12/RBD/2024-25", estimatedCost: 450000 },
+      }),
+      updateOne: async (
+        _filter: unknown,
+        update: Record<string, Record<string, unknown>>
+      ) => {
+        updates.push(update);
+        return { matchedCount: 1 };
+      },
+    }),
+  } as unknown as Db;
+  return { db, id: id.toString(), updates };
+}
+
+describe("updateDocument", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("clears stale fields for the backfill when the provider is down", async () => {
+    provider.generateText.mockRejectedValue(
+      new LLMError("External search service unavailable", 503)
+    );
+    const { db, id, updates } = fakeDb();
+
+    await updateDocument(db, "Tender", id, {
+      content: "Estimated cost: Rs. 9,00,000",
+    });
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].$set).not.toHaveProperty("tender");
+    expect(updates[0].$unset).toEqual({ tender: "" });
+  });
+});
+
+describe("parseDocumentUpdate", () => {
+  it("accepts a supported file type", () => {
+    expect(parseDocumentUpdate({ fileType: "PDF" })).toEqual({
+      fileType: "pdf",
+    });
+  });
+
+  it.each(["toString", "valueOf", "__proto__"])(
+    "rejects the inherited key %s as a file type",
+    (fileType) => {
+      expect(() => parseDocumentUpdate({ fileType })).toThrow(
+        /fileType must be one of/
+      );
+    }
+  );
+});
@@ -0,0 +1,413 @@
+import { Db, ObjectId } from "mongodb";
+import {
+  ALLOWED_COLLECTIONS,
+  AllowedCollection,
+  isAllowedCollection,
+  MongoDocument,
+} from "@/lib/documents";
+import {
+  DocumentDetails,
+  DocumentNotFoundError,
+  getDocumentDetails,
+  toIsoDate,
+} from "@/lib/document-details";
+import {
+  extractStructuredFieldsOrDefer,
+  hasStructuredFields,
+  STRUCTURED_FIELDS,
+} from "@/lib/extraction";
+import { buildEmbeddingText, SUPPORTED_FILE_TYPES } from "@/lib/ingestion";
+import { getLLMProvider } from "@/lib/llm";
+import { aggregatePage, escapeRegex } from "@/lib/search";
+import { getVectorIndex } from "@/lib/vector";
+
+/**
+ * DOCUMENT ADMIN CONSTANTS
+ * Paging for the admin list and bounds on edited fields
+ */
+const ADMIN_LIMITS = {
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+  QUERY_CHARS: 200,
+  TITLE_CHARS: 300,
+  SUMMARY_CHARS: 2000,
+  DEPARTMENT_CHARS: 200,
+  LIST_ITEMS: 30,
+  LIST_ITEM_CHARS: 100,
+  CONTENT_CHARS: 1_000_000,
+} as const;
+
+export class DocumentUpdateError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "DocumentUpdateError";
+  }
+}
+
+// One row of the admin document list
+export interface AdminDocumentSummary {
+  _id: string;
+  collection: AllowedCollection;
+  title?: string;
+  department?: string;
+  createdAt: string | null;
+  fileType?: string;
+  hasSummary: boolean;
+  hasFile: boolean;
+}
+
+export interface AdminDocumentList {
+  documents: AdminDocumentSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AdminListOptions {
+  collection?: AllowedCollection;
+  query?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// Editable fields; null (or "") clears an optional field
+export interface DocumentUpdate {
+  title?: string;
+  summary?: string | null;
+  department?: string | null;
+  content?: string | null;
+  categories?: string[];
+  keywords?: string[];
+  fileType?: string | null;
+  createdAt?: Date | null;
+  supabase?: { url: string } | null;
+  aws?: { bucket: string; key: string; region?: string } | null;
+}
+
+// Fields buildEmbeddingText reads; editing any of them re-embeds the document
+const EMBEDDED_FIELDS = ["title", "summary", "keywords", "content"] as const;
+
+// Fields structured details are extracted from (see lib/extraction)
+const EXTRACTED_FIELDS = ["title", "content"] as const;
+
+/**
+ * DOCUMENT LISTING
+ * Responsible for: The admin console's paged document list
+ * - Lists one collection or all of them, newest first
+ * - `query` matches title, file name or department, case-insensitively
+ */
+export async function listDocuments(
+  db: Db,
+  options: AdminListOptions = {}
+): Promise<AdminDocumentList> {
+  const pageSize = Math.min(
+    Math.max(1, Math.floor(options.pageSize ?? ADMIN_LIMITS.DEFAULT_PAGE_SIZE)),
+    ADMIN_LIMITS.MAX_PAGE_SIZE
+  );
+  const page = Math.max(1, Math.floor(options.page ?? 1));
+  const query = options.query?.trim().slice(0, ADMIN_LIMITS.QUERY_CHARS);
+
+  const match = query
+    ? {
+        $or: ["title", "name", "department"].map((field) => ({
+          [field]: { $regex: escapeRegex(query), $options: "i" },
+        })),
+      }
+    : {};
+  const { results, total } = await aggregatePage(
+    db,
+    [{ $match: match }],
+    { skip: (page - 1) * pageSize, limit: pageSize, sort: "newest" },
+    options.collection ? [options.collection] : ALLOWED_COLLECTIONS
+  );
+
+  return {
+    documents: results.map((doc) => ({
+      _id: String(doc._id),
+      collection: doc.collection as AllowedCollection,
+      title: doc.title || doc.name,
+      department: doc.department,
+      createdAt: toIsoDate(doc.createdAt),
+      fileType: doc.fileType,
+      hasSummary: Boolean(doc.summary?.trim()),
+      hasFile: Boolean(doc.supabase?.url || (doc.aws?.bucket && doc.aws.key)),
+    })),
+    total,
+    page,
+    pageSize,
+  };
+}
+
+function parseText(
+  value: unknown,
+  field: string,
+  maxChars: number
+): string | null {
+  if (value === null) return null;
+  if (typeof value !== "string") {
+    throw new DocumentUpdateError(`${field} must be a string`);
+  }
+  const text = value.trim();
+  if (text.length > maxChars) {
+    throw new DocumentUpdateError(
+      `${field} must be at most ${maxChars} characters`
+    );
+  }
+  return text || null;
+}
+
+function parseList(value: unknown, field: string): string[] {
+  if (
+    !Array.isArray(value) ||
+    !value.every((item): item is string => typeof item === "string")
+  ) {
+    throw new DocumentUpdateError(`${field} must be a string array`);
+  }
+  const items = Array.from(
+    new Set(value.map((item) => item.trim()).filter(Boolean))
+  );
+  if (items.length > ADMIN_LIMITS.LIST_ITEMS) {
+    throw new DocumentUpdateError(
+      `${field} can have at most ${ADMIN_LIMITS.LIST_ITEMS} items`
+    );
+  }
+  if (items.some((item) => item.length > ADMIN_LIMITS.LIST_ITEM_CHARS)) {
+    throw new DocumentUpdateError(
+      `${field} items must be at most ${ADMIN_LIMITS.LIST_ITEM_CHARS} characters`
+    );
+  }
+  return items;
+}
+
+function parseUrl(value: unknown, field: string): string {
+  const text = typeof value === "string" ? value.trim() : "";
+  try {
+    const url = new URL(text);
+    if (url.protocol === "http:" || url.protocol === "https:") return text;
+  } catch {
+    // Reported below
+  }
+  throw new DocumentUpdateError(`${field} must be an http(s) URL`);
+}
+
+function parseObject(
+  value: unknown,
+  field: string
+): Record<string, unknown> | null {
+  if (value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new DocumentUpdateError(`${field} must be an object or null`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * UPDATE PARSING
+ * Responsible for: Validating an admin edit before it touches the database
+ * - Only fields present in the body are changed; unknown fields are rejected
+ * - title can't be cleared; other text fields are cleared with null or ""
+ * - createdAt must be an ISO date, fileType a supported upload type, and
+ *   supabase.url an http(s) URL
+ * - Throws a 400 DocumentUpdateError describing the first invalid field
+ */
+export function parseDocumentUpdate(input: unknown): DocumentUpdate {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new DocumentUpdateError("body must be an object");
+  }
+
+  const update: DocumentUpdate = {};
+  for (const [field, value] of Object.entries(input)) {
+    switch (field) {
+      case "title": {
+        const title = parseText(value, field, ADMIN_LIMITS.TITLE_CHARS);
+        if (!title) throw new DocumentUpdateError("title can't be empty");
+        update.title = title;
+        break;
+      }
+      case "summary":
+        update.summary = parseText(value, field, ADMIN_LIMITS.SUMMARY_CHARS);
+        break;
+      case "department":
+        update.department = parseText(
+          value,
+          field,
+          ADMIN_LIMITS.DEPARTMENT_CHARS
+        );
+        break;
+      case "content":
+        update.content = parseText(value, field, ADMIN_LIMITS.CONTENT_CHARS);
+        break;
+      case "categories":
+      case "keywords":
+        update[field] = parseList(value, field);
+        break;
+      case "fileType": {
+        const fileType = parseText(value, field, 10)?.toLowerCase() ?? null;
+        if (fileType && !Object.hasOwn(SUPPORTED_FILE_TYPES, fileType)) {
+          throw new DocumentUpdateError(
+            `fileType must be one of ${Object.keys(SUPPORTED_FILE_TYPES).join(
+              ", "
+            )}`
+          );
+        }
+        update.fileType = fileType;
+        break;
+      }
+      case "createdAt": {
+        const text = parseText(value, field, 40);
+        const date = text ? new Date(text) : null;
+        if (date && isNaN(date.getTime())) {
+          throw new DocumentUpdateError("createdAt must be an ISO date");
+        }
+        update.createdAt = date;
+        break;
+      }
+      case "supabase": {
+        const supabase = parseObject(value, field);
+        update.supabase =
+          supabase && supabase.url
+            ? { url: parseUrl(supabase.url, "supabase.url") }
+            : null;
+        break;
+      }
+      case "aws": {
+        const aws = parseObject(value, field);
+        if (!aws || (!aws.bucket && !aws.key)) {
+          update.aws = null;
+          break;
+        }
+        const bucket = parseText(aws.bucket ?? "", "aws.bucket", 255);
+        const key = parseText(aws.key ?? "", "aws.key", 1024);
+        if (!bucket || !key) {
+          throw new DocumentUpdateError("aws needs both a bucket and a key");
+        }
+        const region = parseText(aws.region ?? "", "aws.region", 50);
+        update.aws = { bucket, key, ...(region && { region }) };
+        break;
+      }
+      default:
+        throw new DocumentUpdateError(`${field} can't be edited`);
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    throw new DocumentUpdateError("No fields to update");
+  }
+  return update;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * DOCUMENT UPDATE
+ * Responsible for: Applying a validated admin edit
+ * - Sets changed fields and unsets cleared ones
+ * - Re-embeds the document when its embedding text (title, summary,
+ *   keywords, content) changed, and updates the vector index to match
+ * - Re-extracts structured fields (e.g. tender deadlines) when the title
+ *   or content changed; if the provider is down the old fields are
+ *   cleared and left for the backfill
+ * - Returns the document as the detail page serves it
+ */
+export async function updateDocument(
+  db: Db,
+  collection: string,
+  id: string,
+  update: DocumentUpdate
+): Promise<DocumentDetails> {
+  const existing = await getDocumentDetails(db, collection, id);
+  const target = existing.collection;
+
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ""> = {};
+  for (const [field, value] of Object.entries(update)) {
+    if (value === null) {
+      $unset[field] = "";
+    } else {
+      $set[field] = value;
+    }
+  }
+
+  const reembed = EMBEDDED_FIELDS.some(
+    (field) => field in update && !sameValue(update[field], existing[field])
+  );
+  let embedding: number[] | undefined;
+  if (reembed) {
+    embedding = await getLLMProvider().generateEmbedding(
+      buildEmbeddingText({
+        ...existing,
+        ...Object.fromEntries(
+          EMBEDDED_FIELDS.filter((field) => field in update).map((field) => [
+            field,
+            update[field] ?? undefined,
+          ])
+        ),
+      })
+    );
+    $set.embedding = embedding;
+  }
+
+  // New text may state a different reference number, cost or deadline
+  const reextract = EXTRACTED_FIELDS.some(
+    (field) => field in update && !sameValue(update[field], existing[field])
+  );
+  if (reextract && hasStructuredFields(target)) {
+    const field = STRUCTURED_FIELDS[target];
+    const fields = await extractStructuredFieldsOrDefer(target, {
+      title: "title" in update ? update.title ?? undefined : existing.title,
+      content:
+        "content" in update ? update.content ?? undefined : existing.content,
+    });
+    if (field in fields) {
+      Object.assign($set, fields);
+    } else {
+      // Deferred: drop the stale fields so the backfill extracts them again
+      $unset[field] = "";
+    }
+  }
+
+  const result = await db.collection<MongoDocument>(target).updateOne(
+    { _id: new ObjectId(id) },
+    {
+      ...(Object.keys($set).length > 0 && { $set }),
+      ...(Object.keys($unset).length > 0 && { $unset }),
+    }
+  );
+  if (result.matchedCount === 0) {
+    throw new DocumentNotFoundError("Document not found");
+  }
+
+  if (embedding) {
+    getVectorIndex().upsert(target, id, embedding);
+    console.log(`🧮 Re-embedded ${target}/${id}`);
+  }
+  console.log(`✏️ Updated ${target}/${id}: ${Object.keys(update).join(", ")}`);
+  return getDocumentDetails(db, target, id);
+}
+
+/**
+ * DOCUMENT DELETION
+ * Responsible for: Removing a record and its vector from search
+ * - The stored file is left in Supabase/S3
+ */
+export async function deleteDocument(
+  db: Db,
+  collection: string,
+  id: string
+): Promise<void> {
+  if (!isAllowedCollection(collection) || !ObjectId.isValid(id)) {
+    throw new DocumentNotFoundError("Document not found");
+  }
+
+  const result = await db
+    .collection<MongoDocument>(collection)
+    .deleteOne({ _id: new ObjectId(id) });
+  if (result.deletedCount === 0) {
+    throw new DocumentNotFoundError("Document not found");
+  }
+
+  getVectorIndex().remove(collection, id);
+  console.log(`🗑️ Deleted ${collection}/${id}`);
+}
@@ -0,0 +1,182 @@
+import { Db, Filter, ObjectId } from "mongodb";
+import {
+  ALLOWED_COLLECTIONS,
+  AllowedCollection,
+  isAllowedCollection,
+  MongoDocument,
+} from "@/lib/documents";
+
+/**
+ * DOCUMENT DETAIL CONSTANTS
+ * Limits for the related-documents section
+ */
+const DETAIL_LIMITS = {
+  RELATED_DOCUMENTS: 5,
+  // Candidates fetched per collection before scoring
+  RELATED_CANDIDATES: 20,
+} as const;
+
+export class DocumentNotFoundError extends Error {
+  constructor(message: string, public statusCode: number = 404) {
+    super(message);
+    this.name = "DocumentNotFoundError";
+  }
+}
+
+// A stored document as served to the detail page, without its embedding
+export type DocumentDetails = Omit<
+  MongoDocument,
+  "_id" | "embedding" | "textScore" | "createdAt"
+> & {
+  _id: string;
+  collection: AllowedCollection;
+  createdAt: string | null;
+};
+
+// Just enough of a document to list and link it
+export interface RelatedDocument {
+  _id: string;
+  collection: AllowedCollection;
+  title?: string;
+  department?: string;
+  createdAt: string | null;
+  summary?: string;
+}
+
+// A stored date as an ISO string, or null when missing or invalid
+export function toIsoDate(value: MongoDocument["createdAt"]): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * DOCUMENT LOOKUP
+ * Responsible for: Loading one stored document by collection and id
+ * - Unknown collections and malformed ids are reported as not found, so
+ *   the page can't be used to probe other collections
+ * - Drops the embedding, which is large and only needed server-side
+ */
+export async function getDocumentDetails(
+  db: Db,
+  collection: string,
+  id: string
+): Promise<DocumentDetails> {
+  if (!isAllowedCollection(collection) || !ObjectId.isValid(id)) {
+    throw new DocumentNotFoundError("Document not found");
+  }
+
+  const doc = await db
+    .collection<MongoDocument>(collection)
+    .findOne(
+      { _id: new ObjectId(id) },
+      { projection: { embedding: 0, textScore: 0 } }
+    );
+  if (!doc) {
+    throw new DocumentNotFoundError("Document not found");
+  }
+
+  return {
+    ...doc,
+    _id: doc._id.toString(),
+    collection,
+    createdAt: toIsoDate(doc.createdAt),
+  };
+}
+
+// Where a document's source file is stored, for signing a download
+export async function getDocumentFiles(
+  db: Db,
+  collection: string,
+  id: string
+): Promise<Pick<MongoDocument, "supabase" | "aws">> {
+  if (!isAllowedCollection(collection) || !ObjectId.isValid(id)) {
+    throw new DocumentNotFoundError("Document not found");
+  }
+
+  const doc = await db
+    .collection<MongoDocument>(collection)
+    .findOne(
+      { _id: new ObjectId(id) },
+      { projection: { supabase: 1, aws: 1 } }
+    );
+  if (!doc) {
+    throw new DocumentNotFoundError("Document not found");
+  }
+  return { supabase: doc.supabase, aws: doc.aws };
+}
+
+/**
+ * RELATED DOCUMENTS
+ * Responsible for: Documents sharing metadata with the one being viewed
+ * - Candidates share a category, a keyword or the department, in any
+ *   collection
+ * - Ranked by how many categories and keywords they share, with a shared
+ *   department as a tie-breaker, then by date
+ */
+export async function findRelatedDocuments(
+  db: Db,
+  document: DocumentDetails,
+  limit: number = DETAIL_LIMITS.RELATED_DOCUMENTS
+): Promise<RelatedDocument[]> {
+  const categories = document.categories ?? [];
+  const keywords = document.keywords ?? [];
+  const conditions: Filter<MongoDocument>[] = [];
+  if (categories.length > 0) {
+    conditions.push({ categories: { $in: categories } });
+  }
+  if (keywords.length > 0) {
+    conditions.push({ keywords: { $in: keywords } });
+  }
+  if (document.department) {
+    conditions.push({ department: document.department });
+  }
+  if (conditions.length === 0) return [];
+
+  const shared = (values: string[] = [], own: string[]) =>
+    values.filter((value) => own.includes(value)).length;
+
+  const candidates = await Promise.all(
+    ALLOWED_COLLECTIONS.map(async (collection) => {
+      const docs = await db
+        .collection<MongoDocument>(collection)
+        .find({
+          _id: { $ne: new ObjectId(document._id) },
+          $or: conditions,
+        })
+        .project<MongoDocument>({ embedding: 0, content: 0 })
+        .sort({ createdAt: -1 })
+        .limit(DETAIL_LIMITS.RELATED_CANDIDATES)
+        .toArray();
+      return docs.map((doc) => ({
+        doc,
+        collection,
+        score:
+          shared(doc.categories, categories) +
+          shared(doc.keywords, keywords) +
+          (document.department && doc.department === document.department
+            ? 0.5
+            : 0),
+      }));
+    })
+  );
+
+  return candidates
+    .flat()
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (toIsoDate(b.doc.createdAt) ?? "").localeCompare(
+          toIsoDate(a.doc.createdAt) ?? ""
+        )
+    )
+    .slice(0, limit)
+    .map(({ doc, collection }) => ({
+      _id: doc._id.toString(),
+      collection,
+      title: doc.title || doc.name,
+      department: doc.department,
+      createdAt: toIsoDate(doc.createdAt),
+      summary: doc.summary,
+    }));
+}
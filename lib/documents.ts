@@ -0,0 +1,96 @@
+import { ObjectId } from "mongodb";
+
+/**
+ * DOCUMENT COLLECTIONS
+ * Collections that hold searchable government documents
+ */
+export const ALLOWED_COLLECTIONS = [
+  "EmploymentNotice",
+  "NotificationCircular",
+  "Tender",
+] as const;
+
+export type AllowedCollection = (typeof ALLOWED_COLLECTIONS)[number];
+
+export function isAllowedCollection(value: unknown): value is AllowedCollection {
+  return (
+    typeof value === "string" &&
+    (ALLOWED_COLLECTIONS as readonly string[]).includes(value)
+  );
+}
+
+// Typed fields extracted from a tender's text; any of them may be missing
+export interface TenderDetails {
+  tenderNumber?: string;
+  // Rupees
+  estimatedCost?: number;
+  emd?: number;
+  bidStartDate?: Date;
+  bidCloseDate?: Date;
+  issuingOffice?: string;
+}
+
+/**
+ * QUALIFICATION LEVELS
+ * Education levels an employment notice can ask for, lowest first
+ */
+export const QUALIFICATION_LEVELS = [
+  "class-8",
+  "class-10",
+  "class-12",
+  "diploma",
+  "graduate",
+  "postgraduate",
+  "doctorate",
+] as const;
+
+export type QualificationLevel = (typeof QUALIFICATION_LEVELS)[number];
+
+export interface EmploymentPost {
+  name: string;
+  vacancies?: number;
+}
+
+// Typed fields extracted from an employment notice's text
+export interface EmploymentDetails {
+  posts?: EmploymentPost[];
+  // Total across the notice's posts
+  vacancies?: number;
+  // The qualification as written, and the level it asks for
+  qualification?: string;
+  qualificationLevel?: QualificationLevel;
+  // Years
+  minAge?: number;
+  maxAge?: number;
+  payLevel?: string;
+  applicationDeadline?: Date;
+}
+
+// Shape of a document as stored in any of the allowed collections
+export interface MongoDocument {
+  _id: ObjectId;
+  title?: string;
+  name?: string;
+  content?: string;
+  categories?: string[];
+  keywords?: string[];
+  department?: string;
+  createdAt?: Date | string | null;
+  embedding?: number[];
+  filePath?: string;
+  supabase?: {
+    url?: string;
+  };
+  aws?: {
+    bucket?: string;
+    key?: string;
+    region?: string;
+  };
+  summary?: string;
+  fileType?: string;
+  // Set on Tender documents by extraction; {} when nothing was found
+  tender?: TenderDetails;
+  // Set on EmploymentNotice documents by extraction, the same way
+  employment?: EmploymentDetails;
+  textScore?: number;
+}
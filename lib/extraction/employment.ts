@@ -0,0 +1,280 @@
+import {
+  EmploymentDetails,
+  EmploymentPost,
+  QUALIFICATION_LEVELS,
+  QualificationLevel,
+} from "@/lib/documents";
+import { getLLMProvider } from "@/lib/llm";
+import {
+  cleanText,
+  compact,
+  DATE_TIME_PATTERN,
+  findLabelled,
+  parseDocumentDate,
+} from "./parse";
+
+/**
+ * EMPLOYMENT EXTRACTION CONSTANTS
+ * How much of the notice is read and bounds on the values kept
+ */
+const EMPLOYMENT_LIMITS = {
+  SAMPLE_CHARS: 6000,
+  MAX_POSTS: 20,
+  MAX_POST_CHARS: 120,
+  MAX_VACANCIES: 100_000,
+  MAX_QUALIFICATION_CHARS: 300,
+  MAX_PAY_CHARS: 120,
+  MIN_AGE: 14,
+  MAX_AGE: 70,
+} as const;
+
+// Labels as they appear in Sikkim recruitment notices
+const EMPLOYMENT_LABELS = {
+  post: "name\\s+of\\s+(?:the\\s+)?posts?|posts?\\s+name|designation",
+  qualification:
+    "(?:essential\\s+|educational\\s+|minimum\\s+)*qualifications?",
+  age: "age(?:\\s+limit)?",
+  pay: "pay\\s+level|pay\\s+scale|scale\\s+of\\s+pay|pay\\s+matrix|pay\\s+band|remuneration|salary|emoluments?",
+  deadline:
+    "last\\s+date(?:\\s+and\\s+time)?\\s+(?:of|for)\\s+(?:the\\s+)?(?:receipt|submission|applying|online\\s+(?:submission|registration))|last\\s+date|closing\\s+date|apply\\s+(?:on\\s+or\\s+)?before",
+} as const;
+
+// How each level is usually written; a notice's level is the first named
+const QUALIFICATION_PATTERNS: Record<QualificationLevel, RegExp> = {
+  doctorate: /\bph\.?\s?d\b|doctora/i,
+  postgraduate:
+    /post[\s-]?graduat|master'?s?\s+degree|\bm\.a\b|\bm\.?\s?(?:sc|com|tech|phil)\b|\bm\.\s?ed\b|\bmba\b|\bmca\b/i,
+  graduate:
+    /graduat|bachelor|\bdegree\b|\bb\.a\b|\bb\.?\s?(?:sc|com|tech)\b|\bb\.\s?ed\b|\bb\.e\.|\bmbbs\b|\bllb\b/i,
+  diploma: /diploma|\biti\b|polytechnic/i,
+  "class-12":
+    /class\s*(?:xii|12)\b|\b12th\b|\+\s*2\b|higher\s+secondary|senior\s+secondary|intermediate/i,
+  "class-10":
+    /class\s*(?:x|10)\b|\b10th\b|matricul|\bsecondary\b|\bh?slc\b|madhyamik/i,
+  "class-8": /class\s*(?:viii|8)\b|\b8th\b|middle\s+school/i,
+};
+
+/**
+ * QUALIFICATION LEVEL
+ * Reads the level a qualification asks for, e.g. "Graduate in any
+ * discipline" gives "graduate"
+ * - When several are named ("Class XII or Diploma"), the first one wins,
+ *   as notices lead with the requirement and follow with alternatives
+ */
+export function qualificationLevel(
+  text: string | undefined
+): QualificationLevel | undefined {
+  if (!text) return undefined;
+  let first: { level: QualificationLevel; index: number } | undefined;
+  for (const level of QUALIFICATION_LEVELS) {
+    const index = text.search(QUALIFICATION_PATTERNS[level]);
+    if (index !== -1 && (!first || index < first.index)) {
+      first = { level, index };
+    }
+  }
+  return first?.level;
+}
+
+function parseCount(value: unknown): number | undefined {
+  const count = typeof value === "string" ? Number(value.trim()) : value;
+  return typeof count === "number" &&
+    Number.isInteger(count) &&
+    count > 0 &&
+    count <= EMPLOYMENT_LIMITS.MAX_VACANCIES
+    ? count
+    : undefined;
+}
+
+function parseAge(value: unknown): number | undefined {
+  const age = typeof value === "string" ? Number(value.trim()) : value;
+  return typeof age === "number" &&
+    Number.isInteger(age) &&
+    age >= EMPLOYMENT_LIMITS.MIN_AGE &&
+    age <= EMPLOYMENT_LIMITS.MAX_AGE
+    ? age
+    : undefined;
+}
+
+function parsePosts(value: unknown): EmploymentPost[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const posts = value
+    .map((item): EmploymentPost | undefined => {
+      const post = (typeof item === "string" ? { name: item } : item) as
+        | Record<string, unknown>
+        | undefined;
+      const name = cleanText(post?.name, EMPLOYMENT_LIMITS.MAX_POST_CHARS);
+      return name
+        ? compact({ name, vacancies: parseCount(post?.vacancies) })
+        : undefined;
+    })
+    .filter((post): post is EmploymentPost => post !== undefined)
+    .slice(0, EMPLOYMENT_LIMITS.MAX_POSTS);
+  return posts.length > 0 ? posts : undefined;
+}
+
+// The notice's total, or the posts' vacancies when every post states them
+function totalVacancies(
+  stated: number | undefined,
+  posts: EmploymentPost[] | undefined
+): number | undefined {
+  if (stated !== undefined) return stated;
+  if (!posts || posts.some((post) => post.vacancies === undefined)) {
+    return undefined;
+  }
+  return posts.reduce((sum, post) => sum + (post.vacancies ?? 0), 0);
+}
+
+// Keep an age range only when it is the right way round
+function ageRange(
+  minAge: number | undefined,
+  maxAge: number | undefined
+): Pick<EmploymentDetails, "minAge" | "maxAge"> {
+  return minAge !== undefined && maxAge !== undefined && minAge > maxAge
+    ? {}
+    : { minAge, maxAge };
+}
+
+/**
+ * HEURISTIC AGE LIMITS
+ * "18 to 40 years", "between 21 and 35 years", "not more than 35 years",
+ * "minimum 18 years", read from the text after an "Age limit" label
+ */
+function findAgeLimits(
+  text: string
+): Pick<EmploymentDetails, "minAge" | "maxAge"> {
+  const section = text.match(
+    new RegExp(`(?:${EMPLOYMENT_LABELS.age})[^\\n]{0,160}`, "i")
+  )?.[0];
+  if (!section) return {};
+
+  const range = section.match(
+    /(?:between\s+)?(\d{2})\s*(?:-|–|to|and)\s*(\d{2})\s*(?:years|yrs)/i
+  );
+  if (range) return ageRange(parseAge(range[1]), parseAge(range[2]));
+
+  const upper = section.match(
+    /(?:not\s+(?:more\s+than|exceed(?:ing)?|above)|below|maximum|upper\s+(?:age\s+)?limit|up\s*to)[^\d\n]{0,20}(\d{2})/i
+  )?.[1];
+  const lower = section.match(
+    /(?:not\s+less\s+than|at\s+least|minimum|above|lower\s+(?:age\s+)?limit)[^\d\n]{0,20}(\d{2})/i
+  )?.[1];
+  return ageRange(parseAge(lower), parseAge(upper));
+}
+
+/**
+ * HEURISTIC EMPLOYMENT FIELDS
+ * Responsible for: Reading notice fields from their labels in the text
+ * - Used for whatever the LLM provider didn't return
+ * - Only "label: value" lines are trusted; posts and vacancies laid out
+ *   as tables are left to the provider
+ */
+export function findEmploymentDetails(text: string): EmploymentDetails {
+  const labelledLine = (label: string) =>
+    text.match(new RegExp(`(?:${label})\\s*[:\\-–]\\s*([^\\n]+)`, "i"))?.[1];
+
+  const postName =
+    labelledLine(EMPLOYMENT_LABELS.post) ??
+    text.match(
+      /recruitment\s+(?:to|for)\s+(?:the\s+)?posts?\s+of\s+([^\n.,;(]+?)(?:\s+on\s+[a-z\s-]*basis)?(?=[\n.,;(]|$)/i
+    )?.[1];
+  const name = cleanText(postName, EMPLOYMENT_LIMITS.MAX_POST_CHARS);
+  const vacancies = parseCount(
+    text.match(
+      /(?:no\.?|number)\s+of\s+(?:posts?|vacanc(?:y|ies))\s*[:\-–]\s*(\d{1,6})\b/i
+    )?.[1] ??
+      text.match(
+        /\b(\d{1,6})\s*(?:\([a-z\s-]+\)\s*)?(?:nos?\.?\s+(?:of\s+)?)?(?:posts|vacancies)\b/i
+      )?.[1]
+  );
+  const qualification = cleanText(
+    labelledLine(EMPLOYMENT_LABELS.qualification),
+    EMPLOYMENT_LIMITS.MAX_QUALIFICATION_CHARS
+  );
+
+  return {
+    posts: name ? [compact({ name, vacancies })] : undefined,
+    vacancies,
+    qualification,
+    qualificationLevel: qualificationLevel(qualification),
+    ...findAgeLimits(text),
+    payLevel: cleanText(
+      labelledLine(EMPLOYMENT_LABELS.pay),
+      EMPLOYMENT_LIMITS.MAX_PAY_CHARS
+    ),
+    applicationDeadline: parseDocumentDate(
+      findLabelled(text, EMPLOYMENT_LABELS.deadline, DATE_TIME_PATTERN),
+      { endOfDay: true }
+    ),
+  };
+}
+
+/**
+ * EMPLOYMENT EXTRACTION
+ * Responsible for: Filling the typed fields of an employment notice
+ * - Asks the LLM provider for posts, vacancies, qualification, age limits,
+ *   pay and the application deadline, then validates each value here
+ * - Any field the provider misses or garbles falls back to label matching
+ * - Provider failures (LLMError) are thrown for the caller to retry;
+ *   unparseable output gives the label matches alone
+ */
+export async function extractEmploymentDetails(
+  text: string
+): Promise<EmploymentDetails> {
+  const sample = text.slice(0, EMPLOYMENT_LIMITS.SAMPLE_CHARS);
+  const found = findEmploymentDetails(sample);
+  const prompt = `You are reading a Sikkim government recruitment notice.
+
+Notice text:
+${sample}
+
+Respond with only a JSON object with these fields, using null (or "" for text) when a value isn't stated:
+{"posts": [{"name": string, "vacancies": number}] (every post advertised), "vacancies": number (total vacancies), "qualification": string (minimum educational qualification, as written), "qualificationLevel": one of ${QUALIFICATION_LEVELS.map(
+    (level) => `"${level}"`
+  ).join(
+    ", "
+  )} (the minimum level required), "minAge": number, "maxAge": number (age limits in years, before any relaxation), "payLevel": string (pay level or scale, as written), "applicationDeadline": string (last date and time for applying, as written)}`;
+
+  const response = await getLLMProvider().generateText(prompt);
+  const json = response.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return compact(found);
+
+  try {
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    const posts = parsePosts(parsed.posts) ?? found.posts;
+    const qualification =
+      cleanText(
+        parsed.qualification,
+        EMPLOYMENT_LIMITS.MAX_QUALIFICATION_CHARS
+      ) ?? found.qualification;
+    const level = QUALIFICATION_LEVELS.find(
+      (value) => value === parsed.qualificationLevel
+    );
+    const minAge = parseAge(parsed.minAge);
+    const maxAge = parseAge(parsed.maxAge);
+    const ages =
+      minAge !== undefined || maxAge !== undefined
+        ? ageRange(minAge, maxAge)
+        : { minAge: found.minAge, maxAge: found.maxAge };
+
+    return compact({
+      posts,
+      vacancies: totalVacancies(
+        parseCount(parsed.vacancies) ?? found.vacancies,
+        posts
+      ),
+      qualification,
+      qualificationLevel:
+        level ?? qualificationLevel(qualification) ?? found.qualificationLevel,
+      ...ages,
+      payLevel:
+        cleanText(parsed.payLevel, EMPLOYMENT_LIMITS.MAX_PAY_CHARS) ??
+        found.payLevel,
+      applicationDeadline:
+        parseDocumentDate(parsed.applicationDeadline, { endOfDay: true }) ??
+        found.applicationDeadline,
+    });
+  } catch (error) {
+    console.error("Unparseable employment details from the provider:", error);
+    return compact(found);
+  }
+}
@@ -0,0 +1,99 @@
+import { Db, ObjectId } from "mongodb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LLMError } from "@/lib/llm/types";
+import { backfillStructuredFields } from "./index";
+
+const generateText = vi.fn<(prompt: string) => Promise<string>>();
+
+vi.mock("@/lib/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  getLLMProvider: () => ({ generateText }),
+}));
+
+const NOTICE = `Office of the Chief Engineer, Roads and Bridges Department
+NIT No. 12/RBD/2024-25
+Estimated cost: Rs. 4,50,000
+Last date for submission: 15/03/2025`;
+
+// Serves pending tenders and records the fields stored for each
+function fakeDb(count: number) {
+  const docs = Array.from({ length: count }, () => ({
+    _id: new ObjectId(),
+    title: "Tender notice",
+    content: NOTICE,
+  }));
+  const stored = new Map<string, Record<string, unknown>>();
+  const db = {
+    collection: () => ({
+      find: () => ({
+        sort: () => ({
+          limit: (n: number) => docs.slice(0, n),
+        }),
+      }),
+      updateOne: async (
+        { _id }: { _id: ObjectId },
+        { $set }: { $set: Record<string, unknown> }
+      ) => {
+        stored.set(_id.toString(), $set);
+      },
+      countDocuments: async () =>
+        docs.filter((doc) => !stored.has(doc._id.toString())).length,
+    }),
+  } as unknown as Db;
+  return { db, docs, stored };
+}
+
+describe("backfillStructuredFields", () => {
+  beforeEach(() => {
+    generateText.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("leaves documents pending when the provider fails", async () => {
+    generateText.mockRejectedValue(
+      new LLMError("External search service unavailable", 503)
+    );
+    const { db, stored } = fakeDb(2);
+
+    const summary = await backfillStructuredFields(db, {
+      collection: "Tender",
+    });
+
+    expect(summary).toMatchObject({
+      processed: 2,
+      extracted: 0,
+      failed: 2,
+      remaining: 2,
+    });
+    expect(stored.size).toBe(0);
+  });
+
+  it("falls back to label matching for unparseable output", async () => {
+    generateText.mockResolvedValue('{"estimatedCost": "Rs. 9 lakh", oops}');
+    const { db, docs, stored } = fakeDb(1);
+
+    const summary = await backfillStructuredFields(db, {
+      collection: "Tender",
+    });
+
+    expect(summary).toMatchObject({ extracted: 1, failed: 0, remaining: 0 });
+    expect(stored.get(docs[0]._id.toString())?.tender).toMatchObject({
+      estimatedCost: 450000,
+      issuingOffice:
+        "Office of the Chief Engineer, Roads and Bridges Department",
+    });
+  });
+
+  it("caps the batch size", async () => {
+    generateText.mockResolvedValue("{}");
+    const { db } = fakeDb(40);
+
+    const summary = await backfillStructuredFields(db, {
+      collection: "Tender",
+      limit: 1000,
+    });
+
+    expect(summary.processed).toBe(25);
+    expect(summary.remaining).toBe(15);
+  });
+});
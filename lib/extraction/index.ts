@@ -0,0 +1,170 @@
+import { Db } from "mongodb";
+import { AllowedCollection, MongoDocument } from "@/lib/documents";
+import { LLMError } from "@/lib/llm";
+import { extractEmploymentDetails } from "./employment";
+import { extractTenderDetails } from "./tender";
+
+export {
+  AMOUNT_PATTERN,
+  DATE_PATTERN,
+  DATE_TIME_PATTERN,
+  findLabelled,
+  parseAmount,
+  parseDocumentDate,
+} from "./parse";
+export { extractTenderDetails, findTenderDetails } from "./tender";
+export {
+  extractEmploymentDetails,
+  findEmploymentDetails,
+  qualificationLevel,
+} from "./employment";
+
+/**
+ * STRUCTURED FIELD CONSTANTS
+ * Which field each collection's extracted details are stored under, and
+ * how many documents one backfill request may process
+ */
+export const STRUCTURED_FIELDS = {
+  Tender: "tender",
+  EmploymentNotice: "employment",
+} as const satisfies Partial<Record<AllowedCollection, keyof MongoDocument>>;
+
+export type StructuredCollection = keyof typeof STRUCTURED_FIELDS;
+
+const BACKFILL_LIMITS = {
+  // Each document is one LLM call (with retries), so batches stay small
+  // enough to finish within a request
+  DEFAULT_BATCH: 10,
+  MAX_BATCH: 25,
+} as const;
+
+export type StructuredFields = Pick<
+  MongoDocument,
+  (typeof STRUCTURED_FIELDS)[StructuredCollection]
+>;
+
+export interface BackfillOptions {
+  collection: StructuredCollection;
+  limit?: number;
+}
+
+export interface BackfillSummary {
+  collection: StructuredCollection;
+  processed: number;
+  // Documents where at least one field was found
+  extracted: number;
+  failed: number;
+  // Documents still waiting for extraction
+  remaining: number;
+}
+
+export function hasStructuredFields(
+  collection: string
+): collection is StructuredCollection {
+  return Object.prototype.hasOwnProperty.call(STRUCTURED_FIELDS, collection);
+}
+
+// Text the fields are read from: the title often carries the reference
+function extractionText(doc: Partial<MongoDocument>): string {
+  return [doc.title, doc.content || doc.summary].filter(Boolean).join("\n");
+}
+
+/**
+ * STRUCTURED FIELD EXTRACTION
+ * Responsible for: Reading typed fields out of a document's free text
+ * - Tender: reference number, estimated cost, EMD, bid dates, office
+ * - EmploymentNotice: posts, vacancies, qualification, age limits, pay,
+ *   application deadline
+ * - Collections without structured fields give {}
+ */
+export async function extractStructuredFields(
+  collection: AllowedCollection,
+  doc: Partial<MongoDocument>
+): Promise<Partial<StructuredFields>> {
+  switch (collection) {
+    case "Tender":
+      return { tender: await extractTenderDetails(extractionText(doc)) };
+    case "EmploymentNotice":
+      return {
+        employment: await extractEmploymentDetails(extractionText(doc)),
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * DEFERRABLE EXTRACTION
+ * Responsible for: Extracting fields while a document is stored or edited
+ * - A provider failure (LLMError) gives {} instead of failing the upload or
+ *   edit; the fields stay unset for backfillStructuredFields to extract later
+ */
+export async function extractStructuredFieldsOrDefer(
+  collection: AllowedCollection,
+  doc: Partial<MongoDocument>
+): Promise<Partial<StructuredFields>> {
+  try {
+    return await extractStructuredFields(collection, doc);
+  } catch (error) {
+    if (!(error instanceof LLMError)) throw error;
+    console.error(
+      `⏳ Deferring ${collection} field extraction to backfill:`,
+      error
+    );
+    return {};
+  }
+}
+
+/**
+ * STRUCTURED FIELD BACKFILL
+ * Responsible for: Extracting fields for documents stored before extraction
+ * existed
+ * - Processes one batch per call so a request never runs for long; call
+ *   again until `remaining` is 0
+ * - Documents with nothing recognisable are stored with {} so they aren't
+ *   retried forever
+ * - A provider failure leaves the document pending and counts it in
+ *   `failed`, so the next call retries it
+ */
+export async function backfillStructuredFields(
+  db: Db,
+  { collection, limit }: BackfillOptions
+): Promise<BackfillSummary> {
+  const field = STRUCTURED_FIELDS[collection];
+  const batch = Math.min(
+    Math.max(Math.floor(limit ?? BACKFILL_LIMITS.DEFAULT_BATCH), 1),
+    BACKFILL_LIMITS.MAX_BATCH
+  );
+  const documents = db.collection<MongoDocument>(collection);
+  const pending = { [field]: { $exists: false } };
+  const summary: BackfillSummary = {
+    collection,
+    processed: 0,
+    extracted: 0,
+    failed: 0,
+    remaining: 0,
+  };
+
+  const cursor = documents
+    .find(pending, { projection: { title: 1, content: 1, summary: 1 } })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(batch);
+
+  for await (const doc of cursor) {
+    summary.processed++;
+    try {
+      const fields = await extractStructuredFields(collection, doc);
+      await documents.updateOne({ _id: doc._id }, { $set: fields });
+      if (Object.keys(fields[field] ?? {}).length > 0) summary.extracted++;
+    } catch (error) {
+      console.error(
+        `❌ Extraction failed for ${collection}/${doc._id}:`,
+        error
+      );
+      summary.failed++;
+    }
+  }
+
+  summary.remaining = await documents.countDocuments(pending);
+  return summary;
+}
@@ -0,0 +1,205 @@
+/**
+ * VALUE PARSING
+ * Responsible for: Reading amounts and dates as they are written in
+ * Sikkim government notices
+ * - Amounts: "Rs. 12,34,567/-", "₹ 4.5 lakh", "INR 1.2 crore"
+ * - Dates are day-first: "15/03/2024", "15.03.2024 at 3:00 PM",
+ *   "15th March, 2024", plus "March 15, 2024" and ISO dates
+ * - Times without a zone are Indian Standard Time
+ * - Plus small helpers shared by the extractors for cleaning up values
+ */
+
+// IST is UTC+05:30 all year
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const MONTH_NAME =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+// Source of a regex matching one written date, for use inside label patterns
+export const DATE_PATTERN = [
+  "\\d{4}-\\d{2}-\\d{2}(?:T\\d{2}:\\d{2}(?::\\d{2})?)?",
+  "\\d{1,2}[/.\\-]\\d{1,2}[/.\\-]\\d{2,4}",
+  `\\d{1,2}(?:st|nd|rd|th)?[\\s\\-]+${MONTH_NAME},?[\\s\\-]+\\d{4}`,
+  `${MONTH_NAME}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`,
+].join("|");
+
+// Optional time after a date: "at 3:00 PM", "upto 17.00 hrs", "(11:30)"
+const TIME_PATTERN =
+  "(?:\\s*(?:,|at|upto|up\\s+to|by|till|\\(|-)?\\s*(\\d{1,2})[:.](\\d{2})\\s*(a\\.?m\\.?|p\\.?m\\.?|hrs?|hours)?)?";
+
+// A date with its optional time, for use inside label patterns
+export const DATE_TIME_PATTERN = `(?:${DATE_PATTERN})(?:\\s*(?:,|at|upto|up\\s+to|by|till|\\(|-)?\\s*\\d{1,2}[:.]\\d{2}\\s*(?:a\\.?m\\.?|p\\.?m\\.?|hrs?|hours)?)?`;
+
+const AMOUNT_UNIT = "(?:crores?|cr\\.?|lakhs?|lacs?|lac)";
+
+// Source of a regex matching an amount that reads as money: a currency
+// marker, a unit, "/-", digit grouping or at least four digits, so serial
+// numbers and percentages in tables aren't taken for amounts
+export const AMOUNT_PATTERN = `(?:(?:rs\\.?|inr|₹)\\s*\\d[\\d,]*(?:\\.\\d+)?|\\d[\\d,]*(?:\\.\\d+)?(?=\\s*(?:${AMOUNT_UNIT}|/-))|\\d{1,3}(?:,\\d{2,3})+(?:\\.\\d+)?|\\d{4,}(?:\\.\\d+)?)\\s*${AMOUNT_UNIT}?(?:\\s*/-)?`;
+
+const AMOUNT_MULTIPLIERS: [RegExp, number][] = [
+  [/^(?:crores?|cr\.?)$/i, 10_000_000],
+  [/^(?:lakhs?|lacs?|lac)$/i, 100_000],
+];
+
+/**
+ * AMOUNT PARSING
+ * Returns rupees as a number, or undefined when no amount is found
+ * - Numbers are passed through when finite and non-negative
+ */
+export function parseAmount(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const match = value.match(
+    /(\d[\d,]*(?:\.\d+)?)\s*(crores?|cr\.?|lakhs?|lacs?|lac)?/i
+  );
+  if (!match) return undefined;
+  const amount = parseFloat(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(amount)) return undefined;
+  const multiplier =
+    AMOUNT_MULTIPLIERS.find(([unit]) => match[2] && unit.test(match[2]))?.[1] ??
+    1;
+  return Math.round(amount * multiplier * 100) / 100;
+}
+
+function istDate(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  endOfDay: boolean
+): Date | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  const [h, m, s, ms] =
+    hours >= 0
+      ? [hours, minutes, 0, 0]
+      : endOfDay
+      ? [23, 59, 59, 999]
+      : [0, 0, 0, 0];
+  const utc = Date.UTC(year, month - 1, day, h, m, s, ms);
+  // Reject dates that rolled over, e.g. 31/02
+  if (new Date(utc).getUTCDate() !== day) return undefined;
+  return new Date(utc - IST_OFFSET_MS);
+}
+
+/**
+ * DATE PARSING
+ * Returns the first date written in `value`, or undefined
+ * - Without a time, the date means the start of that day, or its end
+ *   with `endOfDay` (for deadlines)
+ */
+export function parseDocumentDate(
+  value: unknown,
+  { endOfDay = false }: { endOfDay?: boolean } = {}
+): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const match = value.match(
+    new RegExp(`(${DATE_PATTERN})${TIME_PATTERN}`, "i")
+  );
+  if (!match) return undefined;
+  const [, date, hourText, minuteText, meridiem] = match;
+
+  let hours = hourText ? Number(hourText) : -1;
+  const minutes = minuteText ? Number(minuteText) : 0;
+  if (meridiem && /^p/i.test(meridiem) && hours < 12) hours += 12;
+  if (meridiem && /^a/i.test(meridiem) && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) hours = -1;
+
+  let parts: RegExpMatchArray | null;
+  if ((parts = date.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/))) {
+    const [, year, month, day, isoHours, isoMinutes] = parts;
+    return istDate(
+      Number(year),
+      Number(month),
+      Number(day),
+      isoHours ? Number(isoHours) : hours,
+      isoHours ? Number(isoMinutes) : minutes,
+      endOfDay
+    );
+  }
+  if ((parts = date.match(/^(\d{1,2})[/.\-](\d{1,2})[/.\-](\d{2,4})$/))) {
+    const year = Number(parts[3]);
+    return istDate(
+      year < 100 ? 2000 + year : year,
+      Number(parts[2]),
+      Number(parts[1]),
+      hours,
+      minutes,
+      endOfDay
+    );
+  }
+
+  const day = date.match(/\b(\d{1,2})(?:st|nd|rd|th)?\b/)?.[1];
+  const month = date.match(/[a-z]{3}/i)?.[0].toLowerCase();
+  const year = date.match(/\d{4}/)?.[0];
+  if (!day || !month || !year) return undefined;
+  return istDate(
+    Number(year),
+    MONTHS.indexOf(month) + 1,
+    Number(day),
+    hours,
+    minutes,
+    endOfDay
+  );
+}
+
+/**
+ * LABELLED VALUES
+ * Finds the value written shortly after a label, e.g. the date after
+ * "Last date of submission"; tables extracted from PDFs often put the
+ * value on the next line, so the gap may span lines
+ */
+export function findLabelled(
+  text: string,
+  label: string,
+  value: string,
+  maxGap: number = 80
+): string | undefined {
+  return text.match(
+    new RegExp(`(?:${label})[^\\d₹]{0,${maxGap}}?(${value})`, "i")
+  )?.[1];
+}
+
+// Single-line text with stray punctuation trimmed; undefined when empty or
+// too long to be the value asked for
+export function cleanText(
+  value: unknown,
+  maxChars: number
+): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const cleaned = value
+    .replace(/\s+/g, " ")
+    .replace(/^[\s:.\-–|]+|[\s,;.|]+$/g, "")
+    .trim();
+  return cleaned && cleaned.length <= maxChars ? cleaned : undefined;
+}
+
+// Drop missing fields so stored records only carry what was found
+export function compact<T extends object>(details: T): T {
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined)
+  ) as T;
+}
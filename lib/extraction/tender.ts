@@ -0,0 +1,118 @@
+import { TenderDetails } from "@/lib/documents";
+import { getLLMProvider } from "@/lib/llm";
+import {
+  AMOUNT_PATTERN,
+  cleanText,
+  compact,
+  DATE_TIME_PATTERN,
+  findLabelled,
+  parseAmount,
+  parseDocumentDate,
+} from "./parse";
+
+/**
+ * TENDER EXTRACTION CONSTANTS
+ * How much of the notice is read; the fields sit in the first pages
+ */
+const TENDER_LIMITS = {
+  SAMPLE_CHARS: 6000,
+  MAX_REFERENCE_CHARS: 80,
+  MAX_OFFICE_CHARS: 150,
+} as const;
+
+// Labels as they appear in Sikkim tender notices
+const TENDER_LABELS = {
+  tenderNumber:
+    "\\b(?:e-?)?(?:nit|tender|notice inviting tenders?)\\s*(?:ref(?:erence)?\\.?\\s*)?(?:no\\.?|number)",
+  estimatedCost:
+    "estimated\\s+(?:cost|value|amount)|approximate\\s+cost|cost\\s+of\\s+(?:the\\s+)?work|tender\\s+value",
+  emd: "earnest\\s+money(?:\\s+deposit)?|e\\.?m\\.?d\\.?|bid\\s+security",
+  bidStartDate:
+    "(?:bid|tender)\\s+(?:submission\\s+)?start\\s+date|(?:start|commencement)\\s+(?:date\\s+)?(?:of|for)\\s+(?:bid|tender|submission|sale)|(?:sale|issue|download)\\s+of\\s+(?:bid|tender)\\s+documents?|date\\s+of\\s+(?:sale|issue)",
+  bidCloseDate:
+    "last\\s+date(?:\\s+and\\s+time)?\\s+(?:of|for)\\s+(?:the\\s+)?(?:submission|receipt|online\\s+submission)|(?:bid|tender)\\s+(?:submission\\s+)?(?:end|closing|due)\\s+date|closing\\s+date|due\\s+date|submission\\s+end\\s+date",
+} as const;
+
+/**
+ * HEURISTIC TENDER FIELDS
+ * Responsible for: Reading tender fields from their labels in the text
+ * - Used for whatever the LLM provider didn't return
+ * - Labels may be followed by ":", "-" or a table cell break
+ */
+export function findTenderDetails(text: string): TenderDetails {
+  const reference = text.match(
+    new RegExp(
+      `(?:${TENDER_LABELS.tenderNumber})\\s*[:.\\-]?\\s*([A-Z0-9][A-Z0-9/().\\-]*(?:\\s?[/\\-]\\s?[A-Z0-9().]+)*)`,
+      "i"
+    )
+  )?.[1];
+  const office = text.match(/(?:^|\n)\s*(office\s+of\s+the\s+[^\n]+)/i)?.[1];
+
+  return {
+    tenderNumber:
+      reference && /\d/.test(reference)
+        ? cleanText(reference, TENDER_LIMITS.MAX_REFERENCE_CHARS)
+        : undefined,
+    estimatedCost: parseAmount(
+      findLabelled(text, TENDER_LABELS.estimatedCost, AMOUNT_PATTERN)
+    ),
+    emd: parseAmount(findLabelled(text, TENDER_LABELS.emd, AMOUNT_PATTERN)),
+    bidStartDate: parseDocumentDate(
+      findLabelled(text, TENDER_LABELS.bidStartDate, DATE_TIME_PATTERN)
+    ),
+    bidCloseDate: parseDocumentDate(
+      findLabelled(text, TENDER_LABELS.bidCloseDate, DATE_TIME_PATTERN),
+      { endOfDay: true }
+    ),
+    issuingOffice: cleanText(office, TENDER_LIMITS.MAX_OFFICE_CHARS),
+  };
+}
+
+/**
+ * TENDER EXTRACTION
+ * Responsible for: Filling the typed fields of a tender from its text
+ * - Asks the LLM provider for the values as written, then parses them
+ *   here so amounts are rupees and dates are IST instants
+ * - Any field the provider misses or garbles falls back to label matching
+ * - Provider failures (LLMError) are thrown, so the document can be retried;
+ *   unparseable output falls back to label matching alone
+ */
+export async function extractTenderDetails(
+  text: string
+): Promise<TenderDetails> {
+  const sample = text.slice(0, TENDER_LIMITS.SAMPLE_CHARS);
+  const found = findTenderDetails(sample);
+  const prompt = `You are reading a Sikkim government tender notice.
+
+Notice text:
+${sample}
+
+Respond with only a JSON object with these fields, copying values as written in the notice and using "" when a value isn't stated:
+{"tenderNumber": string (NIT or tender reference number), "estimatedCost": string (estimated cost of the work, with its unit, e.g. "Rs. 4.5 lakh"), "emd": string (earnest money deposit or bid security), "bidStartDate": string (date and time bids can first be submitted or documents bought), "bidCloseDate": string (last date and time for submitting bids), "issuingOffice": string (office or department issuing the notice)}`;
+
+  const response = await getLLMProvider().generateText(prompt);
+  const json = response.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return compact(found);
+
+  try {
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    return compact({
+      tenderNumber:
+        cleanText(parsed.tenderNumber, TENDER_LIMITS.MAX_REFERENCE_CHARS) ??
+        found.tenderNumber,
+      estimatedCost: parseAmount(parsed.estimatedCost) ?? found.estimatedCost,
+      emd: parseAmount(parsed.emd) ?? found.emd,
+      bidStartDate:
+        parseDocumentDate(parsed.bidStartDate) ?? found.bidStartDate,
+      bidCloseDate:
+        parseDocumentDate(parsed.bidCloseDate, { endOfDay: true }) ??
+        found.bidCloseDate,
+      issuingOffice:
+        cleanText(parsed.issuingOffice, TENDER_LIMITS.MAX_OFFICE_CHARS) ??
+        found.issuingOffice,
+    });
+  } catch (error) {
+    console.error("Unparseable tender details from the provider:", error);
+    return compact(found);
+  }
+}
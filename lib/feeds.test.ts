@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { Feed, renderFeed } from "./feeds";
+
+const APP_URL = "https://docs.example";
+
+const feed: Feed = {
+  title: "Roads & Bridges · SikkimDoc Finder",
+  description: "New documents from Roads & Bridges, Government of Sikkim",
+  selfUrl: "https://docs.example/feeds/rss/department/Roads%20&%20Bridges",
+  entries: [
+    {
+      _id: "t1",
+      collection: "Tender",
+      title: 'NIT <12> for "Namchi" road\'s repair',
+      summary: "Cost < Rs. 5 lakh & more\u0007",
+      department: "Roads & Bridges",
+      createdAt: "2024-03-01T10:00:00.000Z",
+      fileType: "PDF",
+      supabase: { url: "https://storage.example/t1.pdf" },
+    },
+    {
+      _id: "n1",
+      collection: "NotificationCircular",
+      name: "Holiday list",
+      createdAt: "2024-02-01T10:00:00.000Z",
+      fileType: "constructor",
+      aws: { bucket: "docs", key: "n1.docx" },
+    },
+    { _id: "u1", collection: "Tender" },
+  ],
+};
+
+describe("renderFeed", () => {
+  describe("rss", () => {
+    const { body, contentType } = renderFeed(feed, "rss", APP_URL);
+
+    it("is served as RSS", () => {
+      expect(contentType).toBe("application/rss+xml; charset=utf-8");
+      expect(body.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(
+        true
+      );
+      expect(body).toContain(
+        '<atom:link href="https://docs.example/feeds/rss/department/Roads%20&amp;%20Bridges" rel="self" type="application/rss+xml"/>'
+      );
+    });
+
+    it("escapes text and drops characters XML can't carry", () => {
+      expect(body).toContain(
+        "<title>Roads &amp; Bridges · SikkimDoc Finder</title>"
+      );
+      expect(body).toContain(
+        "<title>NIT &lt;12&gt; for &quot;Namchi&quot; road&apos;s repair</title>"
+      );
+      expect(body).not.toContain("\u0007");
+    });
+
+    it("escapes the HTML description once more", () => {
+      expect(body).toContain(
+        "<description>&lt;p&gt;Cost &amp;lt; Rs. 5 lakh &amp;amp; more&lt;/p&gt;" +
+          "&lt;p&gt;&lt;a href=&quot;https://docs.example/api/documents/Tender/t1/download&quot;&gt;Download&lt;/a&gt;&lt;/p&gt;</description>"
+      );
+    });
+
+    it("identifies items by their document page", () => {
+      expect(body).toContain(
+        '<guid isPermaLink="true">https://docs.example/documents/Tender/t1</guid>'
+      );
+      expect(body).toContain(
+        "<pubDate>Fri, 01 Mar 2024 10:00:00 GMT</pubDate>"
+      );
+      expect(body).toContain("<category>Tenders</category>");
+      expect(body).toContain("<category>Roads &amp; Bridges</category>");
+    });
+
+    it("renders entries without a date, file or summary", () => {
+      const untitled = body.slice(body.lastIndexOf("<item>"));
+      expect(untitled).toContain("<title>Untitled</title>");
+      expect(untitled).not.toContain("<pubDate>");
+      expect(untitled).not.toContain("<description>");
+    });
+  });
+
+  describe("atom", () => {
+    const { body, contentType } = renderFeed(feed, "atom", APP_URL);
+
+    it("is served as Atom, updated with its newest entry", () => {
+      expect(contentType).toBe("application/atom+xml; charset=utf-8");
+      expect(body).toContain(
+        "<id>https://docs.example/feeds/rss/department/Roads%20&amp;%20Bridges</id>"
+      );
+      expect(body).toContain("<updated>2024-03-01T10:00:00.000Z</updated>");
+    });
+
+    it("links downloads as enclosures with their file type", () => {
+      expect(body).toContain(
+        '<link rel="enclosure" type="application/pdf" href="https://docs.example/api/documents/Tender/t1/download"/>'
+      );
+      // Inherited object keys aren't file types
+      expect(body).toContain(
+        '<link rel="enclosure" href="https://docs.example/api/documents/NotificationCircular/n1/download"/>'
+      );
+    });
+
+    it("escapes summaries and category terms", () => {
+      expect(body).toContain(
+        '<summary type="text">Cost &lt; Rs. 5 lakh &amp; more</summary>'
+      );
+      expect(body).toContain('<category term="Roads &amp; Bridges"/>');
+      expect(body).toContain('<category term="Notifications and circulars"/>');
+    });
+
+    it("dates undated entries with the feed", () => {
+      const untitled = body.slice(body.lastIndexOf("<entry>"));
+      expect(untitled).toContain("<updated>2024-03-01T10:00:00.000Z</updated>");
+      expect(untitled).not.toContain("<published>");
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import { Db } from "mongodb";
+import {
+  ALLOWED_COLLECTIONS,
+  AllowedCollection,
+  isAllowedCollection,
+} from "@/lib/documents";
+import { SUPPORTED_FILE_TYPES } from "@/lib/ingestion";
+import {
+  aggregatePage,
+  buildFilterMatch,
+  parseSearchRequest,
+  searchDocuments,
+  SearchResult,
+} from "@/lib/search";
+
+/**
+ * FEED CONSTANTS
+ * Formats served under /feeds and the size of one feed
+ */
+export const FEED_FORMATS = ["rss", "atom"] as const;
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
+const FEED_LIMITS = {
+  ENTRIES: 50,
+} as const;
+
+const SITE_NAME = "SikkimDoc Finder";
+
+const COLLECTION_TITLES: Record<AllowedCollection, string> = {
+  EmploymentNotice: "Employment notices",
+  NotificationCircular: "Notifications and circulars",
+  Tender: "Tenders",
+};
+
+export class FeedError extends Error {
+  constructor(message: string, public statusCode: number = 404) {
+    super(message);
+    this.name = "FeedError";
+  }
+}
+
+// A feed ready to render: its description plus entries, newest first
+export interface Feed {
+  title: string;
+  description: string;
+  // URL of the feed itself, as requested
+  selfUrl: string;
+  entries: SearchResult[];
+}
+
+export function parseFeedFormat(value: string): FeedFormat {
+  const format = FEED_FORMATS.find((candidate) => candidate === value);
+  if (!format) {
+    throw new FeedError(
+      `Unknown feed format "${value}". Use: ${FEED_FORMATS.join(", ")}`
+    );
+  }
+  return format;
+}
+
+// Public base URL: APP_URL when set, else the origin the request came to
+export function feedAppUrl(requestOrigin: string): string {
+  return (process.env.APP_URL || requestOrigin).replace(/\/+$/, "");
+}
+
+function toDate(value: SearchResult["createdAt"]): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Newest first; ranked search tiers arrive in relevance order
+function byCreatedAt(entries: SearchResult[]): SearchResult[] {
+  return [...entries].sort(
+    (a, b) =>
+      (toDate(b.createdAt)?.getTime() ?? 0) -
+      (toDate(a.createdAt)?.getTime() ?? 0)
+  );
+}
+
+// The newest documents of one collection
+export async function collectionFeed(
+  db: Db,
+  collection: string,
+  selfUrl: string
+): Promise<Feed> {
+  if (!isAllowedCollection(collection)) {
+    throw new FeedError(
+      `Unknown collection "${collection}". Use: ${ALLOWED_COLLECTIONS.join(
+        ", "
+      )}`
+    );
+  }
+  const { results } = await aggregatePage(
+    db,
+    [{ $match: {} }],
+    { skip: 0, limit: FEED_LIMITS.ENTRIES, sort: "newest" },
+    [collection]
+  );
+  return {
+    title: `${COLLECTION_TITLES[collection]} · ${SITE_NAME}`,
+    description: `New ${COLLECTION_TITLES[
+      collection
+    ].toLowerCase()} from the Government of Sikkim`,
+    selfUrl,
+    entries: results,
+  };
+}
+
+// The newest documents of one department, across every collection
+export async function departmentFeed(
+  db: Db,
+  department: string,
+  selfUrl: string
+): Promise<Feed> {
+  const { results, total } = await aggregatePage(
+    db,
+    [{ $match: buildFilterMatch({ department }) }],
+    { skip: 0, limit: FEED_LIMITS.ENTRIES, sort: "newest" }
+  );
+  if (total === 0) {
+    throw new FeedError(`No documents from department "${department}"`);
+  }
+  return {
+    title: `${department} · ${SITE_NAME}`,
+    description: `New documents from ${department}, Government of Sikkim`,
+    selfUrl,
+    entries: results,
+  };
+}
+
+/**
+ * SEARCH FEED
+ * Responsible for: The newest documents matching a search
+ * - Query parameters: q (required), collection (repeatable), department,
+ *   validated like a search request (400 SearchError when invalid)
+ * - Runs the regular tiered search, then orders the matches by date
+ */
+export async function searchFeed(
+  db: Db,
+  params: URLSearchParams,
+  selfUrl: string
+): Promise<Feed> {
+  const collections = params.getAll("collection");
+  const department = params.get("department");
+  const request = parseSearchRequest({
+    query: params.get("q") ?? undefined,
+    filters: {
+      ...(collections.length > 0 && { collections }),
+      ...(department && { department }),
+    },
+  });
+
+  const outcome = await searchDocuments(db, {
+    query: request.query,
+    pageSize: FEED_LIMITS.ENTRIES,
+    sort: "newest",
+    filters: request.filters,
+    facets: false,
+    spelling: false,
+  });
+  return {
+    title: `"${request.query}" · ${SITE_NAME}`,
+    description: `New Government of Sikkim documents matching "${request.query}"`,
+    selfUrl,
+    entries: byCreatedAt(outcome.results),
+  };
+}
+
+// Characters XML 1.0 can't carry, which PDF text sometimes contains
+const INVALID_XML_CHARS =
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Links and text for one entry, shared by both formats
+interface EntryParts {
+  title: string;
+  link: string;
+  download?: string;
+  downloadType?: string;
+  summary: string;
+  date?: Date;
+  categories: string[];
+}
+
+function entryParts(entry: SearchResult, appUrl: string): EntryParts {
+  const link = `${appUrl}/documents/${entry.collection}/${entry._id}`;
+  const hasFile = Boolean(
+    entry.supabase?.url || (entry.aws?.bucket && entry.aws.key)
+  );
+  const fileType = entry.fileType?.toLowerCase();
+  return {
+    title: entry.title || entry.name || "Untitled",
+    link,
+    download: hasFile
+      ? `${appUrl}/api/documents/${entry.collection}/${entry._id}/download`
+      : undefined,
+    downloadType:
+      fileType && Object.hasOwn(SUPPORTED_FILE_TYPES, fileType)
+        ? SUPPORTED_FILE_TYPES[fileType as keyof typeof SUPPORTED_FILE_TYPES]
+        : undefined,
+    summary: entry.summary || entry.content?.slice(0, 400) || "",
+    date: toDate(entry.createdAt),
+    categories: [
+      entry.collection && isAllowedCollection(entry.collection)
+        ? COLLECTION_TITLES[entry.collection]
+        : undefined,
+      entry.department,
+    ].filter((value): value is string => Boolean(value)),
+  };
+}
+
+function renderRss(feed: Feed, appUrl: string): string {
+  const items = feed.entries.map((entry) => {
+    const parts = entryParts(entry, appUrl);
+    // Readers show the description as HTML, so it is escaped twice over
+    const html = [
+      parts.summary && `<p>${escapeXml(parts.summary)}</p>`,
+      parts.download &&
+        `<p><a href="${escapeXml(parts.download)}">Download</a></p>`,
+    ]
+      .filter(Boolean)
+      .join("");
+    return [
+      "    <item>",
+      `      <title>${escapeXml(parts.title)}</title>`,
+      `      <link>${escapeXml(parts.link)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(parts.link)}</guid>`,
+      parts.date && `      <pubDate>${parts.date.toUTCString()}</pubDate>`,
+      ...parts.categories.map(
+        (category) => `      <category>${escapeXml(category)}</category>`
+      ),
+      html && `      <description>${escapeXml(html)}</description>`,
+      "    </item>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(appUrl)}/</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>en-in</language>
+    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(
+      feed.selfUrl
+    )}" rel="self" type="application/rss+xml"/>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed, appUrl: string): string {
+  const newest = feed.entries
+    .map((entry) => toDate(entry.createdAt))
+    .find((date): date is Date => date !== undefined);
+  const updated = (newest ?? new Date()).toISOString();
+
+  const entries = feed.entries.map((entry) => {
+    const parts = entryParts(entry, appUrl);
+    return [
+      "  <entry>",
+      `    <id>${escapeXml(parts.link)}</id>`,
+      `    <title>${escapeXml(parts.title)}</title>`,
+      `    <updated>${parts.date?.toISOString() ?? updated}</updated>`,
+      parts.date && `    <published>${parts.date.toISOString()}</published>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(
+        parts.link
+      )}"/>`,
+      parts.download &&
+        `    <link rel="enclosure"${
+          parts.downloadType ? ` type="${parts.downloadType}"` : ""
+        } href="${escapeXml(parts.download)}"/>`,
+      ...parts.categories.map(
+        (category) => `    <category term="${escapeXml(category)}"/>`
+      ),
+      parts.summary &&
+        `    <summary type="text">${escapeXml(parts.summary)}</summary>`,
+      "  </entry>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.selfUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <updated>${updated}</updated>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(
+    feed.selfUrl
+  )}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(appUrl)}/"/>
+  <author><name>${SITE_NAME}</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+/**
+ * FEED RENDERING
+ * Responsible for: Writing a feed as RSS 2.0 or Atom 1.0
+ * - Each entry links to the document page, with its download link as an
+ *   RSS description link or an Atom enclosure
+ * - Entries are identified by their document page URL, which never changes
+ */
+export function renderFeed(
+  feed: Feed,
+  format: FeedFormat,
+  appUrl: string
+): { body: string; contentType: string } {
+  return format === "atom"
+    ? {
+        body: renderAtom(feed, appUrl),
+        contentType: "application/atom+xml; charset=utf-8",
+      }
+    : {
+        body: renderRss(feed, appUrl),
+        contentType: "application/rss+xml; charset=utf-8",
+      };
+}
@@ -0,0 +1,96 @@
+import { Db, ObjectId } from "mongodb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AllowedCollection } from "@/lib/documents";
+import { LLMError } from "@/lib/llm/types";
+import { ingestDocument } from "./ingestion";
+
+const NOTICE = `Office of the Chief Engineer, Roads and Bridges Department
+NIT No. 12/RBD/2024-25
+Estimated cost: Rs. 4,50,000
+Last date for submission: 15/03/2025`;
+
+const provider = {
+  generateText: vi.fn<(prompt: string) => Promise<string>>(),
+  generateEmbedding: vi.fn(async () => [1, 0, 0]),
+};
+const storage = vi.hoisted(() => ({
+  uploadFile: vi.fn(),
+  removeFile: vi.fn(),
+}));
+
+vi.mock("mammoth", () => ({
+  default: { extractRawText: async () => ({ value: NOTICE }) },
+}));
+vi.mock("@/lib/llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  getLLMProvider: () => provider,
+}));
+vi.mock("@/lib/storage", () => storage);
+vi.mock("@/lib/vector", () => ({
+  getVectorIndex: () => ({ upsert: () => {} }),
+}));
+
+// Records inserted documents, or fails every insert
+function fakeDb({ failInsert = false } = {}) {
+  const inserted: Array<Record<string, unknown>> = [];
+  const db = {
+    collection: () => ({
+      insertOne: async (doc: Record<string, unknown>) => {
+        if (failInsert) throw new Error("insert failed");
+        inserted.push(doc);
+        return { insertedId: new ObjectId() };
+      },
+    }),
+  } as unknown as Db;
+  return { db, inserted };
+}
+
+const upload = (db: Db, collection: AllowedCollection = "Tender") =>
+  ingestDocument(db, {
+    data: Buffer.from("docx bytes"),
+    fileName: "nit-12.docx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    collection,
+  });
+
+describe("ingestDocument", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    provider.generateText.mockRejectedValue(
+      new LLMError("External search service unavailable", 503)
+    );
+    storage.uploadFile.mockResolvedValue({
+      filePath: "Tender/1-nit-12.docx",
+      url: "https://storage.example/Tender/1-nit-12.docx",
+    });
+    storage.removeFile.mockReset().mockResolvedValue(undefined);
+  });
+
+  it("stores a tender without its fields when the provider is down", async () => {
+    const { db, inserted } = fakeDb();
+
+    const document = await upload(db);
+
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0]).not.toHaveProperty("tender");
+    expect(document.content).toBe(NOTICE);
+  });
+
+  it("stores an employment notice without its fields when the provider is down", async () => {
+    const { db, inserted } = fakeDb();
+
+    await upload(db, "EmploymentNotice");
+
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0]).not.toHaveProperty("employment");
+  });
+
+  it("removes the stored file when the insert fails", async () => {
+    const { db } = fakeDb({ failInsert: true });
+
+    await expect(upload(db)).rejects.toThrow("insert failed");
+    expect(storage.removeFile).toHaveBeenCalledWith("Tender/1-nit-12.docx");
+  });
+});
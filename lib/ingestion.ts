@@ -0,0 +1,293 @@
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+import { Db } from "mongodb";
+import { getLLMProvider } from "@/lib/llm";
+import { AllowedCollection, MongoDocument } from "@/lib/documents";
+import { extractStructuredFieldsOrDefer } from "@/lib/extraction";
+import { removeFile, uploadFile } from "@/lib/storage";
+import { getVectorIndex } from "@/lib/vector";
+
+/**
+ * INGESTION CONSTANTS
+ * Supported upload formats and limits for generated metadata
+ */
+export const SUPPORTED_FILE_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+} as const;
+
+export type SupportedFileType = keyof typeof SUPPORTED_FILE_TYPES;
+
+const INGESTION_LIMITS = {
+  MAX_FILE_BYTES: 20 * 1024 * 1024,
+  METADATA_SAMPLE_CHARS: 6000,
+  EMBEDDING_CHARS: 8000,
+  SUMMARY_CHARS: 400,
+  MAX_KEYWORDS: 10,
+} as const;
+
+export class IngestionError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "IngestionError";
+  }
+}
+
+export interface IngestRequest {
+  data: Buffer;
+  fileName: string;
+  mimeType?: string;
+  collection: AllowedCollection;
+  // Optional overrides for the generated metadata
+  title?: string;
+  department?: string;
+}
+
+interface GeneratedMetadata {
+  title: string;
+  summary: string;
+  categories: string[];
+  keywords: string[];
+  department: string;
+}
+
+/**
+ * FILE TYPE DETECTION
+ * Resolves the upload to a supported type from its extension or MIME type
+ */
+export function detectFileType(
+  fileName: string,
+  mimeType?: string
+): SupportedFileType | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "pdf" || mimeType === SUPPORTED_FILE_TYPES.pdf) {
+    return "pdf";
+  }
+  if (extension === "docx" || mimeType === SUPPORTED_FILE_TYPES.docx) {
+    return "docx";
+  }
+  return null;
+}
+
+/**
+ * TEXT EXTRACTION
+ * Responsible for: Pulling plain text out of uploaded files
+ * - PDF via unpdf (pages merged into one string)
+ * - DOCX via mammoth's raw text extraction
+ */
+export async function extractDocumentText(
+  data: Buffer,
+  fileType: SupportedFileType
+): Promise<string> {
+  try {
+    if (fileType === "pdf") {
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      const { text } = await extractText(pdf, { mergePages: true });
+      return text.trim();
+    }
+
+    const { value } = await mammoth.extractRawText({ buffer: data });
+    return value.trim();
+  } catch (error) {
+    console.error(`Failed to extract ${fileType} text:`, error);
+    throw new IngestionError(`Could not read ${fileType.toUpperCase()} file`);
+  }
+}
+
+/**
+ * EMBEDDING TEXT
+ * Builds the text a document is embedded from, so ingestion and any later
+ * re-embedding produce comparable vectors
+ */
+export function buildEmbeddingText(
+  doc: Pick<MongoDocument, "title" | "summary" | "keywords" | "content">
+): string {
+  return [doc.title, doc.summary, doc.keywords?.join(", "), doc.content]
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, INGESTION_LIMITS.EMBEDDING_CHARS);
+}
+
+// Heuristic metadata used when the provider response can't be parsed
+function fallbackMetadata(text: string, fileName: string): GeneratedMetadata {
+  const firstLine =
+    text
+      .split("\n")
+      .map((line) => line.trim())
+      .find((line) => line.length > 0) ?? "";
+  const title =
+    firstLine.slice(0, 150) ||
+    fileName.replace(/\.[^/.]+$/, "").replace(/_/g, " ");
+
+  // Most frequent longer words make reasonable keywords
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z]{5,}/g) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  const keywords = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, INGESTION_LIMITS.MAX_KEYWORDS)
+    .map(([word]) => word);
+
+  return {
+    title,
+    summary: text.replace(/\s+/g, " ").slice(0, INGESTION_LIMITS.SUMMARY_CHARS),
+    categories: [],
+    keywords,
+    department: "",
+  };
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((v): v is string => typeof v === "string")
+        .map((v) => v.trim())
+        .filter(Boolean)
+    : [];
+}
+
+/**
+ * METADATA GENERATION
+ * Responsible for: Filling title, summary, categories, keywords and department
+ * - Asks the LLM provider for a JSON description of the document text
+ * - Falls back to heuristics when the provider fails or returns invalid JSON
+ */
+async function generateMetadata(
+  text: string,
+  fileName: string,
+  collection: AllowedCollection
+): Promise<GeneratedMetadata> {
+  const fallback = fallbackMetadata(text, fileName);
+  const prompt = `You are cataloguing a Sikkim government document for a search portal. It will be stored in the "${collection}" collection.
+
+Document text:
+${text.slice(0, INGESTION_LIMITS.METADATA_SAMPLE_CHARS)}
+
+Respond with only a JSON object with these fields:
+{"title": string, "summary": string (2-3 sentences), "categories": string[] (1-3 items), "keywords": string[] (5-10 items), "department": string (issuing department, or "" if unknown)}`;
+
+  try {
+    const response = await getLLMProvider().generateText(prompt);
+    const json = response.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) return fallback;
+
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    const categories = toStringArray(parsed.categories);
+    const keywords = toStringArray(parsed.keywords);
+    return {
+      title:
+        typeof parsed.title === "string" && parsed.title.trim()
+          ? parsed.title.trim()
+          : fallback.title,
+      summary:
+        typeof parsed.summary === "string" && parsed.summary.trim()
+          ? parsed.summary.trim()
+          : fallback.summary,
+      categories: categories.length > 0 ? categories : fallback.categories,
+      keywords:
+        keywords.length > 0
+          ? keywords.slice(0, INGESTION_LIMITS.MAX_KEYWORDS)
+          : fallback.keywords,
+      department:
+        typeof parsed.department === "string" ? parsed.department.trim() : "",
+    };
+  } catch (error) {
+    console.error("Failed to generate document metadata:", error);
+    return fallback;
+  }
+}
+
+/**
+ * DOCUMENT INGESTION
+ * Responsible for: Turning an uploaded file into a searchable record
+ * - Validates type and size, then extracts text
+ * - Generates metadata and an embedding with the configured provider
+ * - Extracts typed fields for collections that have them (e.g. tenders);
+ *   when the provider is down they are left for the backfill
+ * - Stores the original file and inserts the record into the chosen
+ *   collection, removing the file again if the insert fails
+ */
+export async function ingestDocument(
+  db: Db,
+  request: IngestRequest
+): Promise<MongoDocument> {
+  const fileType = detectFileType(request.fileName, request.mimeType);
+  if (!fileType) {
+    throw new IngestionError("Only PDF and DOCX files are supported", 415);
+  }
+  if (request.data.length === 0) {
+    throw new IngestionError("Uploaded file is empty");
+  }
+  if (request.data.length > INGESTION_LIMITS.MAX_FILE_BYTES) {
+    throw new IngestionError("Uploaded file is too large", 413);
+  }
+
+  const content = await extractDocumentText(request.data, fileType);
+  if (!content) {
+    throw new IngestionError("No text could be extracted from the file", 422);
+  }
+
+  const metadata = await generateMetadata(
+    content,
+    request.fileName,
+    request.collection
+  );
+  const title = request.title?.trim() || metadata.title;
+  const department = request.department?.trim() || metadata.department;
+
+  const embedding = await getLLMProvider().generateEmbedding(
+    buildEmbeddingText({
+      title,
+      summary: metadata.summary,
+      keywords: metadata.keywords,
+      content,
+    })
+  );
+
+  const structured = await extractStructuredFieldsOrDefer(request.collection, {
+    title,
+    content,
+  });
+
+  const stored = await uploadFile(
+    request.collection,
+    request.fileName,
+    request.data,
+    SUPPORTED_FILE_TYPES[fileType]
+  );
+
+  const document: Omit<MongoDocument, "_id"> = {
+    title,
+    name: request.fileName.replace(/\.[^/.]+$/, ""),
+    content,
+    summary: metadata.summary,
+    categories: metadata.categories,
+    keywords: metadata.keywords,
+    department,
+    fileType,
+    embedding,
+    filePath: stored.filePath,
+    supabase: { url: stored.url },
+    createdAt: new Date(),
+    ...structured,
+  };
+
+  let insertedId: MongoDocument["_id"];
+  try {
+    ({ insertedId } = await db
+      .collection<Omit<MongoDocument, "_id">>(request.collection)
+      .insertOne(document));
+  } catch (error) {
+    // Don't leave a stored file that no document points at
+    await removeFile(stored.filePath).catch((cleanupError) =>
+      console.error("Failed to remove orphaned upload:", cleanupError)
+    );
+    throw error;
+  }
+
+  getVectorIndex().upsert(request.collection, insertedId.toString(), embedding);
+
+  console.log(`📥 Ingested ${request.fileName} into ${request.collection}`);
+  return { ...document, _id: insertedId };
+}
@@ -0,0 +1,140 @@
+import { withRetry } from "./retry";
+import { GenerateTextOptions, LLMError, LLMProvider } from "./types";
+
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+// Gemini API types
+interface GeminiEmbeddingResponse {
+  embedding?:
+    | {
+        values?: number[];
+      }
+    | number[];
+  values?: number[];
+}
+
+interface GeminiContentResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string;
+      }>;
+    };
+  }>;
+}
+
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  embeddingModel: string;
+  generationModel: string;
+  retries?: number;
+}
+
+/**
+ * GEMINI PROVIDER
+ * Responsible for: Embeddings and text generation through Google's Gemini API
+ * - Authenticates with the configured API key
+ * - Retries failed calls with exponential backoff
+ * - Normalizes the different embedding response shapes the API returns
+ */
+export class GeminiProvider implements LLMProvider {
+  name = "gemini";
+  embeddingModel: string;
+  generationModel: string;
+  private apiKey?: string;
+  private retries: number;
+
+  constructor(config: GeminiProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.embeddingModel = config.embeddingModel;
+    this.generationModel = config.generationModel;
+    this.retries = config.retries ?? 2;
+  }
+
+  private async call<T>(
+    model: string,
+    method: string,
+    payload: Record<string, unknown>
+  ): Promise<T> {
+    if (!this.apiKey) {
+      throw new LLMError("Gemini API key not configured", 500);
+    }
+
+    const endpoint = `${GEMINI_BASE_URL}/models/${model}:${method}`;
+    return withRetry(
+      async () => {
+        const response = await fetch(`${endpoint}?key=${this.apiKey}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`HTTP ${response.status}: ${errorText}`);
+        }
+
+        return (await response.json()) as T;
+      },
+      this.retries,
+      "Gemini API"
+    );
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const response = await this.call<GeminiEmbeddingResponse>(
+      this.embeddingModel,
+      "embedContent",
+      {
+        model: `models/${this.embeddingModel}`,
+        content: {
+          parts: [{ text }],
+        },
+      }
+    );
+
+    // Handle different possible response structures
+    const embedding =
+      (response.embedding as { values?: number[] })?.values ||
+      (response.embedding as number[]) ||
+      response.values;
+
+    if (!embedding || !Array.isArray(embedding)) {
+      throw new LLMError("Invalid embedding response from API");
+    }
+
+    return embedding;
+  }
+
+  async generateText(
+    prompt: string,
+    options: GenerateTextOptions = {}
+  ): Promise<string> {
+    const generationConfig: Record<string, number> = {};
+    if (options.temperature !== undefined) {
+      generationConfig.temperature = options.temperature;
+    }
+    if (options.maxOutputTokens !== undefined) {
+      generationConfig.maxOutputTokens = options.maxOutputTokens;
+    }
+
+    const response = await this.call<GeminiContentResponse>(
+      this.generationModel,
+      "generateContent",
+      {
+        contents: [
+          {
+            parts: [{ text: prompt }],
+          },
+        ],
+        ...(Object.keys(generationConfig).length > 0 && { generationConfig }),
+      }
+    );
+
+    return (
+      response.candidates?.[0]?.content?.parts
+        ?.map((part) => part.text ?? "")
+        .join("") ?? ""
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { GeminiProvider } from "./gemini";
+import { StubProvider } from "./stub";
+import { LLMProvider } from "./types";
+
+export { LLMError } from "./types";
+export type { GenerateTextOptions, LLMProvider } from "./types";
+export { withRetry } from "./retry";
+
+/**
+ * PROVIDER CONFIGURATION
+ * Selected through environment variables:
+ * - LLM_PROVIDER: "gemini" (default) or "stub" for offline development
+ * - LLM_EMBEDDING_MODEL / LLM_GENERATION_MODEL: override the Gemini models
+ * - STUB_EMBEDDING_DIMENSIONS: vector size produced by the stub provider
+ */
+const DEFAULT_MODELS = {
+  EMBEDDING: "text-embedding-004",
+  GENERATION: "gemini-2.0-flash-exp",
+} as const;
+
+let provider: LLMProvider | undefined;
+
+function createProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+
+  switch (name) {
+    case "stub":
+      return new StubProvider(
+        Number(process.env.STUB_EMBEDDING_DIMENSIONS) || undefined
+      );
+    case "gemini":
+      return new GeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY,
+        embeddingModel:
+          process.env.LLM_EMBEDDING_MODEL || DEFAULT_MODELS.EMBEDDING,
+        generationModel:
+          process.env.LLM_GENERATION_MODEL || DEFAULT_MODELS.GENERATION,
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+// Returns the configured provider, created once per server process
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider();
+    console.log(
+      `🤖 Using ${provider.name} provider (${provider.embeddingModel}, ${provider.generationModel})`
+    );
+  }
+  return provider;
+}
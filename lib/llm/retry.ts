@@ -0,0 +1,33 @@
+import { LLMError } from "./types";
+
+/**
+ * RETRY HELPER
+ * Runs an async operation with exponential backoff (1s, 2s, 4s, ...)
+ * - Logs each failed attempt
+ * - Throws a 503 LLMError once all retries are exhausted
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  retries = 2,
+  label = "LLM provider"
+): Promise<T> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      console.error(`${label} attempt ${attempt + 1} failed:`, error);
+
+      if (attempt === retries) {
+        throw new LLMError("External search service unavailable", 503);
+      }
+
+      // Exponential backoff
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.pow(2, attempt) * 1000)
+      );
+    }
+  }
+
+  // This should never be reached due to the throw in the loop, but TypeScript needs it
+  throw new LLMError("External search service unavailable", 503);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { StubProvider } from "./stub";
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("StubProvider", () => {
+  const provider = new StubProvider(256);
+
+  it("embeds text as a deterministic unit vector of the configured size", async () => {
+    const first = await provider.generateEmbedding("Road construction tender");
+    const second = await new StubProvider(256).generateEmbedding(
+      "Road construction tender"
+    );
+
+    expect(first).toHaveLength(256);
+    expect(second).toEqual(first);
+    expect(cosine(first, first)).toBeCloseTo(1, 10);
+    expect(provider.embeddingModel).toBe("stub-hash-256");
+  });
+
+  it("scores texts sharing vocabulary above unrelated ones", async () => {
+    const [query, related, unrelated] = await Promise.all(
+      [
+        "road construction tender",
+        "Tender for construction of the Namchi road",
+        "Staff nurse recruitment notice",
+      ].map((text) => provider.generateEmbedding(text))
+    );
+
+    expect(cosine(query, related)).toBeGreaterThan(0.5);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("ignores case, punctuation and stop words", async () => {
+    expect(await provider.generateEmbedding("The ROAD, of Namchi!")).toEqual(
+      await provider.generateEmbedding("road namchi")
+    );
+  });
+
+  it("never returns a zero vector", async () => {
+    const vector = await provider.generateEmbedding("a the of");
+    expect(vector[0]).toBe(1);
+    expect(vector.slice(1).every((value) => value === 0)).toBe(true);
+  });
+
+  it("echoes up to five keywords of the first quoted string", async () => {
+    expect(
+      await provider.generateText(
+        'Suggest keywords for "the tender for road and bridge repair in Namchi district, 2024" and "ignored"'
+      )
+    ).toBe("tender, road, bridge, repair, namchi");
+  });
+
+  it("falls back to the whole prompt without a quoted string", async () => {
+    expect(await provider.generateText("Nurse nurse vacancies")).toBe(
+      "nurse, vacancies"
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { LLMProvider } from "./types";
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "for",
+  "from",
+  "in",
+  "is",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "with",
+]);
+
+// FNV-1a string hash, stable across runs and platforms
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * STUB PROVIDER
+ * Responsible for: Offline, deterministic stand-ins for embeddings and generation
+ * - Embeddings hash words and character trigrams into a fixed-size unit vector,
+ *   so texts sharing vocabulary score a high cosine similarity
+ * - Generation echoes the keywords of the first quoted string in the prompt
+ * - Needs no network or API key, for local development only
+ */
+export class StubProvider implements LLMProvider {
+  name = "stub";
+  embeddingModel: string;
+  generationModel = "stub-echo";
+  private dimensions: number;
+
+  constructor(dimensions = 768) {
+    this.dimensions = dimensions;
+    this.embeddingModel = `stub-hash-${dimensions}`;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const token of tokenize(text)) {
+      const features = [token];
+      const padded = ` ${token} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`#${padded.slice(i, i + 3)}`);
+      }
+
+      for (const feature of features) {
+        const hash = hashString(feature);
+        // Use one hash bit as the sign to keep unrelated features near-orthogonal
+        vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+      }
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (magnitude === 0) {
+      // Avoid a zero vector, which has no defined cosine similarity
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map((v) => v / magnitude);
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const quoted = prompt.match(/"([^"]+)"/);
+    const source = quoted ? quoted[1] : prompt;
+    return Array.from(new Set(tokenize(source)))
+      .slice(0, 5)
+      .join(", ");
+  }
+}
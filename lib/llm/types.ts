@@ -0,0 +1,28 @@
+/**
+ * LLM PROVIDER TYPES
+ * Shared contract implemented by every embedding/generation backend
+ */
+
+export interface GenerateTextOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMProvider {
+  /** Provider identifier, e.g. "gemini" or "stub" */
+  name: string;
+  /** Model used for embeddings; part of any cache key built from embeddings */
+  embeddingModel: string;
+  /** Model used for text generation */
+  generationModel: string;
+  generateEmbedding(text: string): Promise<number[]>;
+  generateText(prompt: string, options?: GenerateTextOptions): Promise<string>;
+}
+
+// Thrown by providers so API routes can map failures to an HTTP status
+export class LLMError extends Error {
+  constructor(message: string, public statusCode: number = 500) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
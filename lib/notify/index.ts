@@ -0,0 +1,60 @@
+import { LogNotifier } from "./log";
+import { SmtpNotifier } from "./smtp";
+import { Notifier } from "./types";
+
+export { NotifierError } from "./types";
+export type { Notification, Notifier } from "./types";
+export type { SmtpConfig } from "./smtp";
+
+/**
+ * NOTIFIER CONFIGURATION
+ * Selected through environment variables:
+ * - NOTIFIER: "smtp" or "log"; defaults to "smtp" when SMTP_HOST is set
+ * - SMTP_HOST / SMTP_PORT: mail server, port defaulting to 465 with
+ *   SMTP_SECURE=true and 587 otherwise
+ * - SMTP_USER / SMTP_PASSWORD: credentials, omitted for local SMTP catchers
+ * - SMTP_FROM: sender address of alert emails
+ */
+const DEFAULTS = {
+  FROM: "SikkimDoc Finder <alerts@localhost>",
+  TIMEOUT_MS: 30 * 1000,
+} as const;
+
+let notifier: Notifier | undefined;
+
+function createNotifier(): Notifier {
+  const name = (
+    process.env.NOTIFIER || (process.env.SMTP_HOST ? "smtp" : "log")
+  ).toLowerCase();
+
+  switch (name) {
+    case "smtp": {
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST is required for the smtp notifier");
+      }
+      const secure = process.env.SMTP_SECURE === "true";
+      return new SmtpNotifier({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.SMTP_FROM || DEFAULTS.FROM,
+        timeoutMs: DEFAULTS.TIMEOUT_MS,
+      });
+    }
+    case "log":
+      return new LogNotifier();
+    default:
+      throw new Error(`Unknown NOTIFIER "${name}"`);
+  }
+}
+
+// Returns the configured notifier, created once per server process
+export function getNotifier(): Notifier {
+  if (!notifier) {
+    notifier = createNotifier();
+    console.log(`📬 Using ${notifier.name} notifier`);
+  }
+  return notifier;
+}
@@ -0,0 +1,16 @@
+import { Notification, Notifier } from "./types";
+
+/**
+ * LOG NOTIFIER
+ * Writes notifications to the server log instead of delivering them, for
+ * development without a mail server
+ */
+export class LogNotifier implements Notifier {
+  name = "log";
+
+  async send(notification: Notification): Promise<void> {
+    console.log(
+      `📨 [log notifier] To: ${notification.to}\nSubject: ${notification.subject}\n\n${notification.text}`
+    );
+  }
+}
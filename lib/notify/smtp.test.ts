@@ -0,0 +1,264 @@
+import net from "net";
+import { generate } from "selfsigned";
+import { SMTPServer, SMTPServerOptions, SMTPServerSession } from "smtp-server";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { SmtpConfig, SmtpNotifier } from "./smtp";
+import { NotifierError } from "./types";
+
+interface Delivery {
+  from?: string;
+  to: string[];
+  raw: string;
+  secure: boolean;
+  user?: string;
+}
+
+interface Running {
+  port: number;
+  close: () => Promise<void>;
+}
+
+// Certificate for "localhost", made fresh for each run
+let tlsFiles: { key: string; cert: string };
+
+// SMTP catcher recording each delivered message and its session
+async function startCatcher(
+  options: Partial<SMTPServerOptions> = {}
+): Promise<Running & { deliveries: Delivery[] }> {
+  const deliveries: Delivery[] = [];
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: options.onAuth ? [] : ["AUTH"],
+    key: tlsFiles.key,
+    cert: tlsFiles.cert,
+    logger: false,
+    onData(stream, session: SMTPServerSession, callback) {
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("end", () => {
+        deliveries.push({
+          from: session.envelope.mailFrom
+            ? session.envelope.mailFrom.address
+            : undefined,
+          to: session.envelope.rcptTo.map(({ address }) => address),
+          raw: Buffer.concat(chunks).toString("utf8"),
+          secure: session.secure,
+          user: session.user as string | undefined,
+        });
+        callback();
+      });
+    },
+    ...options,
+  });
+  server.on("error", () => undefined);
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.server.address() as net.AddressInfo;
+  return {
+    port,
+    deliveries,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+// Raw server following `script` (reply lines per command), then going quiet
+async function startScripted(
+  greeting: string | undefined,
+  script: Record<string, string>
+): Promise<Running & { closedByClient: Promise<void> }> {
+  let clientClosed: () => void = () => undefined;
+  const closedByClient = new Promise<void>((resolve) => {
+    clientClosed = resolve;
+  });
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => clientClosed());
+    socket.on("error", () => undefined);
+    if (greeting) socket.write(`${greeting}\r\n`);
+    socket.on("data", (chunk) => {
+      const verb = chunk
+        .toString("utf8")
+        .split(/[\s\r\n]/)[0]
+        .toUpperCase();
+      if (script[verb]) socket.write(script[verb]);
+    });
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    closedByClient,
+    close: () =>
+      new Promise((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function configFor(
+  server: Running,
+  overrides: Partial<SmtpConfig> = {}
+): SmtpConfig {
+  return {
+    host: "localhost",
+    port: server.port,
+    secure: false,
+    from: "SikkimDoc Finder <alerts@example.test>",
+    timeoutMs: 2000,
+    ca: tlsFiles.cert,
+    ...overrides,
+  };
+}
+
+// Text of a captured message: headers as sent, body decoded from base64
+function readMessage(raw: string) {
+  const [head, ...body] = raw.split("\r\n\r\n");
+  return {
+    head,
+    text: Buffer.from(body.join("").replace(/\r\n/g, ""), "base64").toString(
+      "utf8"
+    ),
+  };
+}
+
+const notification = {
+  to: "Reader <reader@example.test>",
+  subject: "2 new documents for “Staff Nurse”",
+  text: "New documents match your saved search.\n\n1. ₹ 4.5 lakh tender\n",
+};
+
+describe("SmtpNotifier", () => {
+  let server: Running | undefined;
+
+  beforeAll(async () => {
+    const pems = await generate([{ name: "commonName", value: "localhost" }], {
+      keySize: 2048,
+      algorithm: "sha256",
+      extensions: [
+        { name: "subjectAltName", altNames: [{ type: 2, value: "localhost" }] },
+      ],
+    });
+    tlsFiles = { key: pems.private, cert: pems.cert };
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("delivers a message", async () => {
+    const catcher = await startCatcher({
+      disabledCommands: ["STARTTLS", "AUTH"],
+    });
+    server = catcher;
+    await new SmtpNotifier(configFor(catcher)).send(notification);
+
+    const [delivery] = catcher.deliveries;
+    expect(delivery.from).toBe("alerts@example.test");
+    expect(delivery.to).toEqual(["reader@example.test"]);
+    const { head, text } = readMessage(delivery.raw);
+    expect(head).toContain("To: Reader <reader@example.test>");
+    expect(head).toMatch(/^Subject: =\?UTF-8\?/m);
+    expect(text.replace(/\r\n/g, "\n")).toBe(notification.text);
+  });
+
+  it("upgrades to TLS with STARTTLS and authenticates", async () => {
+    const catcher = await startCatcher({
+      onAuth: (auth, _session, callback) =>
+        auth.username === "alerts" && auth.password === "secret"
+          ? callback(null, { user: auth.username })
+          : callback(new Error("Invalid username or password")),
+    });
+    server = catcher;
+    await new SmtpNotifier(
+      configFor(catcher, { user: "alerts", password: "secret" })
+    ).send(notification);
+
+    expect(catcher.deliveries).toHaveLength(1);
+    expect(catcher.deliveries[0]).toMatchObject({
+      secure: true,
+      user: "alerts",
+    });
+  });
+
+  it("refuses a server certificate it doesn't trust", async () => {
+    const catcher = await startCatcher();
+    server = catcher;
+    await expect(
+      new SmtpNotifier(configFor(catcher, { ca: undefined })).send(notification)
+    ).rejects.toBeInstanceOf(NotifierError);
+    expect(catcher.deliveries).toHaveLength(0);
+  });
+
+  it("reports a rejected login without the credentials", async () => {
+    const catcher = await startCatcher({
+      onAuth: (_auth, _session, callback) =>
+        callback(new Error("Invalid username or password")),
+    });
+    server = catcher;
+    const error = await new SmtpNotifier(
+      configFor(catcher, { user: "alerts", password: "secret" })
+    )
+      .send(notification)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(NotifierError);
+    expect((error as Error).message).toMatch(/^SMTP AUTH rejected: .*535/);
+    expect((error as Error).message).not.toContain("secret");
+    expect((error as Error).message).not.toContain(
+      Buffer.from("\0alerts\0secret").toString("base64")
+    );
+    expect(catcher.deliveries).toHaveLength(0);
+  });
+
+  it("times out when the server never answers", async () => {
+    server = await startScripted(undefined, {});
+    const started = Date.now();
+    const error = await new SmtpNotifier(configFor(server, { timeoutMs: 200 }))
+      .send(notification)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(NotifierError);
+    expect(error).toMatchObject({ statusCode: 504 });
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it("times out and hangs up when the TLS handshake stalls", async () => {
+    const scripted = await startScripted("220 stalling.test ESMTP", {
+      EHLO: "250-stalling.test\r\n250 STARTTLS\r\n",
+      STARTTLS: "220 Ready to start TLS\r\n",
+    });
+    server = scripted;
+    const started = Date.now();
+    const error = await new SmtpNotifier(
+      configFor(scripted, { timeoutMs: 200 })
+    )
+      .send(notification)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(NotifierError);
+    expect(error).toMatchObject({ statusCode: 504 });
+    expect(Date.now() - started).toBeLessThan(2000);
+    await scripted.closedByClient;
+  });
+
+  it("fails when nothing is listening", async () => {
+    const catcher = await startCatcher();
+    const { port } = catcher;
+    await catcher.close();
+
+    await expect(
+      new SmtpNotifier({
+        host: "127.0.0.1",
+        port,
+        secure: false,
+        from: "alerts@example.test",
+        timeoutMs: 2000,
+      }).send(notification)
+    ).rejects.toThrow(/SMTP connection failed/);
+  });
+});
@@ -0,0 +1,79 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { Notification, Notifier, NotifierError } from "./types";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465)
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs: number;
+  // PEM certificates to trust in place of the system ones (a private CA)
+  ca?: string;
+}
+
+// Map a nodemailer failure to a NotifierError; its messages never carry
+// the credentials
+function toNotifierError(error: unknown): NotifierError {
+  const { code, message } = error as { code?: string; message?: string };
+  switch (code) {
+    case "ETIMEDOUT":
+      return new NotifierError("SMTP server timed out", 504);
+    case "EAUTH":
+      return new NotifierError(`SMTP AUTH rejected: ${message}`);
+    case "ETLS":
+      return new NotifierError(`SMTP STARTTLS failed: ${message}`);
+    case "ECONNECTION":
+    case "ESOCKET":
+      return new NotifierError(`SMTP connection failed: ${message}`);
+    default:
+      return new NotifierError(`SMTP delivery failed: ${message}`);
+  }
+}
+
+/**
+ * SMTP NOTIFIER
+ * Responsible for: Delivering notifications as email, through nodemailer
+ * - Plain connection upgraded with STARTTLS when the server offers it, or
+ *   implicit TLS when `secure` is set
+ * - Authenticates when a user is configured; not at all for local SMTP
+ *   catchers
+ * - Connecting, the greeting, the TLS handshake and every reply share
+ *   `timeoutMs`, so a silent server fails the send instead of hanging it
+ * - The body is base64 so any UTF-8 text and line length is safe to send
+ */
+export class SmtpNotifier implements Notifier {
+  name = "smtp";
+  private transporter: Transporter;
+
+  constructor(private config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user
+        ? { user: config.user, pass: config.password ?? "" }
+        : undefined,
+      tls: { servername: config.host, ca: config.ca },
+      connectionTimeout: config.timeoutMs,
+      greetingTimeout: config.timeoutMs,
+      socketTimeout: config.timeoutMs,
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.config.from,
+        to: notification.to,
+        subject: notification.subject,
+        text: notification.text,
+        textEncoding: "base64",
+      });
+    } catch (error) {
+      throw toNotifierError(error);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * NOTIFIER TYPES
+ * Shared contract implemented by every alert delivery channel
+ */
+
+export interface Notification {
+  // Channel-specific address, e.g. an email address
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Notifier {
+  /** Channel identifier, e.g. "smtp" or "log" */
+  name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+// Thrown when a notification can't be delivered
+export class NotifierError extends Error {
+  constructor(message: string, public statusCode: number = 502) {
+    super(message);
+    this.name = "NotifierError";
+  }
+}
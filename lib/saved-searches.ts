@@ -0,0 +1,438 @@
+import { createHash, randomBytes } from "crypto";
+import { Db, ObjectId } from "mongodb";
+import { SessionUser } from "@/lib/auth";
+import { getNotifier, Notifier } from "@/lib/notify";
+import {
+  parseSearchFilters,
+  parseSearchRequest,
+  SearchMode,
+  searchDocuments,
+  SearchResult,
+} from "@/lib/search";
+
+export const SAVED_SEARCHES_COLLECTION = "SavedSearch";
+
+/**
+ * SAVED SEARCH CONSTANTS
+ * Per-user limits and the size of one alert
+ */
+const SAVED_SEARCH_LIMITS = {
+  MAX_PER_USER: 20,
+  NAME_CHARS: 100,
+  // New documents listed in one alert; the rest are only counted
+  ALERT_RESULTS: 10,
+  // How long an email confirmation link stays valid
+  CONFIRM_TTL_MS: 3 * 24 * 60 * 60 * 1000,
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export class SavedSearchError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "SavedSearchError";
+  }
+}
+
+// A saved search as stored; `filters` keeps the raw request filters
+interface SavedSearchRecord {
+  _id: ObjectId;
+  userId: string;
+  name: string;
+  query: string;
+  mode?: SearchMode;
+  filters: Record<string, unknown>;
+  email: string;
+  // Documents created after this are new to the next run
+  lastRunAt: Date;
+  lastAlertAt?: Date;
+  createdAt: Date;
+  // Alerts are only sent once the owner has confirmed the address
+  emailConfirmedAt?: Date;
+  // sha256 of the emailed confirmation token, until it is used
+  confirmTokenHash?: string;
+  confirmExpiresAt?: Date;
+}
+
+export interface SavedSearch {
+  _id: string;
+  name: string;
+  query: string;
+  mode?: SearchMode;
+  filters: Record<string, unknown>;
+  email: string;
+  emailConfirmed: boolean;
+  lastRunAt: string;
+  lastAlertAt: string | null;
+  createdAt: string;
+}
+
+export type NewSavedSearch = Pick<
+  SavedSearch,
+  "name" | "query" | "mode" | "filters" | "email"
+>;
+
+export interface AlertRunSummary {
+  checked: number;
+  alerted: number;
+  failed: number;
+}
+
+let userIndexReady: Promise<unknown> | undefined;
+
+function ensureUserIndex(db: Db): Promise<unknown> {
+  if (!userIndexReady) {
+    userIndexReady = db
+      .collection<SavedSearchRecord>(SAVED_SEARCHES_COLLECTION)
+      .createIndex({ userId: 1, createdAt: -1 })
+      .catch((error) => {
+        console.error("Failed to create saved search index:", error);
+        userIndexReady = undefined;
+      });
+  }
+  return userIndexReady;
+}
+
+function toSavedSearch(record: SavedSearchRecord): SavedSearch {
+  return {
+    _id: record._id.toString(),
+    name: record.name,
+    query: record.query,
+    ...(record.mode && { mode: record.mode }),
+    filters: record.filters,
+    email: record.email,
+    emailConfirmed: record.emailConfirmedAt !== undefined,
+    lastRunAt: record.lastRunAt.toISOString(),
+    lastAlertAt: record.lastAlertAt?.toISOString() ?? null,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * SAVED SEARCH PARSING
+ * Responsible for: Validating a search to save
+ * - Body: { query, mode?, filters?, email, name? }
+ * - query, mode and filters are checked like a search request, so a saved
+ *   search always runs; the name defaults to the query
+ * - Throws a 400 SearchError or SavedSearchError for invalid fields
+ */
+export function parseSavedSearch(input: unknown): NewSavedSearch {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const { query, mode } = parseSearchRequest({
+    query: body.query,
+    mode: body.mode,
+    filters: body.filters,
+  });
+
+  const email =
+    typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new SavedSearchError("A valid email address is required");
+  }
+  if (body.name !== undefined && typeof body.name !== "string") {
+    throw new SavedSearchError("name must be a string");
+  }
+  const name = (body.name?.trim() || query).slice(
+    0,
+    SAVED_SEARCH_LIMITS.NAME_CHARS
+  );
+
+  return {
+    name,
+    query,
+    ...(mode && { mode }),
+    filters: (body.filters ?? {}) as Record<string, unknown>,
+    email,
+  };
+}
+
+export async function listSavedSearches(
+  db: Db,
+  user: SessionUser
+): Promise<SavedSearch[]> {
+  const records = await db
+    .collection<SavedSearchRecord>(SAVED_SEARCHES_COLLECTION)
+    .find({ userId: user.id })
+    .sort({ createdAt: -1 })
+    .toArray();
+  return records.map(toSavedSearch);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function getAppUrl(): string {
+  return (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+}
+
+// Fixed wording: nothing the requester typed goes to an unconfirmed address
+function formatConfirmation(token: string): string {
+  return `Someone asked SikkimDoc Finder to email alerts about new government documents to this address.
+
+To start receiving them, confirm the address:
+${getAppUrl()}/api/saved-searches/confirm?token=${token}
+
+The link expires in ${
+    SAVED_SEARCH_LIMITS.CONFIRM_TTL_MS / (24 * 60 * 60 * 1000)
+  } days. If you didn't ask for alerts, ignore this email and you won't hear from us again.
+`;
+}
+
+/**
+ * SAVE SEARCH
+ * Responsible for: Saving a search for alerts about documents created from
+ * now on
+ * - An address the user has already confirmed is used straight away
+ * - Any other address is sent a confirmation link first; alerts start once
+ *   it is followed (see confirmAlertEmail)
+ * - The search isn't kept when the confirmation can't be sent
+ */
+export async function createSavedSearch(
+  db: Db,
+  user: SessionUser,
+  search: NewSavedSearch,
+  notifier: Notifier = getNotifier()
+): Promise<SavedSearch> {
+  await ensureUserIndex(db);
+  const collection = db.collection<SavedSearchRecord>(
+    SAVED_SEARCHES_COLLECTION
+  );
+  if (
+    (await collection.countDocuments({ userId: user.id })) >=
+    SAVED_SEARCH_LIMITS.MAX_PER_USER
+  ) {
+    throw new SavedSearchError(
+      `You can save at most ${SAVED_SEARCH_LIMITS.MAX_PER_USER} searches`,
+      409
+    );
+  }
+
+  const confirmed = await collection.findOne({
+    userId: user.id,
+    email: search.email,
+    emailConfirmedAt: { $exists: true },
+  });
+  const token = confirmed ? undefined : randomBytes(32).toString("base64url");
+
+  const now = new Date();
+  const record: SavedSearchRecord = {
+    _id: new ObjectId(),
+    userId: user.id,
+    ...search,
+    lastRunAt: now,
+    createdAt: now,
+    ...(token
+      ? {
+          confirmTokenHash: hashToken(token),
+          confirmExpiresAt: new Date(
+            now.getTime() + SAVED_SEARCH_LIMITS.CONFIRM_TTL_MS
+          ),
+        }
+      : { emailConfirmedAt: confirmed?.emailConfirmedAt }),
+  };
+  await collection.insertOne(record);
+
+  if (token) {
+    try {
+      await notifier.send({
+        to: search.email,
+        subject: "Confirm your email for SikkimDoc Finder alerts",
+        text: formatConfirmation(token),
+      });
+    } catch (error) {
+      console.error(`❌ Confirmation to ${search.email} failed:`, error);
+      await collection.deleteOne({ _id: record._id });
+      throw new SavedSearchError(
+        "Couldn't send the confirmation email. Try again later.",
+        502
+      );
+    }
+  }
+  console.log(`🔖 Saved search "${record.name}" for "${user.username}"`);
+  return toSavedSearch(record);
+}
+
+/**
+ * EMAIL CONFIRMATION
+ * Responsible for: Starting alerts once the owner of an address follows
+ * its confirmation link
+ * - Confirms the address for every saved search of that user that uses it
+ * - Throws a 404 SavedSearchError for unknown, used or expired tokens
+ */
+export async function confirmAlertEmail(db: Db, token: string): Promise<void> {
+  const collection = db.collection<SavedSearchRecord>(
+    SAVED_SEARCHES_COLLECTION
+  );
+  const search = token
+    ? await collection.findOne({
+        confirmTokenHash: hashToken(token),
+        confirmExpiresAt: { $gt: new Date() },
+      })
+    : null;
+  if (!search) {
+    throw new SavedSearchError(
+      "This confirmation link is invalid or has expired",
+      404
+    );
+  }
+
+  await collection.updateMany(
+    {
+      userId: search.userId,
+      email: search.email,
+      emailConfirmedAt: { $exists: false },
+    },
+    {
+      $set: { emailConfirmedAt: new Date() },
+      $unset: { confirmTokenHash: "", confirmExpiresAt: "" },
+    }
+  );
+  console.log(`📧 Confirmed alert email ${search.email}`);
+}
+
+// Delete one of the user's saved searches; 404 for anyone else's
+export async function deleteSavedSearch(
+  db: Db,
+  user: SessionUser,
+  id: string
+): Promise<void> {
+  const result = ObjectId.isValid(id)
+    ? await db
+        .collection<SavedSearchRecord>(SAVED_SEARCHES_COLLECTION)
+        .deleteOne({ _id: new ObjectId(id), userId: user.id })
+    : { deletedCount: 0 };
+  if (result.deletedCount === 0) {
+    throw new SavedSearchError("Saved search not found", 404);
+  }
+}
+
+function formatAlert(
+  search: SavedSearchRecord,
+  results: SearchResult[],
+  total: number
+): string {
+  const appUrl = getAppUrl();
+  const lines = results.map((result, index) =>
+    [
+      `${index + 1}. ${result.title || result.name || "Untitled"}`,
+      `   ${[
+        result.collection,
+        result.department,
+        result.createdAt && String(result.createdAt).slice(0, 10),
+      ]
+        .filter(Boolean)
+        .join(" · ")}`,
+      `   ${appUrl}/documents/${result.collection}/${result._id}`,
+    ].join("\n")
+  );
+  const more =
+    total > results.length
+      ? `\n…and ${total - results.length} more. Search for "${
+          search.query
+        }" to see them all.\n`
+      : "";
+
+  return `New documents match your saved search "${search.name}" (${
+    search.query
+  }):
+
+${lines.join("\n\n")}
+${more}
+Manage your saved searches: ${appUrl}/saved-searches
+`;
+}
+
+// New documents for one saved search, created in (since, until]
+async function findNewDocuments(
+  db: Db,
+  search: SavedSearchRecord,
+  since: Date,
+  until: Date
+): Promise<{ results: SearchResult[]; total: number }> {
+  const filters = parseSearchFilters(search.filters);
+  const after = new Date(since.getTime() + 1);
+  const createdFrom =
+    filters.createdFrom && filters.createdFrom > after
+      ? filters.createdFrom
+      : after;
+  const createdTo =
+    filters.createdTo && filters.createdTo < until ? filters.createdTo : until;
+  if (createdFrom > createdTo) return { results: [], total: 0 };
+
+  const outcome = await searchDocuments(db, {
+    query: search.query,
+    mode: search.mode,
+    pageSize: SAVED_SEARCH_LIMITS.ALERT_RESULTS,
+    sort: "newest",
+    filters: { ...filters, createdFrom, createdTo },
+    facets: false,
+    spelling: false,
+  });
+  return { results: outcome.results, total: outcome.total };
+}
+
+/**
+ * ALERT RUN
+ * Responsible for: Re-running every saved search against new documents
+ * - Each search only sees documents created since its last run
+ * - A search is claimed by moving its lastRunAt forward first, so
+ *   overlapping runs never alert twice; a failed search is put back to be
+ *   retried on the next run
+ * - Searches with new documents send one notification listing them
+ * - Searches whose email hasn't been confirmed are skipped
+ */
+export async function runSavedSearches(
+  db: Db,
+  notifier: Notifier = getNotifier()
+): Promise<AlertRunSummary> {
+  const collection = db.collection<SavedSearchRecord>(
+    SAVED_SEARCHES_COLLECTION
+  );
+  const summary: AlertRunSummary = { checked: 0, alerted: 0, failed: 0 };
+
+  for await (const search of collection.find({
+    emailConfirmedAt: { $exists: true },
+  })) {
+    const runAt = new Date();
+    const claimed = await collection.updateOne(
+      { _id: search._id, lastRunAt: search.lastRunAt },
+      { $set: { lastRunAt: runAt } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+    summary.checked++;
+
+    try {
+      const { results, total } = await findNewDocuments(
+        db,
+        search,
+        search.lastRunAt,
+        runAt
+      );
+      if (total === 0) continue;
+
+      await notifier.send({
+        to: search.email,
+        subject: `${total} new document${total === 1 ? "" : "s"} for "${
+          search.name
+        }"`,
+        text: formatAlert(search, results, total),
+      });
+      await collection.updateOne(
+        { _id: search._id },
+        { $set: { lastAlertAt: runAt } }
+      );
+      summary.alerted++;
+      console.log(`🔔 Alerted ${search.email}: ${total} for "${search.name}"`);
+    } catch (error) {
+      console.error(`❌ Saved search "${search.name}" failed:`, error);
+      summary.failed++;
+      await collection.updateOne(
+        { _id: search._id, lastRunAt: runAt },
+        { $set: { lastRunAt: search.lastRunAt } }
+      );
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,158 @@
+import { Db } from "mongodb";
+import { getLLMProvider } from "@/lib/llm";
+
+/**
+ * QUERY EMBEDDING CACHE
+ * Responsible for: Avoiding repeat embedding calls for the same query
+ * - Queries are normalized (case, whitespace, Unicode form) before lookup
+ * - Keys include the provider and embedding model, so switching models never
+ *   returns vectors from the old one
+ * - Two levels: an in-process LRU, then a MongoDB collection whose entries
+ *   expire through a TTL index
+ * - Cache failures are logged and treated as misses; search keeps working
+ */
+const CACHE_COLLECTION = "QueryEmbeddingCache";
+
+const CACHE_DEFAULTS = {
+  MEMORY_ENTRIES: 500,
+  TTL_SECONDS: 30 * 24 * 60 * 60,
+} as const;
+
+interface CachedEmbedding {
+  _id: string;
+  model: string;
+  query: string;
+  embedding: number[];
+  createdAt: Date;
+}
+
+export interface EmbeddingCacheStats {
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  hitRate: number;
+  memoryEntries: number;
+}
+
+// Least-recently-used map; Map iteration order doubles as recency order
+class LRUCache<V> {
+  private entries = new Map<string, V>();
+
+  constructor(private maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
+
+const memoryCache = new LRUCache<number[]>(
+  Number(process.env.EMBEDDING_CACHE_SIZE) || CACHE_DEFAULTS.MEMORY_ENTRIES
+);
+const counters = { memoryHits: 0, persistentHits: 0, misses: 0 };
+let ttlIndexReady: Promise<unknown> | undefined;
+
+export function normalizeQuery(query: string): string {
+  return query.normalize("NFKC").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function ensureTtlIndex(db: Db): Promise<unknown> {
+  if (!ttlIndexReady) {
+    ttlIndexReady = db
+      .collection<CachedEmbedding>(CACHE_COLLECTION)
+      .createIndex(
+        { createdAt: 1 },
+        {
+          expireAfterSeconds:
+            Number(process.env.EMBEDDING_CACHE_TTL_SECONDS) ||
+            CACHE_DEFAULTS.TTL_SECONDS,
+        }
+      )
+      .catch((error) => {
+        console.error("Failed to create embedding cache TTL index:", error);
+        ttlIndexReady = undefined;
+      });
+  }
+  return ttlIndexReady;
+}
+
+/**
+ * CACHED QUERY EMBEDDING
+ * Returns the embedding for a search query, computing it only on a miss
+ */
+export async function getQueryEmbedding(
+  db: Db,
+  query: string
+): Promise<number[]> {
+  const provider = getLLMProvider();
+  const normalized = normalizeQuery(query);
+  const model = `${provider.name}:${provider.embeddingModel}`;
+  const key = `${model}:${normalized}`;
+
+  const fromMemory = memoryCache.get(key);
+  if (fromMemory) {
+    counters.memoryHits++;
+    return fromMemory;
+  }
+
+  const collection = db.collection<CachedEmbedding>(CACHE_COLLECTION);
+  try {
+    const stored = await collection.findOne({ _id: key });
+    if (stored) {
+      counters.persistentHits++;
+      memoryCache.set(key, stored.embedding);
+      return stored.embedding;
+    }
+  } catch (error) {
+    console.error("Embedding cache lookup failed:", error);
+  }
+
+  counters.misses++;
+  const embedding = await provider.generateEmbedding(normalized);
+  memoryCache.set(key, embedding);
+
+  try {
+    await ensureTtlIndex(db);
+    await collection.updateOne(
+      { _id: key },
+      {
+        $set: { model, query: normalized, embedding, createdAt: new Date() },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error("Embedding cache write failed:", error);
+  }
+
+  return embedding;
+}
+
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const lookups =
+    counters.memoryHits + counters.persistentHits + counters.misses;
+  return {
+    ...counters,
+    hitRate:
+      lookups === 0
+        ? 0
+        : (counters.memoryHits + counters.persistentHits) / lookups,
+    memoryEntries: memoryCache.size,
+  };
+}
@@ -0,0 +1,119 @@
+import { Db, ObjectId } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { computeFacets, vectorMatchScope } from "./facets";
+import { PipelineStage } from "./types";
+
+type FacetStages = Record<string, PipelineStage[]>;
+
+// Records the aggregation and answers with the given facet rows
+function fakeDb(rows: Record<string, Array<{ _id: unknown; count: number }>>) {
+  const aggregations: Array<{ collection: string; pipeline: PipelineStage[] }> =
+    [];
+  const db = {
+    collection: (collection: string) => ({
+      aggregate: (pipeline: PipelineStage[]) => {
+        aggregations.push({ collection, pipeline });
+        return { toArray: async () => [rows] };
+      },
+    }),
+  } as unknown as Db;
+  return { db, aggregations };
+}
+
+// The conditions one facet counts under
+function facetConditions(pipeline: PipelineStage[], field: string) {
+  const { $facet } = pipeline[pipeline.length - 1] as { $facet: FacetStages };
+  return ($facet[field][0] as { $match: { $and: unknown[] } }).$match.$and;
+}
+
+describe("vectorMatchScope", () => {
+  it("selects each collection's matched ids", () => {
+    const tender = new ObjectId();
+    const notice = new ObjectId();
+    const scope = vectorMatchScope([
+      { collection: "Tender", id: tender.toString(), score: 0.9 },
+      { collection: "EmploymentNotice", id: notice.toString(), score: 0.8 },
+    ]);
+
+    expect(scope("Tender")).toEqual({ _id: { $in: [tender] } });
+    expect(scope("EmploymentNotice")).toEqual({ _id: { $in: [notice] } });
+    expect(scope("NotificationCircular")).toEqual({ _id: { $in: [] } });
+  });
+});
+
+describe("computeFacets", () => {
+  const scope = () => ({ department: "Health" });
+
+  it("counts every collection in one aggregation", async () => {
+    const { db, aggregations } = fakeDb({});
+    await computeFacets(db, scope);
+
+    expect(aggregations).toHaveLength(1);
+    const [{ collection, pipeline }] = aggregations;
+    const unions = pipeline
+      .filter((stage) => "$unionWith" in stage)
+      .map((stage) => (stage as { $unionWith: { coll: string } }).$unionWith);
+    expect([collection, ...unions.map(({ coll }) => coll)].sort()).toEqual([
+      "EmploymentNotice",
+      "NotificationCircular",
+      "Tender",
+    ]);
+    expect(pipeline[0]).toEqual({ $match: { department: "Health" } });
+  });
+
+  it("applies every filter except the facet's own", async () => {
+    const { db, aggregations } = fakeDb({});
+    await computeFacets(db, scope, {
+      collections: ["Tender"],
+      department: "Roads and Bridges",
+      fileType: "pdf",
+    });
+    const [{ pipeline }] = aggregations;
+
+    const department = facetConditions(pipeline, "department");
+    expect(department[0]).not.toHaveProperty("department");
+    expect(department[0]).toHaveProperty("fileType");
+    expect(department).toContainEqual({ collection: { $in: ["Tender"] } });
+
+    const collection = facetConditions(pipeline, "collection");
+    expect(collection[0]).toHaveProperty("department");
+    expect(collection).toHaveLength(1);
+  });
+
+  it("keeps query qualifier collections on the collection facet", async () => {
+    const { db, aggregations } = fakeDb({});
+    await computeFacets(db, scope, {
+      collections: ["Tender"],
+      query: { conditions: [], collections: ["EmploymentNotice"] },
+    });
+
+    expect(facetConditions(aggregations[0].pipeline, "collection")).toEqual([
+      expect.anything(),
+      { collection: { $in: ["EmploymentNotice"] } },
+    ]);
+  });
+
+  it("returns buckets as string values, and empty lists for missing facets", async () => {
+    const { db } = fakeDb({
+      collection: [{ _id: "Tender", count: 4 }],
+      year: [
+        { _id: 2024, count: 3 },
+        { _id: 2023, count: 1 },
+      ],
+    });
+
+    const facets = await computeFacets(db, scope);
+
+    expect(facets).toEqual({
+      collection: [{ value: "Tender", count: 4 }],
+      department: [],
+      year: [
+        { value: "2024", count: 3 },
+        { value: "2023", count: 1 },
+      ],
+      category: [],
+      fileType: [],
+      qualification: [],
+    });
+  });
+});
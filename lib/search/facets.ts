@@ -0,0 +1,199 @@
+import { Db, ObjectId } from "mongodb";
+import {
+  ALLOWED_COLLECTIONS,
+  AllowedCollection,
+  MongoDocument,
+} from "@/lib/documents";
+import { VectorMatch } from "@/lib/vector";
+import { buildFilterMatch, SearchFilters } from "./filters";
+import { PipelineStage } from "./types";
+
+/**
+ * FACET TYPES
+ * Counts of matching documents per value of each filterable field
+ */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  collection: FacetBucket[];
+  department: FacetBucket[];
+  year: FacetBucket[];
+  category: FacetBucket[];
+  fileType: FacetBucket[];
+  // Qualification level employment notices ask for
+  qualification: FacetBucket[];
+}
+
+type FacetField = keyof SearchFacets;
+
+// Conditions that select the documents a tier matched, per collection
+export type FacetScope = (
+  collection: AllowedCollection
+) => Record<string, unknown>;
+
+// Scope covering the documents behind a set of vector index matches
+export function vectorMatchScope(matches: VectorMatch[]): FacetScope {
+  return (collection) => ({
+    _id: {
+      $in: matches
+        .filter((m) => m.collection === collection)
+        .map((m) => new ObjectId(m.id)),
+    },
+  });
+}
+
+// Most values listed per facet; departments and categories can be numerous
+const MAX_FACET_VALUES = 50;
+
+// Fields the facet groups and filters read
+const FACET_PROJECTION = {
+  department: 1,
+  createdAt: 1,
+  categories: 1,
+  fileType: 1,
+  tender: 1,
+  employment: 1,
+} as const;
+
+// Stages that turn one facet's documents into { _id: value, count } buckets
+const FACET_GROUPS: Record<FacetField, PipelineStage[]> = {
+  collection: [{ $group: { _id: "$collection", count: { $sum: 1 } } }],
+  department: [
+    { $match: { department: { $nin: [null, ""] } } },
+    { $group: { _id: "$department", count: { $sum: 1 } } },
+  ],
+  year: [
+    {
+      $group: {
+        _id: {
+          $year: {
+            $convert: {
+              input: "$createdAt",
+              to: "date",
+              onError: null,
+              onNull: null,
+            },
+          },
+        },
+        count: { $sum: 1 },
+      },
+    },
+    { $match: { _id: { $ne: null } } },
+  ],
+  category: [
+    { $unwind: "$categories" },
+    { $group: { _id: "$categories", count: { $sum: 1 } } },
+  ],
+  fileType: [
+    { $match: { fileType: { $nin: [null, ""] } } },
+    { $group: { _id: { $toLower: "$fileType" }, count: { $sum: 1 } } },
+  ],
+  qualification: [
+    { $match: { "employment.qualificationLevel": { $nin: [null, ""] } } },
+    {
+      $group: { _id: "$employment.qualificationLevel", count: { $sum: 1 } },
+    },
+  ],
+};
+
+// Drop the filter a facet describes, so its other values stay selectable
+function filtersExcept(
+  filters: SearchFilters,
+  field: FacetField
+): SearchFilters {
+  const rest = { ...filters };
+  if (field === "collection") delete rest.collections;
+  if (field === "department") delete rest.department;
+  if (field === "year") {
+    delete rest.createdFrom;
+    delete rest.createdTo;
+  }
+  if (field === "category") delete rest.categories;
+  if (field === "fileType") delete rest.fileType;
+  if (field === "qualification") delete rest.qualification;
+  return rest;
+}
+
+function facetMatch(
+  filters: SearchFilters,
+  field: FacetField
+): Record<string, unknown> {
+  const rest = filtersExcept(filters, field);
+  const collections = [rest.collections, rest.query?.collections].filter(
+    (list): list is AllowedCollection[] => !!list
+  );
+  return {
+    $and: [
+      buildFilterMatch(rest),
+      ...collections.map((list) => ({ collection: { $in: list } })),
+    ],
+  };
+}
+
+/**
+ * FACET COUNTS
+ * Responsible for: Counting a search's matches by collection, department,
+ * year, category, file type and qualification level
+ * - Runs one $facet aggregation over every collection the scope matches in
+ * - Each facet applies every active filter except its own, so choosing a
+ *   value doesn't hide the alternatives
+ * - Buckets are sorted by count, largest first
+ */
+export async function computeFacets(
+  db: Db,
+  scope: FacetScope,
+  filters: SearchFilters = {}
+): Promise<SearchFacets> {
+  const stagesFor = (collection: AllowedCollection): PipelineStage[] => [
+    { $match: scope(collection) },
+    { $project: FACET_PROJECTION },
+    { $addFields: { collection } },
+  ];
+  const [first, ...rest] = ALLOWED_COLLECTIONS;
+  const fields = Object.keys(FACET_GROUPS) as FacetField[];
+
+  const pipeline: PipelineStage[] = [
+    ...stagesFor(first),
+    ...rest.map((collection) => ({
+      $unionWith: { coll: collection, pipeline: stagesFor(collection) },
+    })),
+    {
+      $facet: Object.fromEntries(
+        fields.map((field) => [
+          field,
+          [
+            { $match: facetMatch(filters, field) },
+            ...FACET_GROUPS[field],
+            { $sort: { count: -1, _id: 1 } },
+            { $limit: MAX_FACET_VALUES },
+          ],
+        ])
+      ),
+    },
+  ];
+
+  const [facet] = await db
+    .collection<MongoDocument>(first)
+    .aggregate<Record<FacetField, Array<{ _id: unknown; count: number }>>>(
+      pipeline
+    )
+    .toArray();
+
+  const buckets = (field: FacetField): FacetBucket[] =>
+    (facet?.[field] ?? []).map(({ _id, count }) => ({
+      value: String(_id),
+      count,
+    }));
+
+  return {
+    collection: buckets("collection"),
+    department: buckets("department"),
+    year: buckets("year"),
+    category: buckets("category"),
+    fileType: buckets("fileType"),
+    qualification: buckets("qualification"),
+  };
+}
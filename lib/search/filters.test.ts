@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { buildFilterMatch, parseSearchFilters } from "./filters";
+import { SearchError } from "./types";
+
+describe("parseSearchFilters dates", () => {
+  it("reads a bare createdTo date as the end of that day in IST", () => {
+    const filters = parseSearchFilters({
+      createdFrom: "2024-01-01",
+      createdTo: "2024-12-31",
+    });
+    expect(filters.createdFrom?.toISOString()).toBe("2023-12-31T18:30:00.000Z");
+    expect(filters.createdTo?.toISOString()).toBe("2024-12-31T18:29:59.999Z");
+  });
+
+  it("includes documents created late on the last day", () => {
+    const { createdTo } = parseSearchFilters({ createdTo: "2024-12-31" });
+    // 11pm IST on 31 December
+    expect(new Date("2024-12-31T17:30:00.000Z") <= createdTo!).toBe(true);
+    expect(new Date("2024-12-31T18:30:00.000Z") <= createdTo!).toBe(false);
+  });
+
+  it("keeps full timestamps as given", () => {
+    const filters = parseSearchFilters({
+      createdTo: "2024-12-31T23:59:59.999Z",
+    });
+    expect(filters.createdTo?.toISOString()).toBe("2024-12-31T23:59:59.999Z");
+  });
+
+  it("accepts a single-day range", () => {
+    const filters = parseSearchFilters({
+      createdFrom: "2024-06-01",
+      createdTo: "2024-06-01",
+    });
+    expect(buildFilterMatch(filters).createdAt).toEqual({
+      $gte: new Date("2024-05-31T18:30:00.000Z"),
+      $lte: new Date("2024-06-01T18:29:59.999Z"),
+    });
+  });
+
+  it("rejects impossible dates", () => {
+    expect(() => parseSearchFilters({ createdTo: "2024-02-31" })).toThrow(
+      SearchError
+    );
+    expect(() => parseSearchFilters({ createdFrom: "yesterday" })).toThrow(
+      /ISO date/
+    );
+  });
+});
+
+describe("parseSearchFilters closing dates", () => {
+  it("includes tenders that close on the closingTo date", () => {
+    const filters = parseSearchFilters({
+      closingFrom: "2025-03-15",
+      closingTo: "2025-03-15",
+    });
+    // Deadlines without a time are stored as the end of the day, IST
+    const bidCloseDate = new Date("2025-03-15T18:29:59.999Z");
+    expect(filters.closingFrom! <= bidCloseDate).toBe(true);
+    expect(bidCloseDate <= filters.closingTo!).toBe(true);
+    expect(buildFilterMatch(filters)["tender.bidCloseDate"]).toEqual({
+      $gte: new Date("2025-03-14T18:30:00.000Z"),
+      $lte: bidCloseDate,
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  ALLOWED_COLLECTIONS,
+  AllowedCollection,
+  isAllowedCollection,
+  QUALIFICATION_LEVELS,
+  QualificationLevel,
+} from "@/lib/documents";
+import { parseDocumentDate } from "@/lib/extraction/parse";
+import { SearchError } from "./types";
+
+// Escape regex special characters so user input matches literally
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * STRUCTURED FILTERS
+ * Optional constraints applied inside the $match stage of every search tier
+ */
+export interface SearchFilters {
+  collections?: AllowedCollection[];
+  department?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  fileType?: string;
+  categories?: string[];
+  // Extracted tender fields; only Tender documents can match these
+  closingFrom?: Date;
+  closingTo?: Date;
+  tenderNumber?: string;
+  issuingOffice?: string;
+  estimatedCostMin?: number;
+  estimatedCostMax?: number;
+  // Extracted employment fields; only EmploymentNotice documents can match
+  qualification?: QualificationLevel;
+  // Application deadline still ahead
+  openNow?: boolean;
+  // Within the notice's age limits (notices without limits match)
+  age?: number;
+  // Set from qualifiers in the query text, never from the request filters
+  query?: QueryConstraints;
+}
+
+/**
+ * QUERY CONSTRAINTS
+ * Conditions compiled from query qualifiers (dept:, type:, after: ...)
+ * - Applied alongside the filters above but, being part of the query,
+ *   never relaxed when counting facets
+ */
+export interface QueryConstraints {
+  collections?: AllowedCollection[];
+  conditions: Record<string, unknown>[];
+}
+
+function parseStringList(value: unknown, field: string): string[] {
+  const list = typeof value === "string" ? [value] : value;
+  if (
+    !Array.isArray(list) ||
+    !list.every((item): item is string => typeof item === "string")
+  ) {
+    throw new SearchError(`filters.${field} must be a string array`, 400);
+  }
+  return list.map((item) => item.trim()).filter(Boolean);
+}
+
+function parseOptionalString(
+  value: unknown,
+  field: string
+): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new SearchError(`filters.${field} must be a string`, 400);
+  }
+  return value.trim() || undefined;
+}
+
+// A bare YYYY-MM-DD covers that whole day in IST, so as an upper bound
+// (`endOfDay`) it runs to 23:59:59.999, matching how deadlines are stored
+function parseDate(
+  value: unknown,
+  field: string,
+  { endOfDay = false }: { endOfDay?: boolean } = {}
+): Date | undefined {
+  const text = parseOptionalString(value, field);
+  if (!text) return undefined;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(text)
+    ? parseDocumentDate(text, { endOfDay }) ?? new Date(NaN)
+    : new Date(text);
+  if (isNaN(date.getTime())) {
+    throw new SearchError(`filters.${field} must be an ISO date`, 400);
+  }
+  return date;
+}
+
+function parseAmountFilter(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new SearchError(
+      `filters.${field} must be a non-negative number`,
+      400
+    );
+  }
+  return amount;
+}
+
+function parseFlag(value: unknown, field: string): true | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return undefined;
+  throw new SearchError(`filters.${field} must be a boolean`, 400);
+}
+
+/**
+ * FILTER PARSING
+ * Responsible for: Validating the `filters` object of a search request
+ * - Accepts collections, department, createdFrom/createdTo, fileType, categories
+ * - Date bounds are inclusive; a date without a time means that day in IST
+ * - Tender fields: closingFrom/closingTo, tenderNumber, issuingOffice,
+ *   estimatedCostMin/estimatedCostMax (rupees)
+ * - Employment fields: qualification (a QUALIFICATION_LEVELS value),
+ *   openNow, age
+ * - Throws a 400 SearchError describing the first invalid field
+ */
+export function parseSearchFilters(input: unknown): SearchFilters {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new SearchError("filters must be an object", 400);
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  if (raw.collections !== undefined) {
+    const collections = parseStringList(raw.collections, "collections");
+    const invalid = collections.find((c) => !isAllowedCollection(c));
+    if (invalid) {
+      throw new SearchError(
+        `Unknown collection "${invalid}". Use: ${ALLOWED_COLLECTIONS.join(
+          ", "
+        )}`,
+        400
+      );
+    }
+    if (collections.length > 0) {
+      filters.collections = collections as AllowedCollection[];
+    }
+  }
+
+  filters.department = parseOptionalString(raw.department, "department");
+  filters.fileType = parseOptionalString(raw.fileType, "fileType");
+  filters.createdFrom = parseDate(raw.createdFrom, "createdFrom");
+  filters.createdTo = parseDate(raw.createdTo, "createdTo", {
+    endOfDay: true,
+  });
+
+  if (
+    filters.createdFrom &&
+    filters.createdTo &&
+    filters.createdFrom > filters.createdTo
+  ) {
+    throw new SearchError("filters.createdFrom must be before createdTo", 400);
+  }
+
+  if (raw.categories !== undefined) {
+    const categories = parseStringList(raw.categories, "categories");
+    if (categories.length > 0) filters.categories = categories;
+  }
+
+  filters.closingFrom = parseDate(raw.closingFrom, "closingFrom");
+  filters.closingTo = parseDate(raw.closingTo, "closingTo", {
+    endOfDay: true,
+  });
+  if (
+    filters.closingFrom &&
+    filters.closingTo &&
+    filters.closingFrom > filters.closingTo
+  ) {
+    throw new SearchError("filters.closingFrom must be before closingTo", 400);
+  }
+  filters.tenderNumber = parseOptionalString(raw.tenderNumber, "tenderNumber");
+  filters.issuingOffice = parseOptionalString(
+    raw.issuingOffice,
+    "issuingOffice"
+  );
+  filters.estimatedCostMin = parseAmountFilter(
+    raw.estimatedCostMin,
+    "estimatedCostMin"
+  );
+  filters.estimatedCostMax = parseAmountFilter(
+    raw.estimatedCostMax,
+    "estimatedCostMax"
+  );
+  if (
+    filters.estimatedCostMin !== undefined &&
+    filters.estimatedCostMax !== undefined &&
+    filters.estimatedCostMin > filters.estimatedCostMax
+  ) {
+    throw new SearchError(
+      "filters.estimatedCostMin must not exceed estimatedCostMax",
+      400
+    );
+  }
+
+  const qualification = parseOptionalString(raw.qualification, "qualification");
+  if (qualification !== undefined) {
+    if (!(QUALIFICATION_LEVELS as readonly string[]).includes(qualification)) {
+      throw new SearchError(
+        `filters.qualification must be one of: ${QUALIFICATION_LEVELS.join(
+          ", "
+        )}`,
+        400
+      );
+    }
+    filters.qualification = qualification as QualificationLevel;
+  }
+  filters.openNow = parseFlag(raw.openNow, "openNow");
+  if (raw.age !== undefined && raw.age !== null && raw.age !== "") {
+    const age = Number(raw.age);
+    if (!Number.isInteger(age) || age < 1 || age > 120) {
+      throw new SearchError("filters.age must be a whole number of years", 400);
+    }
+    filters.age = age;
+  }
+
+  return filters;
+}
+
+// True when any filter on extracted tender fields is set
+export function hasTenderFilters(filters: SearchFilters = {}): boolean {
+  return Boolean(
+    filters.closingFrom ||
+      filters.closingTo ||
+      filters.tenderNumber ||
+      filters.issuingOffice ||
+      filters.estimatedCostMin !== undefined ||
+      filters.estimatedCostMax !== undefined
+  );
+}
+
+// True when any filter on extracted employment fields is set
+export function hasEmploymentFilters(filters: SearchFilters = {}): boolean {
+  return Boolean(
+    filters.qualification || filters.openNow || filters.age !== undefined
+  );
+}
+
+// Collections a search should visit, honouring the collections filter, any
+// type: qualifier, and tender or employment filters (which only documents
+// of that collection can match)
+export function filterCollections(
+  filters: SearchFilters = {}
+): AllowedCollection[] {
+  const collections = filters.collections ?? [...ALLOWED_COLLECTIONS];
+  const fromQuery = filters.query?.collections;
+  return collections.filter(
+    (collection) =>
+      (!fromQuery || fromQuery.includes(collection)) &&
+      (collection === "Tender" || !hasTenderFilters(filters)) &&
+      (collection === "EmploymentNotice" || !hasEmploymentFilters(filters))
+  );
+}
+
+/**
+ * FILTER MATCH BUILDER
+ * Responsible for: Translating filters into MongoDB conditions
+ * - Text filters are case-insensitive whole-value matches
+ * - Categories match when the document has any of the requested ones
+ * - Tender numbers match exactly and issuing offices by substring, both
+ *   ignoring case; documents without the field never match its filter
+ * - openNow compares the application deadline with the current time
+ * - The collections filter is applied by choosing which collections to query
+ * - Query qualifier conditions are ANDed in
+ */
+export function buildFilterMatch(
+  filters: SearchFilters = {}
+): Record<string, unknown> {
+  const exact = (value: string) => new RegExp(`^${escapeRegex(value)}$`, "i");
+  const match: Record<string, unknown> = {};
+
+  if (filters.department) {
+    match.department = exact(filters.department);
+  }
+  if (filters.fileType) {
+    match.fileType = exact(filters.fileType);
+  }
+  if (filters.categories) {
+    match.categories = { $in: filters.categories.map(exact) };
+  }
+  if (filters.createdFrom || filters.createdTo) {
+    match.createdAt = {
+      ...(filters.createdFrom && { $gte: filters.createdFrom }),
+      ...(filters.createdTo && { $lte: filters.createdTo }),
+    };
+  }
+  if (filters.closingFrom || filters.closingTo) {
+    match["tender.bidCloseDate"] = {
+      ...(filters.closingFrom && { $gte: filters.closingFrom }),
+      ...(filters.closingTo && { $lte: filters.closingTo }),
+    };
+  }
+  if (filters.tenderNumber) {
+    match["tender.tenderNumber"] = exact(filters.tenderNumber);
+  }
+  if (filters.issuingOffice) {
+    match["tender.issuingOffice"] = new RegExp(
+      escapeRegex(filters.issuingOffice),
+      "i"
+    );
+  }
+  if (
+    filters.estimatedCostMin !== undefined ||
+    filters.estimatedCostMax !== undefined
+  ) {
+    match["tender.estimatedCost"] = {
+      ...(filters.estimatedCostMin !== undefined && {
+        $gte: filters.estimatedCostMin,
+      }),
+      ...(filters.estimatedCostMax !== undefined && {
+        $lte: filters.estimatedCostMax,
+      }),
+    };
+  }
+  if (filters.qualification) {
+    match["employment.qualificationLevel"] = filters.qualification;
+  }
+  if (filters.openNow) {
+    match["employment.applicationDeadline"] = { $gte: new Date() };
+  }
+  const conditions = [...(filters.query?.conditions ?? [])];
+  if (filters.age !== undefined) {
+    conditions.push(
+      {
+        $or: [
+          { "employment.minAge": { $exists: false } },
+          { "employment.minAge": { $lte: filters.age } },
+        ],
+      },
+      {
+        $or: [
+          { "employment.maxAge": { $exists: false } },
+          { "employment.maxAge": { $gte: filters.age } },
+        ],
+      }
+    );
+  }
+  if (conditions.length > 0) {
+    match.$and = conditions;
+  }
+
+  return match;
+}
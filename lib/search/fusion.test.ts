@@ -0,0 +1,69 @@
+import { ObjectId } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { fuseRankings } from "./fusion";
+import { SearchResult } from "./types";
+
+const doc = (id: string, extra: Partial<SearchResult> = {}): SearchResult => ({
+  _id: id,
+  collection: "Tender",
+  ...extra,
+});
+
+describe("fuseRankings", () => {
+  it("ranks documents found by both tiers first, summing 1 / (k + rank)", () => {
+    const fused = fuseRankings(
+      {
+        keyword: [doc("a"), doc("b")],
+        semantic: [doc("c"), doc("b")],
+      },
+      10
+    );
+
+    expect(fused.map((result) => result._id)).toEqual(["b", "a", "c"]);
+    expect(fused[0].fusion).toEqual({
+      score: 1 / 12 + 1 / 12,
+      keyword: { rank: 2, score: 1 / 12 },
+      semantic: { rank: 2, score: 1 / 12 },
+    });
+    expect(fused[1].fusion).toEqual({
+      score: 1 / 11,
+      keyword: { rank: 1, score: 1 / 11 },
+    });
+  });
+
+  it("keeps the same _id in different collections apart", () => {
+    const fused = fuseRankings({
+      keyword: [doc("a")],
+      semantic: [doc("a", { collection: "EmploymentNotice" })],
+    });
+
+    expect(fused).toHaveLength(2);
+    expect(fused.every((result) => result.fusion?.score === 1 / 61)).toBe(true);
+  });
+
+  it("matches string and ObjectId ids of the same document", () => {
+    const id = new ObjectId();
+    const fused = fuseRankings({
+      keyword: [doc(id.toString())],
+      semantic: [doc("x"), { _id: id, collection: "Tender" }],
+    });
+
+    expect(fused).toHaveLength(2);
+    expect(fused[0].fusion?.keyword?.rank).toBe(1);
+    expect(fused[0].fusion?.semantic?.rank).toBe(2);
+  });
+
+  it("keeps fields only one tier computed", () => {
+    const [fused] = fuseRankings({
+      keyword: [doc("a", { textScore: 3.5 })],
+      semantic: [doc("a", { similarity: 0.82 })],
+    });
+
+    expect(fused).toMatchObject({ textScore: 3.5, similarity: 0.82 });
+  });
+
+  it("returns nothing for empty rankings", () => {
+    expect(fuseRankings({ keyword: [], semantic: [] })).toEqual([]);
+    expect(fuseRankings({})).toEqual([]);
+  });
+});
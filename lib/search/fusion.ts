@@ -0,0 +1,48 @@
+import { SEARCH_LIMITS, SearchResult, TierContribution } from "./types";
+
+type Tier = "keyword" | "semantic";
+
+/**
+ * RECIPROCAL RANK FUSION
+ * Responsible for: Merging independently ranked tiers into one ranking
+ * - Each tier contributes 1 / (k + rank) for every document it returned
+ * - Documents found by both tiers sum their contributions and rise to the top
+ * - Scores from different tiers never need to be on the same scale
+ * - Records each tier's rank and contribution on the result's `fusion` field
+ */
+export function fuseRankings(
+  rankings: Partial<Record<Tier, SearchResult[]>>,
+  k: number = SEARCH_LIMITS.RRF_K
+): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+
+  for (const [tier, results] of Object.entries(rankings) as [
+    Tier,
+    SearchResult[]
+  ][]) {
+    results.forEach((result, index) => {
+      // Same _id can exist in different collections
+      const key = `${result.collection}:${result._id.toString()}`;
+      const contribution: TierContribution = {
+        rank: index + 1,
+        score: 1 / (k + index + 1),
+      };
+
+      const existing = fused.get(key);
+      fused.set(key, {
+        // Keep fields only one tier computes, such as semantic similarity
+        ...result,
+        ...existing,
+        fusion: {
+          ...existing?.fusion,
+          score: (existing?.fusion?.score ?? 0) + contribution.score,
+          [tier]: contribution,
+        },
+      });
+    });
+  }
+
+  return Array.from(fused.values()).sort(
+    (a, b) => (b.fusion?.score ?? 0) - (a.fusion?.score ?? 0)
+  );
+}
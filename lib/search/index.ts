@@ -0,0 +1,444 @@
+import { Db } from "mongodb";
+import { ALLOWED_COLLECTIONS } from "@/lib/documents";
+import { omit } from "@/lib/utils";
+import { computeFacets, FacetScope, vectorMatchScope } from "./facets";
+import { fuseRankings } from "./fusion";
+import {
+  buildKeywordMatch,
+  buildRefinedMatch,
+  performDatabaseSearch,
+  performRefinedSearch,
+} from "./keyword";
+import { languageName, resolveQueryLanguage } from "./language";
+import { findSemanticMatches, performSemanticSearch } from "./semantic";
+import { filterCollections, SearchFilters } from "./filters";
+import { paginate, SortOrder, sortRankedResults } from "./pipeline";
+import { ParsedQuery, parsePlainQuery, parseQuery, QueryTerm } from "./query";
+import { attachSnippets } from "./snippets";
+import { suggestCorrections } from "./spelling";
+import {
+  SEARCH_LIMITS,
+  SearchEvent,
+  SearchMode,
+  SearchOutcome,
+  SearchProgress,
+  SearchResult,
+} from "./types";
+
+export * from "./types";
+export { fuseRankings } from "./fusion";
+export {
+  buildFilterMatch,
+  escapeRegex,
+  filterCollections,
+  parseSearchFilters,
+} from "./filters";
+export type { QueryConstraints, SearchFilters } from "./filters";
+export { parsePlainQuery, parseQuery, termRegex } from "./query";
+export type { ParsedQuery, QueryTerm } from "./query";
+export { attachSnippets, buildSnippets } from "./snippets";
+export {
+  detectLanguage,
+  languageName,
+  resolveQueryLanguage,
+  transliterateDevanagari,
+} from "./language";
+export { editDistance, phoneticKey, suggestCorrections } from "./spelling";
+export {
+  buildKeywordMatch,
+  buildRefinedMatch,
+  keywordRelevance,
+  performDatabaseSearch,
+  performRefinedSearch,
+  scoreKeywordMatch,
+} from "./keyword";
+export {
+  findSemanticMatches,
+  generateEmbedding,
+  performSemanticSearch,
+} from "./semantic";
+export { findSimilarDocuments } from "./similar";
+export { computeFacets, vectorMatchScope } from "./facets";
+export type { FacetBucket, FacetScope, SearchFacets } from "./facets";
+export {
+  getEmbeddingCacheStats,
+  getQueryEmbedding,
+  normalizeQuery,
+} from "./embedding-cache";
+export type { EmbeddingCacheStats } from "./embedding-cache";
+export {
+  describeSearchError,
+  NO_RESULTS_RESPONSE,
+  noResultsResponse,
+  parseSearchRequest,
+  readJsonBody,
+} from "./request";
+export type { ParsedSearchRequest } from "./request";
+export {
+  aggregatePage,
+  paginate,
+  RESULT_PROJECTION,
+  SORT_ORDERS,
+  sortRankedResults,
+  unionCollections,
+} from "./pipeline";
+export type { Page, SortOrder } from "./pipeline";
+
+/**
+ * DATA NORMALIZATION
+ * Responsible for: Cleaning and standardizing search results
+ * - Converts MongoDB date objects to ISO strings
+ * - Ensures consistent data format for frontend consumption
+ * - Handles different date formats that might exist in the database
+ * - Drops embeddings, which are large and only needed server-side
+ */
+// Normalize date fields
+export function normalizeResults(results: SearchResult[]): SearchResult[] {
+  return results.map((doc) => {
+    const result = omit(doc, "embedding");
+    return {
+      ...result,
+      createdAt:
+        result.createdAt &&
+        typeof result.createdAt === "object" &&
+        "$date" in result.createdAt
+          ? new Date(
+              (result.createdAt as { $date: string }).$date
+            ).toISOString()
+          : result.createdAt || null,
+    };
+  });
+}
+
+export interface SearchOptions {
+  query: string;
+  mode?: SearchMode;
+  page?: number;
+  pageSize?: number;
+  sort?: SortOrder;
+  filters?: SearchFilters;
+  onProgress?: SearchProgress;
+  // Count matches per facet value alongside the page (default true)
+  facets?: boolean;
+  // Suggest corrected queries when results are few (default true)
+  spelling?: boolean;
+  // Read the query as plain words, without operators or qualifiers
+  // (default false); corrections aren't suggested for plain queries
+  plain?: boolean;
+}
+
+// Semantic candidates in every collection, so the collection facet can
+// count the collections a filter excludes
+async function semanticScope(db: Db, query: string): Promise<FacetScope> {
+  return vectorMatchScope(
+    await findSemanticMatches(db, query, ALLOWED_COLLECTIONS)
+  );
+}
+
+/**
+ * HYBRID SEARCH
+ * Responsible for: Running keyword and semantic tiers side by side
+ * - Both tiers run in parallel, so weak literal matches can't hide better
+ *   semantic matches
+ * - Keyword candidates are the HYBRID_CANDIDATES best by field-weighted
+ *   match score, ranked inside MongoDB, not the newest
+ * - Results are merged with reciprocal rank fusion
+ * - `capped` tells whether either tier had more matches than it returned
+ */
+async function performHybridSearch(
+  db: Db,
+  query: ParsedQuery,
+  filters: SearchFilters,
+  emit: SearchProgress
+): Promise<{ results: SearchResult[]; capped: boolean }> {
+  const [keywordPage, semanticResults] = await Promise.all([
+    performDatabaseSearch(
+      db,
+      query,
+      { skip: 0, limit: SEARCH_LIMITS.HYBRID_CANDIDATES, sort: "relevance" },
+      filters
+    ).then((page) => {
+      emit({ type: "partial", tier: "keyword", results: page.results });
+      return page;
+    }),
+    performSemanticSearch(db, query.text, filters, emit),
+  ]);
+
+  return {
+    results: fuseRankings({
+      keyword: keywordPage.results,
+      semantic: semanticResults,
+    }),
+    capped:
+      keywordPage.total > keywordPage.results.length ||
+      semanticResults.length >= SEARCH_LIMITS.SEMANTIC_RESULTS,
+  };
+}
+
+/**
+ * SEARCH ORCHESTRATOR
+ * Responsible for: Running the search tiers for a query
+ *
+ * TIER 1: Basic keyword search (fastest)
+ * - Direct text matching across document fields
+ * - Returns immediately if matches found
+ * - Paged and sorted by date inside MongoDB
+ *
+ * TIER 2: Semantic search (AI-powered)
+ * - Uses embeddings and cosine similarity
+ * - Finds conceptually related documents, with or without shared words
+ * - Only runs if keyword search fails
+ *
+ * In hybrid mode tiers 1 and 2 run together and are rank-fused instead.
+ * In semantic mode tier 1 is skipped, so results are ranked by meaning alone.
+ *
+ * TIER 3: Refined keyword search (fallback)
+ * - Uses AI to generate better search terms
+ * - Searches again with AI-suggested keywords
+ * - Last resort when other methods fail
+ *
+ * Ranked tiers (semantic, hybrid, refined) are paged in memory, after
+ * reordering for the closing and cost sort keys. Their candidates are
+ * capped, so a tier that hit its cap reports `totalIsEstimate`.
+ * The query is parsed first (see ./query); qualifiers and structured
+ * filters are applied inside every tier's $match stage.
+ * Facet counts are computed over the matches of the tier that answered.
+ * Nepali and Hindi queries are searched through their English translation
+ * (see ./language); exclusions and qualifiers are kept as typed.
+ * Fewer than LOW_RESULT_THRESHOLD results adds "did you mean" corrections.
+ * `onProgress` receives status updates and partial results along the way.
+ */
+export async function searchDocuments(
+  db: Db,
+  {
+    query,
+    mode = "waterfall",
+    page = 1,
+    pageSize = SEARCH_LIMITS.PAGE_SIZE,
+    sort = "newest",
+    filters: requestFilters = {},
+    onProgress,
+    facets = true,
+    spelling = true,
+    plain = false,
+  }: SearchOptions
+): Promise<SearchOutcome> {
+  const skip = (page - 1) * pageSize;
+  const paging = { page, pageSize };
+
+  // Syntax errors surface as 400s before any tier runs; qualifiers apply
+  // to every tier like the request's filters
+  const parsed = plain ? parsePlainQuery(query) : parseQuery(query);
+  const filters: SearchFilters = {
+    ...requestFilters,
+    query: parsed.constraints,
+  };
+  if (filterCollections(filters).length === 0) {
+    console.log("❌ Filters and qualifiers exclude every collection");
+    return { results: [], total: 0, ...paging };
+  }
+
+  const language = await resolveQueryLanguage(parsed.text);
+  if (language.detected !== "en") {
+    console.log(
+      `🌐 Detected ${languageName(language.detected)} query, searching as "${
+        language.translatedQuery ?? parsed.text
+      }"`
+    );
+    onProgress?.({
+      type: "status",
+      message: `Translating query from ${languageName(language.detected)}`,
+    });
+  }
+  // The translation replaces the positive terms; exclusions and
+  // constraints still apply as typed
+  const translatedTerms: QueryTerm[] =
+    language.translatedQuery?.split(/\s+/).map((value) => ({
+      value,
+      phrase: false,
+    })) ?? [];
+  const search: ParsedQuery = language.translatedQuery
+    ? {
+        ...parsed,
+        groups: translatedTerms.map((term) => [term]),
+        text: language.translatedQuery,
+      }
+    : parsed;
+
+  // Facets and spelling suggestions are extras: failures are logged and
+  // leave the results untouched
+  const complete = async (
+    outcome: SearchOutcome,
+    scope?: () => FacetScope | Promise<FacetScope>
+  ): Promise<SearchOutcome> => {
+    const completed = { ...outcome, language };
+    if (facets && scope) {
+      try {
+        completed.facets = await computeFacets(db, await scope(), filters);
+      } catch (error) {
+        console.error("Failed to compute facets:", error);
+      }
+    }
+    // The vocabulary is English, so only English queries are corrected
+    if (
+      spelling &&
+      !plain &&
+      language.detected === "en" &&
+      outcome.total < SEARCH_LIMITS.LOW_RESULT_THRESHOLD
+    ) {
+      try {
+        const didYouMean = await suggestCorrections(
+          db,
+          query,
+          requestFilters,
+          outcome.total
+        );
+        if (didYouMean.length > 0) completed.didYouMean = didYouMean;
+      } catch (error) {
+        console.error("Failed to suggest corrections:", error);
+      }
+    }
+    return completed;
+  };
+  // Results leave normalized and with excerpts around the query's matches
+  const present = (results: SearchResult[], extraTerms: QueryTerm[] = []) =>
+    attachSnippets(normalizeResults(results), [
+      ...parsed.groups.flat(),
+      ...translatedTerms,
+      ...extraTerms,
+    ]);
+  const emit = (event: SearchEvent) =>
+    onProgress?.(
+      event.type === "partial"
+        ? { ...event, results: present(event.results) }
+        : event
+    );
+
+  if (mode === "hybrid") {
+    console.log("⚖️ Running hybrid keyword + semantic search");
+    emit({ type: "status", message: "Running keyword and semantic search" });
+    const { results: hybridResults, capped } = await performHybridSearch(
+      db,
+      search,
+      filters,
+      emit
+    );
+
+    if (hybridResults.length > 0) {
+      console.log(`✅ Found ${hybridResults.length} hybrid results`);
+      const { results, total } = paginate(
+        sortRankedResults(hybridResults, sort),
+        skip,
+        pageSize
+      );
+      return complete(
+        {
+          results: present(results),
+          total,
+          ...(capped && { totalIsEstimate: true }),
+          ...paging,
+          searchType: "hybrid",
+        },
+        async () => {
+          const semantic = await semanticScope(db, search.text);
+          return (collection) => ({
+            $or: [buildKeywordMatch(search), semantic(collection)],
+          });
+        }
+      );
+    }
+  } else {
+    // Step 1: Initial database search (skipped in semantic-only mode)
+    if (mode === "waterfall") {
+      console.log("📊 Starting initial database search");
+      emit({ type: "status", message: "Searching document keywords" });
+      const initialPage = await performDatabaseSearch(
+        db,
+        search,
+        { skip, limit: pageSize, sort },
+        filters
+      );
+
+      if (initialPage.total > 0) {
+        console.log(`✅ Found ${initialPage.total} initial results`);
+        return complete(
+          {
+            results: present(initialPage.results),
+            total: initialPage.total,
+            ...paging,
+            searchType: "keyword",
+          },
+          () => () => buildKeywordMatch(search)
+        );
+      }
+    }
+
+    // Step 2: Semantic search
+    console.log("🧠 Trying semantic search");
+    emit({ type: "status", message: "Trying semantic search" });
+    const semanticResults = await performSemanticSearch(
+      db,
+      search.text,
+      filters,
+      emit
+    );
+
+    if (semanticResults.length > 0) {
+      console.log(`✅ Found ${semanticResults.length} semantic results`);
+      const { results, total } = paginate(
+        sortRankedResults(semanticResults, sort),
+        skip,
+        pageSize
+      );
+      return complete(
+        {
+          results: present(results),
+          total,
+          ...(semanticResults.length >= SEARCH_LIMITS.SEMANTIC_RESULTS && {
+            totalIsEstimate: true,
+          }),
+          ...paging,
+          searchType: "semantic",
+        },
+        () => semanticScope(db, search.text)
+      );
+    }
+  }
+
+  // Step 3: Keyword refinement fallback
+  console.log("🔄 Attempting keyword refinement");
+  emit({ type: "status", message: "Refining keywords with AI" });
+  const {
+    results: refinedResults,
+    refinedKeywords,
+    capped,
+  } = await performRefinedSearch(db, search.text, filters, emit);
+
+  if (refinedResults.length > 0) {
+    console.log(
+      `✅ Found ${refinedResults.length} results with refined keywords`
+    );
+    const { results, total } = paginate(
+      sortRankedResults(refinedResults, sort),
+      skip,
+      pageSize
+    );
+    return complete(
+      {
+        results: present(
+          results,
+          refinedKeywords.map((value) => ({ value, phrase: /\s/.test(value) }))
+        ),
+        total,
+        ...(capped && { totalIsEstimate: true }),
+        ...paging,
+        searchType: "refined",
+        refinedKeywords,
+      },
+      () => () => buildRefinedMatch(refinedKeywords)
+    );
+  }
+
+  console.log("❌ No results found");
+  return complete({ results: [], total: 0, ...paging });
+}
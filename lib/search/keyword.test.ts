@@ -0,0 +1,111 @@
+import { Db } from "mongodb";
+import { describe, expect, it } from "vitest";
+import {
+  keywordRelevance,
+  performDatabaseSearch,
+  scoreKeywordMatch,
+} from "./keyword";
+import { parseQuery } from "./query";
+import { PipelineStage, SearchResult } from "./types";
+
+// Evaluates the few aggregation operators keywordRelevance uses against a
+// document, the way MongoDB would
+function evaluate(expression: unknown, doc: object, vars = {}): unknown {
+  if (typeof expression === "string" && expression.startsWith("$$")) {
+    return vars[expression.slice(2) as keyof typeof vars];
+  }
+  if (typeof expression === "string" && expression.startsWith("$")) {
+    return doc[expression.slice(1) as keyof typeof doc];
+  }
+  if (Array.isArray(expression) || typeof expression !== "object") {
+    return expression;
+  }
+  const [[operator, args]] = Object.entries(expression as object);
+  const values = (list: unknown[]) =>
+    list.map((arg) => evaluate(arg, doc, vars));
+  switch (operator) {
+    case "$add":
+      return (values(args) as number[]).reduce((sum, n) => sum + n, 0);
+    case "$cond": {
+      const [test, then, otherwise] = args;
+      return evaluate(evaluate(test, doc, vars) ? then : otherwise, doc, vars);
+    }
+    case "$and":
+      return values(args).every(Boolean);
+    case "$eq": {
+      const [a, b] = values(args);
+      return a === b;
+    }
+    case "$type": {
+      const value = evaluate(args, doc, vars);
+      if (value === undefined) return "missing";
+      return Array.isArray(value) ? "array" : typeof value;
+    }
+    case "$isArray":
+      return Array.isArray(evaluate(args, doc, vars));
+    case "$anyElementTrue":
+      return (values(args)[0] as unknown[]).some(Boolean);
+    case "$map":
+      return (evaluate(args.input, doc, vars) as unknown[]).map((item) =>
+        evaluate(args.in, doc, { ...vars, this: item })
+      );
+    case "$regexMatch":
+      return (args.regex as RegExp).test(
+        evaluate(args.input, doc, vars) as string
+      );
+    default:
+      throw new Error(`Unsupported operator ${operator}`);
+  }
+}
+
+describe("keywordRelevance", () => {
+  const docs: SearchResult[] = [
+    { _id: "1", title: "Road tender", content: "Construction of road" },
+    { _id: "2", summary: "Bridge works", categories: ["Road", "Bridge"] },
+    { _id: "3", keywords: ["bridge"], content: "Teacher recruitment" },
+    { _id: "4", title: "Holiday list" },
+  ];
+
+  it("scores documents like scoreKeywordMatch", () => {
+    for (const input of ["road", "road OR bridge", '"road tender" bridge']) {
+      const query = parseQuery(input);
+      for (const doc of docs) {
+        expect(evaluate(keywordRelevance(query), doc)).toBeCloseTo(
+          scoreKeywordMatch(doc, query)
+        );
+      }
+    }
+  });
+});
+
+describe("performDatabaseSearch", () => {
+  it("ranks by relevance inside the database when asked", async () => {
+    const aggregations: PipelineStage[][] = [];
+    const db = {
+      collection: () => ({
+        aggregate: (pipeline: PipelineStage[]) => {
+          aggregations.push(pipeline);
+          return { toArray: async () => [] };
+        },
+      }),
+    } as unknown as Db;
+
+    await performDatabaseSearch(
+      db,
+      parseQuery("road"),
+      { skip: 0, limit: 100, sort: "relevance" },
+      { collections: ["Tender"] }
+    );
+
+    const [pipeline] = aggregations;
+    const addFields = pipeline.findIndex(
+      (stage) => "$addFields" in stage && "relevance" in stage.$addFields
+    );
+    const sort = pipeline.findIndex((stage) => "$sort" in stage);
+    expect(addFields).toBeGreaterThan(-1);
+    expect(addFields).toBeLessThan(sort);
+    expect(pipeline[sort]).toEqual({
+      $sort: { relevance: -1, createdAt: -1, _id: -1 },
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { Db } from "mongodb";
+import { getLLMProvider } from "@/lib/llm";
+import { ALLOWED_COLLECTIONS, MongoDocument } from "@/lib/documents";
+import { buildFilterMatch, filterCollections, SearchFilters } from "./filters";
+import { aggregatePage, Page, PageSort, RESULT_PROJECTION } from "./pipeline";
+import { ParsedQuery, QueryTerm, termRegex } from "./query";
+import {
+  PipelineStage,
+  SEARCH_LIMITS,
+  SearchProgress,
+  SearchResult,
+} from "./types";
+
+/**
+ * SEARCH TERM REFINEMENT
+ * Responsible for: Improving search queries using AI to extract better keywords
+ * - Takes user's original query and sample documents as context
+ * - Uses the configured LLM provider to generate more relevant search terms
+ * - Helps find documents when direct keyword matching fails
+ */
+// Refine search terms using the configured LLM provider
+async function refineSearchTerms(
+  query: string,
+  sampleDocs: SearchResult[]
+): Promise<string[]> {
+  // Limit sample docs to avoid token limits
+  const limitedDocs = sampleDocs.slice(0, 10).map((doc) => ({
+    title: doc.title,
+    categories: doc.categories,
+    keywords: doc.keywords,
+    department: doc.department,
+  }));
+
+  const prompt = `Given this user query: "${query}"
+        
+And these document samples: ${JSON.stringify(limitedDocs)}
+
+Extract 3-5 relevant search keywords that would help find documents related to the query. Return only the keywords as a comma-separated list, no explanations.`;
+
+  try {
+    const text = await getLLMProvider().generateText(prompt);
+
+    return text
+      .split(/[,\n]/)
+      .map((k: string) => k.trim()) // Explicitly type 'k' as string
+      .filter((k: string) => k.length > 2) // Explicitly type 'k' as string
+      .slice(0, 5);
+  } catch (error) {
+    console.error("Failed to refine search terms:", error);
+    return []; // Fallback to empty array
+  }
+}
+
+// Fields a query term may match in
+const TEXT_FIELDS = [
+  "categories",
+  "keywords",
+  "department",
+  "title",
+  "content",
+] as const;
+
+function termMatch(term: QueryTerm): Record<string, unknown> {
+  const regex = termRegex(term); // Escapes special chars
+  return { $or: TEXT_FIELDS.map((field) => ({ [field]: regex })) };
+}
+
+/**
+ * KEYWORD MATCH COMPILER
+ * Responsible for: Turning a parsed query into MongoDB text conditions
+ * - Each AND group becomes one condition; terms joined by OR share an $or
+ * - Excluded terms are wrapped in $nor
+ * - A query made only of qualifiers matches every document
+ */
+export function buildKeywordMatch(query: ParsedQuery): Record<string, unknown> {
+  const conditions = query.groups.map((group) =>
+    group.length === 1 ? termMatch(group[0]) : { $or: group.map(termMatch) }
+  );
+  if (query.excluded.length > 0) {
+    conditions.push({ $nor: query.excluded.map(termMatch) });
+  }
+  return conditions.length > 0 ? { $and: conditions } : {};
+}
+
+// Documents tagged with any of the AI-refined keywords
+export function buildRefinedMatch(
+  refinedKeywords: string[]
+): Record<string, unknown> {
+  return {
+    $or: [
+      { keywords: { $in: refinedKeywords } },
+      { categories: { $in: refinedKeywords } },
+    ],
+  };
+}
+
+// Field weights of keyword relevance (see scoreKeywordMatch)
+const FIELD_WEIGHTS = {
+  title: 2,
+  summary: 1.8,
+  categories: 1.5,
+  keywords: 1.5,
+  content: 1,
+} as const;
+
+// Aggregation expression: does a string, or any string in an array, match
+function fieldMatches(field: string, regex: RegExp): Record<string, unknown> {
+  const test = (value: string) => ({
+    $and: [
+      { $eq: [{ $type: value }, "string"] },
+      { $regexMatch: { input: value, regex } },
+    ],
+  });
+  return {
+    $cond: [
+      { $isArray: `$${field}` },
+      {
+        $anyElementTrue: [{ $map: { input: `$${field}`, in: test("$$this") } }],
+      },
+      test(`$${field}`),
+    ],
+  };
+}
+
+// scoreKeywordMatch as an aggregation expression, so MongoDB can rank
+export function keywordRelevance(query: ParsedQuery): Record<string, unknown> {
+  const parts = query.groups.flat().flatMap((term) =>
+    Object.entries(FIELD_WEIGHTS).map(([field, weight]) => ({
+      $cond: [fieldMatches(field, termRegex(term)), weight, 0],
+    }))
+  );
+  return { $add: [0, ...parts] };
+}
+
+/**
+ * BASIC DATABASE SEARCH (KEYWORD MATCHING)
+ * Responsible for: Finding documents using traditional text matching
+ * - Searches across multiple fields: categories, keywords, department, title, content
+ * - Uses regular expressions for case-insensitive matching of each query term,
+ *   honouring AND/OR, exclusions and quoted phrases
+ * - Fast and reliable for exact keyword matches
+ * - Searches across all allowed collections (EmploymentNotice, NotificationCircular, Tender)
+ * - Returns one page sorted by date along with the total number of matches
+ * - sort "relevance" ranks by keywordRelevance instead, for hybrid fusion
+ */
+// Optimized database search with aggregation
+export async function performDatabaseSearch(
+  db: Db,
+  query: ParsedQuery,
+  page: { skip: number; limit: number; sort: PageSort },
+  filters: SearchFilters = {}
+): Promise<Page<SearchResult>> {
+  const stages: PipelineStage[] = [
+    {
+      $match: {
+        $and: [buildKeywordMatch(query), buildFilterMatch(filters)],
+      },
+    },
+    ...(page.sort === "relevance"
+      ? [{ $addFields: { relevance: keywordRelevance(query) } }]
+      : []),
+  ];
+
+  return aggregatePage(db, stages, page, filterCollections(filters));
+}
+
+// Number of documents a parsed query matches, without fetching them
+export async function countKeywordMatches(
+  db: Db,
+  query: ParsedQuery,
+  filters: SearchFilters = {}
+): Promise<number> {
+  const match = {
+    $and: [buildKeywordMatch(query), buildFilterMatch(filters)],
+  };
+  const counts = await Promise.all(
+    filterCollections(filters).map((collection) =>
+      db.collection<MongoDocument>(collection).countDocuments(match)
+    )
+  );
+  return counts.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * REFINED KEYWORD SEARCH
+ * Responsible for: The AI-assisted fallback tier
+ * - Samples a few documents per collection as context for the LLM
+ * - Asks for better keywords and matches them against keywords/categories
+ */
+export async function performRefinedSearch(
+  db: Db,
+  query: string,
+  filters: SearchFilters = {},
+  onProgress?: SearchProgress
+): Promise<{
+  results: SearchResult[];
+  refinedKeywords: string[];
+  // Whether a collection had more matches than INITIAL_RESULTS
+  capped: boolean;
+}> {
+  // Nothing to refine when the query is only qualifiers and exclusions
+  if (!query.trim()) {
+    return { results: [], refinedKeywords: [], capped: false };
+  }
+
+  // Get sample documents for context
+  const sampleDocs: SearchResult[] = [];
+  for (const collection of ALLOWED_COLLECTIONS) {
+    const docs = await db
+      .collection<MongoDocument>(collection)
+      .find<MongoDocument>({})
+      .project({ title: 1, categories: 1, keywords: 1, department: 1 })
+      .limit(5)
+      .toArray();
+    sampleDocs.push(
+      ...docs.map((doc) => ({ ...doc, _id: doc._id.toString() }))
+    ); // Convert _id to string
+  }
+
+  const refinedKeywords = await refineSearchTerms(query, sampleDocs);
+  if (refinedKeywords.length === 0) {
+    return { results: [], refinedKeywords, capped: false };
+  }
+
+  console.log("🔑 Refined keywords:", refinedKeywords);
+  onProgress?.({ type: "refined", keywords: refinedKeywords });
+  const keywordResults: SearchResult[] = [];
+  let capped = false;
+  for (const collection of filterCollections(filters)) {
+    const docs = await db
+      .collection<MongoDocument>(collection)
+      .find<MongoDocument>({
+        $and: [buildRefinedMatch(refinedKeywords), buildFilterMatch(filters)],
+      })
+      .project(RESULT_PROJECTION)
+      .limit(SEARCH_LIMITS.INITIAL_RESULTS)
+      .toArray();
+    capped ||= docs.length === SEARCH_LIMITS.INITIAL_RESULTS;
+    const docsWithCollection = docs.map((doc) => ({
+      ...doc,
+      collection: collection,
+      _id: doc._id.toString(), // Convert ObjectId to string
+    }));
+    keywordResults.push(...docsWithCollection);
+    onProgress?.({
+      type: "partial",
+      tier: "refined",
+      collection,
+      results: docsWithCollection,
+    });
+  }
+
+  return { results: keywordResults, refinedKeywords, capped };
+}
+
+/**
+ * KEYWORD RELEVANCE SCORING
+ * Responsible for: Ordering keyword matches so they can be rank-fused
+ * - Weights the field that matched (FIELD_WEIGHTS): title 2, summary 1.8,
+ *   categories/keywords 1.5, content 1
+ * - Scores are summed over the query's terms and phrases
+ */
+export function scoreKeywordMatch(
+  doc: SearchResult,
+  query: ParsedQuery
+): number {
+  return query.groups.flat().reduce((score, term) => {
+    const regex = termRegex(term);
+    const matches = (value?: string | string[]) =>
+      Array.isArray(value)
+        ? value.some((v) => regex.test(v))
+        : !!value && regex.test(value);
+
+    return (
+      score +
+      (matches(doc.title) ? FIELD_WEIGHTS.title : 0) +
+      (matches(doc.summary) ? FIELD_WEIGHTS.summary : 0) +
+      (matches(doc.categories) ? FIELD_WEIGHTS.categories : 0) +
+      (matches(doc.keywords) ? FIELD_WEIGHTS.keywords : 0) +
+      (matches(doc.content) ? FIELD_WEIGHTS.content : 0)
+    );
+  }, 0);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { detectLanguage } from "./language";
+
+describe("detectLanguage", () => {
+  it.each([
+    "MA economics lecturer",
+    "KO SE",
+    "Ke Bhutia sub-divisional office",
+    "road construction tender",
+    "MA SE results",
+  ])("keeps %j English", (query) => {
+    expect(detectLanguage(query)).toEqual({ detected: "en", script: "latin" });
+  });
+
+  it.each([
+    ["namchi ma jagir", "ne"],
+    ["nurse ko lagi", "ne"],
+    ["jagir", "ne"],
+    ["sarkari naukri", "hi"],
+    ["gangtok mein kya hai", "hi"],
+  ])("detects %j as romanized %s", (query, detected) => {
+    expect(detectLanguage(query)).toEqual({ detected, script: "latin" });
+  });
+
+  it("reads Devanagari queries as Nepali or Hindi", () => {
+    expect(detectLanguage("नर्सको लागि जागिर").detected).toBe("ne");
+    expect(detectLanguage("सरकारी नौकरी के लिए").detected).toBe("hi");
+  });
+});
@@ -0,0 +1,365 @@
+import { getLLMProvider } from "@/lib/llm";
+import { LanguageInfo, QueryLanguage } from "./types";
+
+/**
+ * QUERY LANGUAGE DETECTION
+ * Responsible for: Recognising Nepali and Hindi queries, in Devanagari or
+ * romanized, so they can be searched against the English corpus
+ * - Script is read from the characters; language from common function words
+ *   and government vocabulary of each language
+ * - Romanized queries need two markers, or one that isn't also English, so
+ *   "MA economics lecturer" stays English
+ * - Ties between Nepali and Hindi go to Nepali, Sikkim's official language
+ */
+const LANGUAGE_NAMES: Record<QueryLanguage, string> = {
+  en: "English",
+  ne: "Nepali",
+  hi: "Hindi",
+};
+
+const DEVANAGARI = /[ऀ-ॿ]/;
+
+const MARKERS: Record<"ne" | "hi", { devanagari: string[]; latin: string[] }> =
+  {
+    ne: {
+      devanagari: [
+        "को",
+        "मा",
+        "हरू",
+        "हरु",
+        "छ",
+        "छन्",
+        "लागि",
+        "गर्न",
+        "भएको",
+        "सम्बन्धी",
+        "जागिर",
+        "रोजगार",
+        "भर्ना",
+        "कार्यालय",
+        "विभाग",
+        "सरकारी",
+        "सूचना",
+      ],
+      latin: [
+        "ko",
+        "ma",
+        "haru",
+        "cha",
+        "chha",
+        "chhan",
+        "lagi",
+        "garna",
+        "bhayeko",
+        "sambandhi",
+        "jagir",
+        "jaagir",
+        "rojgar",
+        "bharna",
+        "karyalaya",
+        "bibhag",
+        "sarkari",
+        "suchana",
+        "kun",
+        "kaha",
+      ],
+    },
+    hi: {
+      devanagari: [
+        "के",
+        "में",
+        "है",
+        "हैं",
+        "की",
+        "का",
+        "लिए",
+        "और",
+        "से",
+        "नौकरी",
+        "संबंधित",
+        "भर्ती",
+        "कार्यालय",
+        "विभाग",
+        "सरकारी",
+        "सूचना",
+      ],
+      latin: [
+        "ke",
+        "ki",
+        "mein",
+        "hai",
+        "hain",
+        "liye",
+        "aur",
+        "se",
+        "naukri",
+        "naukari",
+        "sambandhit",
+        "bharti",
+        "karyalay",
+        "vibhag",
+        "sarkari",
+        "suchna",
+        "kahan",
+        "kya",
+      ],
+    },
+  };
+
+// Romanized markers that are also English words, abbreviations or names
+// ("MA", "KO", "Ke"), too weak to mark a query on their own
+const AMBIGUOUS_LATIN_MARKERS = new Set([
+  "ko",
+  "ma",
+  "cha",
+  "kun",
+  "kaha",
+  "ke",
+  "ki",
+  "se",
+  "hai",
+  "hain",
+  "mein",
+  "aur",
+  "kya",
+]);
+
+export function detectLanguage(
+  text: string
+): Pick<LanguageInfo, "detected" | "script"> {
+  const script = DEVANAGARI.test(text) ? "devanagari" : "latin";
+  const words = new Set(text.toLowerCase().match(/[\p{L}\p{M}]+/gu) ?? []);
+  const found = (language: "ne" | "hi") =>
+    MARKERS[language][script].filter((marker) => words.has(marker));
+  const convincing = (markers: string[]) =>
+    markers.length >= 2 ||
+    markers.some((marker) => !AMBIGUOUS_LATIN_MARKERS.has(marker));
+
+  const nepali = found("ne");
+  const hindi = found("hi");
+  if (script === "latin" && !convincing(nepali) && !convincing(hindi)) {
+    return { detected: "en", script };
+  }
+  return { detected: hindi.length > nepali.length ? "hi" : "ne", script };
+}
+
+/**
+ * DEVANAGARI TRANSLITERATION
+ * Romanizes Devanagari the way Sikkim names are usually spelled in English
+ * documents
+ * - Long vowels are written short
+ * - Silent inherent vowels are dropped: always at the end of a word, and
+ *   between a vowel and a following consonant-vowel ("गंगटोक" -> "gangtok"),
+ *   unless the word ends in a conjunct
+ */
+const CONSONANTS: Record<string, string> = {
+  क: "k",
+  ख: "kh",
+  ग: "g",
+  घ: "gh",
+  ङ: "ng",
+  च: "ch",
+  छ: "chh",
+  ज: "j",
+  झ: "jh",
+  ञ: "ny",
+  ट: "t",
+  ठ: "th",
+  ड: "d",
+  ढ: "dh",
+  ण: "n",
+  त: "t",
+  थ: "th",
+  द: "d",
+  ध: "dh",
+  न: "n",
+  प: "p",
+  फ: "ph",
+  ब: "b",
+  भ: "bh",
+  म: "m",
+  य: "y",
+  र: "r",
+  ल: "l",
+  व: "w",
+  श: "sh",
+  ष: "sh",
+  स: "s",
+  ह: "h",
+  ळ: "l",
+};
+
+const VOWELS: Record<string, string> = {
+  अ: "a",
+  आ: "a",
+  इ: "i",
+  ई: "i",
+  उ: "u",
+  ऊ: "u",
+  ऋ: "ri",
+  ए: "e",
+  ऐ: "ai",
+  ओ: "o",
+  औ: "au",
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  "ा": "a",
+  "ि": "i",
+  "ी": "i",
+  "ु": "u",
+  "ू": "u",
+  "ृ": "ri",
+  "े": "e",
+  "ै": "ai",
+  "ो": "o",
+  "ौ": "au",
+};
+
+const VIRAMA = "्";
+const CODAS: Record<string, string> = { "ं": "n", "ँ": "n", "ः": "h" };
+
+interface Syllable {
+  onset: string;
+  vowel: string;
+  // Vowel is the consonant's unwritten "a", which may be silent
+  inherent: boolean;
+  coda: string;
+}
+
+// Drop silent inherent vowels from one word's syllables
+function deleteSchwas(word: Syllable[]): void {
+  const last = word[word.length - 1];
+  // A final conjunct keeps its vowel ("स्वास्थ्य" -> "swasthya")
+  const conjunct = word.length > 1 && word[word.length - 2].vowel === "";
+  if (word.length > 1 && last.inherent && !last.coda && !conjunct) {
+    last.vowel = "";
+  }
+
+  for (let i = word.length - 2; i > 0; i--) {
+    const syllable = word[i];
+    if (
+      syllable.inherent &&
+      !syllable.coda &&
+      word[i - 1].vowel &&
+      word[i + 1].onset &&
+      word[i + 1].vowel
+    ) {
+      syllable.vowel = "";
+    }
+  }
+}
+
+export function transliterateDevanagari(text: string): string {
+  let output = "";
+  let word: Syllable[] = [];
+
+  const endWord = () => {
+    deleteSchwas(word);
+    output += word
+      .map((s) => s.onset + s.vowel + s.coda)
+      .join("")
+      .replace(/ngg/g, "ng");
+    word = [];
+  };
+
+  for (const char of text.normalize("NFC").replace(/़/g, "")) {
+    const current = word[word.length - 1];
+    if (CONSONANTS[char]) {
+      word.push({
+        onset: CONSONANTS[char],
+        vowel: "a",
+        inherent: true,
+        coda: "",
+      });
+    } else if (VOWEL_SIGNS[char] !== undefined && current?.inherent) {
+      current.vowel = VOWEL_SIGNS[char];
+      current.inherent = false;
+    } else if (char === VIRAMA && current?.inherent) {
+      current.vowel = "";
+      current.inherent = false;
+    } else if (CODAS[char] && current) {
+      current.coda += CODAS[char];
+    } else if (VOWELS[char]) {
+      word.push({ onset: "", vowel: VOWELS[char], inherent: false, coda: "" });
+    } else if (/[०-९]/.test(char)) {
+      endWord();
+      output += String(char.charCodeAt(0) - 0x0966);
+    } else {
+      endWord();
+      output += char === "।" ? "." : char;
+    }
+  }
+  endWord();
+  return output;
+}
+
+// Keep only searchable words from a model's reply
+function cleanTranslation(reply: string): string {
+  const firstLine =
+    reply
+      .split("\n")
+      .map((line) => line.trim())
+      .find(Boolean) ?? "";
+  return firstLine
+    .replace(/["'`*:]/g, " ")
+    .replace(/\b(OR|AND)\b/g, " ")
+    .replace(/(^|\s)-+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * QUERY TRANSLATION
+ * Responsible for: English search keywords for a Nepali or Hindi query
+ * - Asks the LLM provider for a short English keyword query
+ * - Devanagari falls back to transliteration when the provider fails or
+ *   answers in Devanagari, so place names still match
+ */
+async function translateQuery(
+  text: string,
+  detected: Exclude<QueryLanguage, "en">,
+  script: LanguageInfo["script"]
+): Promise<string | undefined> {
+  const prompt = `Translate this ${LANGUAGE_NAMES[detected]} search query${
+    script === "latin" ? " (written in Roman script)" : ""
+  } into English search keywords for a Sikkim government document portal: "${text}"
+
+Keep place names, department names and other proper nouns, spelled the way they are usually written in English. Return only the English keywords (2-6 words) on one line, no explanations.`;
+
+  try {
+    const translated = cleanTranslation(
+      await getLLMProvider().generateText(prompt)
+    );
+    if (translated && !DEVANAGARI.test(translated)) return translated;
+  } catch (error) {
+    console.error("Failed to translate query:", error);
+  }
+
+  return script === "devanagari" ? transliterateDevanagari(text) : undefined;
+}
+
+/**
+ * QUERY LANGUAGE RESOLUTION
+ * Detects the language of a query's text and, unless it is English, the
+ * English query the search tiers should run
+ */
+export async function resolveQueryLanguage(
+  text: string
+): Promise<LanguageInfo> {
+  const detection = detectLanguage(text);
+  if (detection.detected === "en" || !text.trim()) return detection;
+
+  const translatedQuery = await translateQuery(
+    text,
+    detection.detected,
+    detection.script
+  );
+  return translatedQuery && translatedQuery.toLowerCase() !== text.toLowerCase()
+    ? { ...detection, translatedQuery }
+    : detection;
+}
+
+export function languageName(language: QueryLanguage): string {
+  return LANGUAGE_NAMES[language];
+}
@@ -0,0 +1,92 @@
+import { Db, ObjectId } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { aggregatePage } from "./pipeline";
+import { PipelineStage } from "./types";
+
+const tenderId = new ObjectId();
+const circularId = new ObjectId();
+const deletedId = new ObjectId();
+
+// Records the aggregation and serves the page's documents by id
+function fakeDb() {
+  const aggregations: PipelineStage[][] = [];
+  const stored: Record<string, Array<{ _id: ObjectId; title: string }>> = {
+    Tender: [{ _id: tenderId, title: "Road works" }],
+    NotificationCircular: [{ _id: circularId, title: "Holiday list" }],
+  };
+  const db = {
+    collection: (name: string) => ({
+      aggregate: (pipeline: PipelineStage[]) => {
+        aggregations.push(pipeline);
+        return {
+          toArray: async () => [
+            {
+              results: [
+                { _id: circularId, collection: "NotificationCircular" },
+                { _id: deletedId, collection: "Tender" },
+                { _id: tenderId, collection: "Tender" },
+              ],
+              total: [{ count: 3 }],
+            },
+          ],
+        };
+      },
+      find: (filter: { _id: { $in: ObjectId[] } }) => ({
+        project: () => ({
+          toArray: async () =>
+            (stored[name] ?? []).filter((doc) =>
+              filter._id.$in.some((id) => id.equals(doc._id))
+            ),
+        }),
+      }),
+    }),
+  } as unknown as Db;
+  return { db, aggregations };
+}
+
+describe("aggregatePage", () => {
+  it("sorts only the sort keys", async () => {
+    const { db, aggregations } = fakeDb();
+    await aggregatePage(
+      db,
+      [{ $match: { department: "Health" } }],
+      { skip: 0, limit: 10, sort: "newest" },
+      ["Tender", "NotificationCircular"]
+    );
+
+    const [pipeline] = aggregations;
+    const sortIndex = pipeline.findIndex((stage) => "$sort" in stage);
+    const projection = pipeline.findIndex((stage) => "$project" in stage);
+    expect(projection).toBeGreaterThan(-1);
+    expect(projection).toBeLessThan(sortIndex);
+    const { $project } = pipeline[projection] as { $project: object };
+    expect($project).not.toHaveProperty("content");
+    expect($project).not.toHaveProperty("embedding");
+
+    // The other collection is projected the same way before the union
+    const union = pipeline.find((stage) => "$unionWith" in stage) as {
+      $unionWith: { pipeline: PipelineStage[] };
+    };
+    expect(union.$unionWith.pipeline).toContainEqual(pipeline[projection]);
+  });
+
+  it("returns the page's documents in sorted order", async () => {
+    const { db } = fakeDb();
+    const page = await aggregatePage(
+      db,
+      [],
+      { skip: 0, limit: 10, sort: "newest" },
+      ["Tender", "NotificationCircular"]
+    );
+
+    expect(page.total).toBe(3);
+    expect(page.results).toEqual([
+      {
+        _id: circularId.toString(),
+        collection: "NotificationCircular",
+        title: "Holiday list",
+      },
+      { _id: tenderId.toString(), collection: "Tender", title: "Road works" },
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+import { Db } from "mongodb";
+import {
+  ALLOWED_COLLECTIONS,
+  AllowedCollection,
+  MongoDocument,
+} from "@/lib/documents";
+import { PipelineStage, SearchResult } from "./types";
+
+/**
+ * RESULT PROJECTION
+ * Fields returned to clients; embeddings stay in the database
+ */
+export const RESULT_PROJECTION = {
+  title: 1,
+  name: 1,
+  content: 1,
+  categories: 1,
+  keywords: 1,
+  department: 1,
+  createdAt: 1,
+  filePath: 1,
+  collection: 1,
+  supabase: 1, // Include supabase field for download URLs
+  aws: 1, // Include aws field as fallback
+  summary: 1,
+  fileType: 1,
+  tender: 1,
+  employment: 1,
+} as const;
+
+/**
+ * SORT ORDERS
+ * - newest / oldest: by createdAt
+ * - closing: tenders still open, soonest deadline first; closed and
+ *   undated documents follow, newest first
+ * - cost: highest estimated tender cost first; documents without one last
+ */
+export const SORT_ORDERS = ["newest", "oldest", "closing", "cost"] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+// Orders a page can be fetched in; "relevance" reads a `relevance` field the
+// caller's stages compute, and is only used internally
+export type PageSort = SortOrder | "relevance";
+
+// Sorts after every real deadline, for documents that aren't open tenders
+const NO_DEADLINE = new Date("9999-12-31T00:00:00Z");
+
+// Stages that order documents for `sort`, ties broken by date then _id
+function sortStages(sort: PageSort, now: Date): PipelineStage[] {
+  switch (sort) {
+    case "relevance":
+      return [{ $sort: { relevance: -1, createdAt: -1, _id: -1 } }];
+    case "oldest":
+      return [{ $sort: { createdAt: 1, _id: 1 } }];
+    case "closing":
+      return [
+        {
+          $addFields: {
+            closingKey: {
+              $cond: [
+                { $gte: ["$tender.bidCloseDate", now] },
+                "$tender.bidCloseDate",
+                NO_DEADLINE,
+              ],
+            },
+          },
+        },
+        { $sort: { closingKey: 1, createdAt: -1, _id: -1 } },
+      ];
+    case "cost":
+      return [
+        { $sort: { "tender.estimatedCost": -1, createdAt: -1, _id: -1 } },
+      ];
+    default:
+      return [{ $sort: { createdAt: -1, _id: -1 } }];
+  }
+}
+
+function timeOf(value: Date | string | null | undefined): number {
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? -Infinity : time;
+}
+
+/**
+ * RANKED RESULT ORDERING
+ * Responsible for: Applying the tender sort keys to relevance-ranked tiers
+ * - closing and cost reorder the whole ranked list before paging, keeping
+ *   relevance order among ties
+ * - newest and oldest leave the ranking as it is
+ */
+export function sortRankedResults(
+  results: SearchResult[],
+  sort: SortOrder,
+  now: Date = new Date()
+): SearchResult[] {
+  if (sort === "closing") {
+    const closingKey = (result: SearchResult) => {
+      const time = timeOf(result.tender?.bidCloseDate);
+      return time >= now.getTime() ? time : Infinity;
+    };
+    return [...results].sort((a, b) => {
+      const difference = closingKey(a) - closingKey(b);
+      return isNaN(difference) ? 0 : difference;
+    });
+  }
+  if (sort === "cost") {
+    const cost = (result: SearchResult) =>
+      result.tender?.estimatedCost ?? -Infinity;
+    return [...results].sort((a, b) => {
+      const difference = cost(b) - cost(a);
+      return isNaN(difference) ? 0 : difference;
+    });
+  }
+  return results;
+}
+
+export interface Page<T> {
+  results: T[];
+  total: number;
+}
+
+/**
+ * CROSS-COLLECTION PIPELINE
+ * Responsible for: Running the same stages over every allowed collection at once
+ * - Applies `stages` to each collection and tags documents with their collection
+ * - Joins the collections with $unionWith so sorting and paging are global
+ */
+export function unionCollections(
+  stages: PipelineStage[],
+  collections: readonly AllowedCollection[] = ALLOWED_COLLECTIONS
+): PipelineStage[] {
+  const [first, ...rest] = collections;
+  return [
+    ...stages,
+    { $addFields: { collection: first } },
+    ...rest.map((collection) => ({
+      $unionWith: {
+        coll: collection,
+        pipeline: [...stages, { $addFields: { collection } }],
+      },
+    })),
+  ];
+}
+
+// The only fields sortStages reads, so the sort never carries text or
+// embeddings
+const SORT_PROJECTION = {
+  relevance: 1,
+  createdAt: 1,
+  "tender.bidCloseDate": 1,
+  "tender.estimatedCost": 1,
+} as const;
+
+// Load a page of { _id, collection } keys with RESULT_PROJECTION, in order
+async function loadPage(
+  db: Db,
+  keys: Array<{ _id: MongoDocument["_id"]; collection: AllowedCollection }>
+): Promise<SearchResult[]> {
+  const byKey = new Map<string, MongoDocument>();
+  const collections = [...new Set(keys.map((key) => key.collection))];
+  await Promise.all(
+    collections.map(async (collection) => {
+      const docs = await db
+        .collection<MongoDocument>(collection)
+        .find({
+          _id: {
+            $in: keys
+              .filter((key) => key.collection === collection)
+              .map((key) => key._id),
+          },
+        })
+        .project<MongoDocument>(RESULT_PROJECTION)
+        .toArray();
+      docs.forEach((doc) => byKey.set(`${collection}:${doc._id}`, doc));
+    })
+  );
+
+  // Documents deleted since the sort are left out
+  return keys.flatMap(({ _id, collection }) => {
+    const doc = byKey.get(`${collection}:${_id}`);
+    return doc ? [{ ...doc, collection, _id: doc._id.toString() }] : [];
+  });
+}
+
+/**
+ * PAGINATED AGGREGATION
+ * Responsible for: Returning one sorted page plus the total match count
+ * - Sorts by `sort` (ties broken by _id so pages never overlap)
+ * - Uses $facet so the count and the page come from a single round trip
+ * - Sorts only the sort keys, then loads the page's documents, so full
+ *   text and embeddings never pass through the blocking sort
+ */
+export async function aggregatePage(
+  db: Db,
+  stages: PipelineStage[],
+  { skip, limit, sort }: { skip: number; limit: number; sort: PageSort },
+  collections: readonly AllowedCollection[] = ALLOWED_COLLECTIONS
+): Promise<Page<SearchResult>> {
+  const pipeline: PipelineStage[] = [
+    ...unionCollections(
+      [...stages, { $project: SORT_PROJECTION }],
+      collections
+    ),
+    ...sortStages(sort, new Date()),
+    {
+      $facet: {
+        results: [
+          { $skip: skip },
+          { $limit: limit },
+          { $project: { _id: 1, collection: 1 } },
+        ],
+        total: [{ $count: "count" }],
+      },
+    },
+  ];
+
+  const [facet] = await db
+    .collection<MongoDocument>(collections[0])
+    .aggregate<{
+      results: Array<{
+        _id: MongoDocument["_id"];
+        collection: AllowedCollection;
+      }>;
+      total: Array<{ count: number }>;
+    }>(pipeline)
+    .toArray();
+
+  return {
+    results: await loadPage(db, facet?.results ?? []),
+    total: facet?.total[0]?.count ?? 0,
+  };
+}
+
+// Slice an already ranked in-memory result list
+export function paginate<T>(items: T[], skip: number, limit: number): Page<T> {
+  return { results: items.slice(skip, skip + limit), total: items.length };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { parsePlainQuery, parseQuery } from "./query";
+
+describe("parseQuery", () => {
+  it("ignores dashes that stand alone", () => {
+    for (const input of ["Namchi - Gangtok", "Namchi -- Gangtok", "Namchi -"]) {
+      const query = parseQuery(input);
+      expect(query.excluded).toEqual([]);
+      expect(query.text).toBe(
+        input.includes("Gangtok") ? "Namchi Gangtok" : "Namchi"
+      );
+    }
+  });
+
+  it("still excludes words and phrases directly after a dash", () => {
+    const query = parseQuery('road -bridge -"rate contract" - culvert');
+    expect(query.text).toBe("road culvert");
+    expect(query.excluded).toEqual([
+      { value: "bridge", phrase: false },
+      { value: "rate contract", phrase: true },
+    ]);
+  });
+
+  it("rejects a query that is only dashes", () => {
+    expect(() => parseQuery(" - ")).toThrow("enter at least one search term");
+  });
+});
+
+describe("date qualifiers", () => {
+  const bound = (input: string) =>
+    parseQuery(input).constraints.conditions[0] as {
+      createdAt: Record<string, Date>;
+    };
+
+  it("bound createdAt at the start of the day in IST", () => {
+    // Midnight in Gangtok is 18:30 UTC the evening before
+    expect(bound("after:2024-03-01").createdAt.$gte.toISOString()).toBe(
+      "2024-02-29T18:30:00.000Z"
+    );
+    expect(bound("before:2024-03-01").createdAt.$lt.toISOString()).toBe(
+      "2024-02-29T18:30:00.000Z"
+    );
+  });
+
+  it("keep a document from early on the day itself out of before:", () => {
+    // 01:00 IST on 1 March, which is still 29 February in UTC
+    const createdAt = new Date("2024-02-29T19:30:00.000Z");
+    expect(createdAt >= bound("after:2024-03-01").createdAt.$gte).toBe(true);
+    expect(createdAt < bound("before:2024-03-01").createdAt.$lt).toBe(false);
+  });
+
+  it("read a year or month as its first day", () => {
+    expect(bound("after:2024").createdAt.$gte.toISOString()).toBe(
+      "2023-12-31T18:30:00.000Z"
+    );
+    expect(bound("before:2024-07").createdAt.$lt.toISOString()).toBe(
+      "2024-06-30T18:30:00.000Z"
+    );
+  });
+
+  it.each(["2024-13", "2024-02-30", "March"])("reject %s", (value) => {
+    expect(() => parseQuery(`after:${value}`)).toThrow(
+      "after: expects a date like 2023-01-01"
+    );
+  });
+});
+
+describe("parsePlainQuery", () => {
+  it("reads quotes, dashes and qualifiers as ordinary words", () => {
+    const query = parsePlainQuery(
+      'what is the "RTI fee? type: what -after: 2023 OR later'
+    );
+    expect(query.text).toBe(
+      "what is the RTI fee? type: what after: 2023 OR later"
+    );
+    expect(query.excluded).toEqual([]);
+    expect(query.constraints).toEqual({ conditions: [] });
+    expect(query.groups).toHaveLength(11);
+  });
+
+  it("accepts questions the query language rejects", () => {
+    expect(() => parseQuery('what is the "RTI fee?')).toThrow("unclosed quote");
+    expect(parsePlainQuery('what is the "RTI fee?').text).toBe(
+      "what is the RTI fee?"
+    );
+  });
+
+  it("rejects input with no words", () => {
+    expect(() => parsePlainQuery(' " - ')).toThrow(
+      "enter at least one search term"
+    );
+  });
+});
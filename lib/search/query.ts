@@ -0,0 +1,345 @@
+import { ALLOWED_COLLECTIONS, AllowedCollection } from "@/lib/documents";
+import { parseDocumentDate } from "@/lib/extraction/parse";
+import { escapeRegex, QueryConstraints } from "./filters";
+import { SearchError } from "./types";
+
+/**
+ * QUERY LANGUAGE
+ * Syntax accepted by the search box:
+ * - Terms are combined with AND: `tender road construction`
+ * - `OR` between terms matches either: `nurse OR doctor`
+ * - `-term` or `-"some phrase"` excludes documents containing it
+ * - `"quoted phrases"` must appear as written (whitespace may vary)
+ * - Qualifiers narrow the search:
+ *   - dept:health (or department:) matches part of the department name
+ *   - type:tender|circular|employment picks the collection
+ *   - after:2023-01-01 (inclusive) and before:2024 (exclusive) bound createdAt,
+ *     with days in IST
+ *   - category:education and filetype:pdf
+ *   Qualifiers take comma-separated alternatives (type:tender,circular) and
+ *   quoted values (dept:"rural development")
+ */
+export interface QueryTerm {
+  value: string;
+  phrase: boolean;
+}
+
+export interface ParsedQuery {
+  // Every group must match; any one term within a group is enough
+  groups: QueryTerm[][];
+  excluded: QueryTerm[];
+  constraints: QueryConstraints;
+  // Positive terms and phrases as plain text, for embeddings and AI prompts
+  text: string;
+}
+
+type QualifierName =
+  | "dept"
+  | "type"
+  | "after"
+  | "before"
+  | "category"
+  | "filetype";
+
+const QUALIFIER_ALIASES: Record<string, QualifierName> = {
+  dept: "dept",
+  department: "dept",
+  type: "type",
+  after: "after",
+  before: "before",
+  category: "category",
+  filetype: "filetype",
+};
+
+const TYPE_COLLECTIONS: Record<string, AllowedCollection> = {
+  tender: "Tender",
+  tenders: "Tender",
+  circular: "NotificationCircular",
+  circulars: "NotificationCircular",
+  notification: "NotificationCircular",
+  employment: "EmploymentNotice",
+  job: "EmploymentNotice",
+  jobs: "EmploymentNotice",
+};
+
+type Token =
+  | { kind: "term"; value: string; phrase: boolean; negated: boolean }
+  | {
+      kind: "qualifier";
+      name: QualifierName;
+      raw: string;
+      value: string;
+      negated: boolean;
+    }
+  | { kind: "or" }
+  | { kind: "and" };
+
+// Terms and phrases that aren't excluded; the only operands OR accepts
+function isPlainTerm(token: Token): boolean {
+  return token.kind === "term" && !token.negated;
+}
+
+function queryError(message: string): SearchError {
+  return new SearchError(`Invalid query: ${message}`, 400);
+}
+
+// Read a quoted string starting at `start` (the opening quote)
+function readQuoted(
+  input: string,
+  start: number
+): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw queryError(`unclosed quote in ${input.slice(start)}`);
+  }
+  return { value: input.slice(start + 1, close).trim(), end: close + 1 };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    // Dashes standing alone ("Namchi - Gangtok") exclude nothing
+    const dashes = input.slice(i).match(/^-+(?=\s|$)/);
+    if (dashes) {
+      i += dashes[0].length;
+      continue;
+    }
+
+    const negated = input[i] === "-";
+    const start = negated ? i + 1 : i;
+
+    if (input[start] === '"') {
+      const { value, end } = readQuoted(input, start);
+      if (!value) throw queryError('empty quoted phrase ""');
+      tokens.push({ kind: "term", value, phrase: true, negated });
+      i = end;
+      continue;
+    }
+
+    let end = start;
+    while (end < input.length && !/[\s"]/.test(input[end])) end++;
+    const word = input.slice(start, end);
+
+    const separator = word.indexOf(":");
+    const name =
+      separator > 0
+        ? QUALIFIER_ALIASES[word.slice(0, separator).toLowerCase()]
+        : undefined;
+    if (name) {
+      let value = word.slice(separator + 1);
+      if (!value && input[end] === '"') {
+        const quoted = readQuoted(input, end);
+        value = quoted.value;
+        end = quoted.end;
+      }
+      const raw = word.slice(0, separator + 1);
+      if (!value) {
+        throw queryError(`${raw} needs a value, e.g. ${raw}example`);
+      }
+      tokens.push({ kind: "qualifier", name, raw, value, negated });
+    } else if (!negated && word === "OR") {
+      tokens.push({ kind: "or" });
+    } else if (!negated && word === "AND") {
+      tokens.push({ kind: "and" });
+    } else if (word) {
+      tokens.push({ kind: "term", value: word, phrase: false, negated });
+    }
+    i = end;
+  }
+
+  return tokens;
+}
+
+// Start of the named day, or of a month's or year's first day, in IST
+// like the structured date filters
+function parseDate(raw: string, value: string): Date {
+  const date = /^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)
+    ? parseDocumentDate(`${value}-01-01`.slice(0, 10))
+    : undefined;
+  if (!date) {
+    throw queryError(`${raw} expects a date like 2023-01-01, got "${value}"`);
+  }
+  return date;
+}
+
+function splitValues(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+// Fold one qualifier into the constraints collected so far
+function applyQualifier(
+  constraints: QueryConstraints,
+  { name, raw, value }: Extract<Token, { kind: "qualifier" }>
+): void {
+  const contains = (v: string) => new RegExp(escapeRegex(v), "i");
+  const exact = (v: string) => new RegExp(`^${escapeRegex(v)}$`, "i");
+
+  switch (name) {
+    case "dept":
+      constraints.conditions.push({
+        department: { $in: splitValues(value).map(contains) },
+      });
+      break;
+    case "category":
+      constraints.conditions.push({
+        categories: { $in: splitValues(value).map(contains) },
+      });
+      break;
+    case "filetype":
+      constraints.conditions.push({
+        fileType: { $in: splitValues(value).map(exact) },
+      });
+      break;
+    case "after":
+      constraints.conditions.push({
+        createdAt: { $gte: parseDate(raw, value) },
+      });
+      break;
+    case "before":
+      constraints.conditions.push({
+        createdAt: { $lt: parseDate(raw, value) },
+      });
+      break;
+    case "type": {
+      const collections = splitValues(value).map((v) => {
+        const collection =
+          TYPE_COLLECTIONS[v.toLowerCase()] ??
+          ALLOWED_COLLECTIONS.find((c) => c.toLowerCase() === v.toLowerCase());
+        if (!collection) {
+          throw queryError(
+            `unknown type "${v}"; use tender, circular or employment`
+          );
+        }
+        return collection;
+      });
+      // Repeated type: qualifiers must all hold
+      constraints.collections = constraints.collections
+        ? constraints.collections.filter((c) => collections.includes(c))
+        : collections;
+      break;
+    }
+  }
+}
+
+/**
+ * QUERY PARSER
+ * Responsible for: Turning search box input into a structured query
+ * - OR binds tighter than the implicit AND: `a b OR c` means a AND (b OR c)
+ * - Qualifiers become constraints applied like structured filters
+ * - Throws a 400 SearchError explaining what couldn't be parsed
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const tokens = tokenize(input);
+  const groups: QueryTerm[][] = [];
+  const excluded: QueryTerm[] = [];
+  const constraints: QueryConstraints = { conditions: [] };
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+
+    if (token.kind === "or" || token.kind === "and") {
+      const word = token.kind.toUpperCase();
+      if (
+        !previous ||
+        !next ||
+        previous.kind === "or" ||
+        previous.kind === "and"
+      ) {
+        throw queryError(`${word} must sit between two search terms`);
+      }
+      if (
+        token.kind === "or" &&
+        (!isPlainTerm(previous) || !isPlainTerm(next))
+      ) {
+        throw queryError(
+          "OR can only join plain terms or phrases; use commas for qualifier alternatives"
+        );
+      }
+      return;
+    }
+
+    if (token.kind === "qualifier") {
+      if (token.negated) {
+        throw queryError(`qualifiers can't be excluded (-${token.raw})`);
+      }
+      applyQualifier(constraints, token);
+      return;
+    }
+
+    const term = { value: token.value, phrase: token.phrase };
+    if (token.negated) {
+      excluded.push(term);
+    } else if (previous?.kind === "or") {
+      groups[groups.length - 1].push(term);
+    } else {
+      groups.push([term]);
+    }
+  });
+
+  if (
+    groups.length === 0 &&
+    constraints.conditions.length === 0 &&
+    !constraints.collections
+  ) {
+    throw queryError(
+      excluded.length > 0
+        ? "add at least one word to search for alongside exclusions"
+        : "enter at least one search term"
+    );
+  }
+
+  return {
+    groups,
+    excluded,
+    constraints,
+    text: groups
+      .flat()
+      .map((term) => term.value)
+      .join(" "),
+  };
+}
+
+/**
+ * PLAIN TEXT QUERY
+ * Responsible for: Reading input as words only, for natural-language
+ * questions that aren't written in the query language
+ * - Quotes, leading dashes, OR/AND and qualifier-like words (`type:`,
+ *   `after:`) are searched as ordinary words, never as syntax
+ * - Throws a 400 SearchError only when no words are left
+ */
+export function parsePlainQuery(input: string): ParsedQuery {
+  const words = input
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .map((word) => word.replace(/^-+/, ""))
+    .filter(Boolean);
+  if (words.length === 0) {
+    throw queryError("enter at least one search term");
+  }
+
+  return {
+    groups: words.map((value) => [{ value, phrase: false }]),
+    excluded: [],
+    constraints: { conditions: [] },
+    text: words.join(" "),
+  };
+}
+
+// Case-insensitive pattern for a term; phrase words may be split by any whitespace
+export function termRegex(term: QueryTerm): RegExp {
+  const pattern = term.phrase
+    ? term.value.split(/\s+/).map(escapeRegex).join("\\s+")
+    : escapeRegex(term.value);
+  return new RegExp(pattern, "i");
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { describeSearchError, readJsonBody } from "./request";
+
+const post = (body: string) =>
+  new Request("http://localhost/api/chat", { method: "POST", body });
+
+describe("readJsonBody", () => {
+  it("returns the parsed body", async () => {
+    await expect(readJsonBody(post('{"query":"tender"}'))).resolves.toEqual({
+      query: "tender",
+    });
+  });
+
+  it("rejects malformed JSON as a 400", async () => {
+    const error = await readJsonBody(post("{query")).catch((e) => e);
+    expect(describeSearchError(error)).toEqual({
+      error: "Expected a JSON body",
+      status: 400,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { LLMError } from "@/lib/llm";
+import { parseSearchFilters } from "./filters";
+import { SORT_ORDERS, SortOrder } from "./pipeline";
+import {
+  SEARCH_LIMITS,
+  SEARCH_MODES,
+  LanguageInfo,
+  SearchError,
+  SearchMode,
+  SearchOutcome,
+  SpellingSuggestion,
+} from "./types";
+
+interface SearchRequestBody {
+  query?: unknown;
+  mode?: unknown;
+  page?: unknown;
+  pageSize?: unknown;
+  sort?: unknown;
+  filters?: unknown;
+}
+
+export interface ParsedSearchRequest {
+  query: string;
+  mode?: SearchMode;
+  page: number;
+  pageSize: number;
+  sort?: SortOrder;
+  filters: ReturnType<typeof parseSearchFilters>;
+}
+
+// Parse an optional positive integer, throwing a 400 on anything else
+function parsePositiveInt(
+  value: unknown,
+  field: string,
+  fallback: number
+): number {
+  if (value === undefined || value === null) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new SearchError(`${field} must be a positive integer`, 400);
+  }
+  return parsed;
+}
+
+/**
+ * SEARCH REQUEST PARSING
+ * Responsible for: Validating the body shared by the search endpoints
+ * - Body: { query: string, mode?: SearchMode, page?: number, pageSize?: number,
+ *   sort?: SortOrder, filters?: SearchFilters }
+ * - Throws a 400 SearchError describing the first invalid field
+ */
+export function parseSearchRequest(input: unknown): ParsedSearchRequest {
+  const body = (input ?? {}) as SearchRequestBody;
+  const { query, mode, sort } = body;
+
+  if (typeof query !== "string" || !query.trim()) {
+    throw new SearchError("Query is required", 400);
+  }
+  if (mode !== undefined && !SEARCH_MODES.includes(mode as SearchMode)) {
+    throw new SearchError(
+      `Mode must be one of: ${SEARCH_MODES.join(", ")}`,
+      400
+    );
+  }
+  if (sort !== undefined && !SORT_ORDERS.includes(sort as SortOrder)) {
+    throw new SearchError(
+      `Sort must be one of: ${SORT_ORDERS.join(", ")}`,
+      400
+    );
+  }
+
+  const page = parsePositiveInt(body.page, "page", 1);
+  const pageSize = parsePositiveInt(
+    body.pageSize,
+    "pageSize",
+    SEARCH_LIMITS.PAGE_SIZE
+  );
+  if (pageSize > SEARCH_LIMITS.MAX_PAGE_SIZE) {
+    throw new SearchError(
+      `pageSize cannot exceed ${SEARCH_LIMITS.MAX_PAGE_SIZE}`,
+      400
+    );
+  }
+
+  return {
+    query: query.trim(),
+    mode: mode as SearchMode | undefined,
+    page,
+    pageSize,
+    sort: sort as SortOrder | undefined,
+    filters: parseSearchFilters(body.filters),
+  };
+}
+
+/**
+ * NO RESULTS FOUND
+ * Helpful suggestions returned when all search strategies fail
+ */
+export const NO_RESULTS_RESPONSE = {
+  message: "No relevant documents found for your query",
+  suggestions: [
+    "Try using different keywords",
+    "Check for spelling errors",
+    "Use more general terms",
+  ],
+};
+
+// 404 body for an empty outcome, with corrected queries when any were found
+// and the detected query language
+export function noResultsResponse(
+  outcome: SearchOutcome
+): typeof NO_RESULTS_RESPONSE & {
+  didYouMean?: SpellingSuggestion[];
+  language?: LanguageInfo;
+} {
+  return {
+    ...NO_RESULTS_RESPONSE,
+    ...(outcome.didYouMean && { didYouMean: outcome.didYouMean }),
+    ...(outcome.language && { language: outcome.language }),
+  };
+}
+
+// A request's JSON body; malformed JSON is a 400 like any other bad input
+export async function readJsonBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    throw new SearchError("Expected a JSON body", 400);
+  }
+}
+
+// Map an error to a client-safe message and status; internal errors stay hidden
+export function describeSearchError(error: unknown): {
+  error: string;
+  status: number;
+} {
+  if (error instanceof SearchError || error instanceof LLMError) {
+    return { error: error.message, status: error.statusCode };
+  }
+  return { error: "Search service temporarily unavailable", status: 503 };
+}
@@ -0,0 +1,126 @@
+import { Db, ObjectId } from "mongodb";
+import { getLLMProvider } from "@/lib/llm";
+import { AllowedCollection, MongoDocument } from "@/lib/documents";
+import { getVectorIndex, VectorMatch } from "@/lib/vector";
+import { buildFilterMatch, filterCollections, SearchFilters } from "./filters";
+import { RESULT_PROJECTION } from "./pipeline";
+import { getQueryEmbedding } from "./embedding-cache";
+import {
+  PipelineStage,
+  SEARCH_LIMITS,
+  SearchProgress,
+  SearchResult,
+} from "./types";
+
+/**
+ * EMBEDDING GENERATOR
+ * Responsible for: Converting text into numerical vectors (embeddings) for semantic search
+ * - Delegates to the configured LLM provider (Gemini or the offline stub)
+ * - Converts user queries and document content into mathematical representations
+ * - Enables similarity comparisons between different texts
+ */
+export async function generateEmbedding(text: string): Promise<number[]> {
+  return getLLMProvider().generateEmbedding(text);
+}
+
+/**
+ * NEAREST NEIGHBOUR LOOKUP
+ * Vector index matches for a query that clear the similarity threshold
+ * - With filters, the index returns the nearest documents that pass them,
+ *   so a narrow filter isn't starved by closer documents it excludes
+ */
+export async function findSemanticMatches(
+  db: Db,
+  query: string,
+  collections: readonly AllowedCollection[],
+  filters?: SearchFilters
+): Promise<VectorMatch[]> {
+  // Qualifier-only queries have no text to compare meaning with
+  if (!query.trim()) return [];
+
+  // Generate query embedding (cached per normalized query and model)
+  const queryEmbedding = await getQueryEmbedding(db, query);
+
+  const matches = await getVectorIndex().search(db, queryEmbedding, {
+    limit: SEARCH_LIMITS.VECTOR_CANDIDATES,
+    collections,
+    ...(filters && { filter: buildFilterMatch(filters) }),
+  });
+  return matches.filter((m) => m.score >= SEARCH_LIMITS.SIMILARITY_THRESHOLD);
+}
+
+/**
+ * SEMANTIC SEARCH ENGINE
+ * Responsible for: Finding documents based on meaning rather than exact words
+ * - Converts user query into embedding (numerical representation)
+ * - Finds the nearest document embeddings through the configured vector index
+ *   (Atlas $vectorSearch or in-memory HNSW), so the whole corpus is covered
+ * - Ranks by cosine similarity alone; documents don't need to contain any of
+ *   the query's words ("jobs for nurses" finds "Staff Nurse recruitment")
+ * - Returns results above the similarity threshold, most similar first
+ */
+// Semantic search implementation
+export async function performSemanticSearch(
+  db: Db,
+  query: string,
+  filters: SearchFilters = {},
+  onProgress?: SearchProgress
+): Promise<SearchResult[]> {
+  try {
+    console.log("🔍 Performing semantic search");
+
+    // Nearest neighbours that pass the filters, across the whole corpus
+    const collections = filterCollections(filters);
+    const matches = await findSemanticMatches(db, query, collections, filters);
+    if (matches.length === 0) {
+      return [];
+    }
+    const similarityById = new Map(
+      matches.map((m) => [`${m.collection}:${m.id}`, m.score])
+    );
+
+    // Load the matched documents, dropping any the filters exclude
+    const allDocs: SearchResult[] = [];
+    for (const collection of collections) {
+      const ids = matches
+        .filter((m) => m.collection === collection)
+        .map((m) => new ObjectId(m.id));
+      if (ids.length === 0) continue;
+
+      const pipeline: PipelineStage[] = [
+        {
+          $match: { $and: [{ _id: { $in: ids } }, buildFilterMatch(filters)] },
+        },
+        { $project: RESULT_PROJECTION },
+      ];
+      const docs: MongoDocument[] = await db
+        .collection<MongoDocument>(collection)
+        .aggregate<MongoDocument>(pipeline)
+        .toArray();
+      // Add collection name and similarity to each document
+      const docsWithCollection = docs.map((doc) => ({
+        ...doc,
+        collection: collection,
+        _id: doc._id.toString(), // Convert ObjectId to string
+        similarity: similarityById.get(`${collection}:${doc._id.toString()}`),
+      }));
+      allDocs.push(...docsWithCollection);
+      onProgress?.({
+        type: "partial",
+        tier: "semantic",
+        collection,
+        results: docsWithCollection,
+      });
+    }
+
+    const resultsWithSimilarity = allDocs
+      .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
+      .slice(0, SEARCH_LIMITS.SEMANTIC_RESULTS);
+
+    console.log(`🎯 Found ${resultsWithSimilarity.length} semantic matches`);
+    return resultsWithSimilarity;
+  } catch (error) {
+    console.error("Semantic search failed:", error);
+    return []; // Fallback gracefully
+  }
+}
@@ -0,0 +1,81 @@
+import { Db, ObjectId } from "mongodb";
+import {
+  ALLOWED_COLLECTIONS,
+  isAllowedCollection,
+  MongoDocument,
+} from "@/lib/documents";
+import { getVectorIndex } from "@/lib/vector";
+import { RESULT_PROJECTION } from "./pipeline";
+import { SEARCH_LIMITS, SearchError, SearchResult } from "./types";
+
+/**
+ * MORE LIKE THIS
+ * Responsible for: Documents whose stored embedding is nearest to another
+ * document's
+ * - Searches every collection through the configured vector index
+ * - Leaves out the document itself and near-duplicates (re-uploads and
+ *   copies filed under another collection)
+ * - Documents without an embedding have no neighbours
+ * - Throws a 404 SearchError for unknown collections, ids and documents
+ */
+export async function findSimilarDocuments(
+  db: Db,
+  collection: string,
+  id: string,
+  limit: number = SEARCH_LIMITS.SIMILAR_RESULTS
+): Promise<SearchResult[]> {
+  if (!isAllowedCollection(collection) || !ObjectId.isValid(id)) {
+    throw new SearchError("Document not found", 404);
+  }
+
+  const source = await db
+    .collection<MongoDocument>(collection)
+    .findOne({ _id: new ObjectId(id) }, { projection: { embedding: 1 } });
+  if (!source) {
+    throw new SearchError("Document not found", 404);
+  }
+  if (!source.embedding?.length) {
+    console.log(`❌ ${collection}/${id} has no embedding to compare`);
+    return [];
+  }
+
+  const matches = (
+    await getVectorIndex().search(db, source.embedding, {
+      // Room for the document itself and its duplicates
+      limit: limit + SEARCH_LIMITS.SIMILAR_RESULTS,
+      collections: ALLOWED_COLLECTIONS,
+    })
+  )
+    .filter(
+      (m) =>
+        !(m.collection === collection && m.id === id) &&
+        m.score >= SEARCH_LIMITS.SIMILARITY_THRESHOLD &&
+        m.score < SEARCH_LIMITS.NEAR_DUPLICATE_SIMILARITY
+    )
+    .slice(0, limit);
+
+  const results: SearchResult[] = [];
+  for (const target of ALLOWED_COLLECTIONS) {
+    const scores = new Map(
+      matches.filter((m) => m.collection === target).map((m) => [m.id, m.score])
+    );
+    if (scores.size === 0) continue;
+
+    const docs = await db
+      .collection<MongoDocument>(target)
+      .find({ _id: { $in: Array.from(scores.keys(), (k) => new ObjectId(k)) } })
+      .project<MongoDocument>(RESULT_PROJECTION)
+      .toArray();
+    results.push(
+      ...docs.map((doc) => ({
+        ...doc,
+        collection: target,
+        _id: doc._id.toString(),
+        similarity: scores.get(doc._id.toString()),
+      }))
+    );
+  }
+
+  console.log(`🧲 Found ${results.length} documents similar to ${id}`);
+  return results.sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0));
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { QueryTerm } from "./query";
+import { attachSnippets, buildSnippets } from "./snippets";
+import { Snippet } from "./types";
+
+const word = (value: string): QueryTerm => ({ value, phrase: false });
+
+// The text each highlight covers
+const highlighted = ({ text, highlights }: Snippet) =>
+  highlights.map(({ start, end }) => text.slice(start, end));
+
+const filler = (words: number) =>
+  Array.from({ length: words }, (_, i) => `word${i}`).join(" ");
+
+describe("buildSnippets", () => {
+  it("highlights every match in a short document", () => {
+    const [snippet, ...rest] = buildSnippets(
+      "Tender for Road repair. Road closed during repair.",
+      [word("road"), word("repair")]
+    );
+
+    expect(rest).toEqual([]);
+    expect(snippet.text).toBe(
+      "Tender for Road repair. Road closed during repair."
+    );
+    expect(highlighted(snippet)).toEqual(["Road", "repair", "Road", "repair"]);
+  });
+
+  it("offsets highlights past a leading ellipsis", () => {
+    const content = `${filler(40)} the bridge tender ${filler(40)}`;
+    const [snippet] = buildSnippets(content, [word("bridge")]);
+
+    expect(snippet.text.startsWith("…word")).toBe(true);
+    expect(snippet.text.endsWith("…")).toBe(true);
+    expect(highlighted(snippet)).toEqual(["bridge"]);
+    // Excerpts begin and end on whole words
+    expect(snippet.text).toMatch(/^…word\d+ .* word\d+…$/);
+  });
+
+  it("merges overlapping matches into one highlight", () => {
+    const [snippet] = buildSnippets("Namchi roadworks", [
+      word("road"),
+      word("roadworks"),
+    ]);
+    expect(highlighted(snippet)).toEqual(["roadworks"]);
+  });
+
+  it("matches phrases across any whitespace", () => {
+    const [snippet] = buildSnippets("Annual rate\n  contract for 2024", [
+      { value: "rate contract", phrase: true },
+    ]);
+    expect(highlighted(snippet)).toEqual(["rate\n  contract"]);
+  });
+
+  it("keeps the excerpts with the most matches, in document order", () => {
+    const content = [
+      "nurse",
+      filler(60),
+      "nurse nurse",
+      filler(60),
+      "nurse nurse nurse",
+      filler(60),
+      "nurse nurse",
+    ].join(" ");
+
+    const snippets = buildSnippets(content, [word("nurse")], 2);
+
+    expect(snippets.map((snippet) => snippet.highlights.length)).toEqual([
+      2, 3,
+    ]);
+    expect(content.indexOf(snippets[0].text.slice(1, -1))).toBeLessThan(
+      content.indexOf(snippets[1].text.slice(1, -1))
+    );
+    snippets.forEach((snippet) =>
+      expect(highlighted(snippet).every((text) => text === "nurse")).toBe(true)
+    );
+  });
+
+  it("returns nothing without content, terms or matches", () => {
+    expect(buildSnippets(undefined, [word("road")])).toEqual([]);
+    expect(buildSnippets("Road repair", [])).toEqual([]);
+    expect(buildSnippets("Road repair", [word("bridge")])).toEqual([]);
+  });
+});
+
+describe("attachSnippets", () => {
+  it("adds snippets to each result, empty when content is missing", () => {
+    const [withContent, withoutContent] = attachSnippets(
+      [
+        { _id: "a", content: "Road repair tender" },
+        { _id: "b", title: "Road works" },
+      ],
+      [word("road")]
+    );
+
+    expect(withContent.snippets).toEqual([
+      { text: "Road repair tender", highlights: [{ start: 0, end: 4 }] },
+    ]);
+    expect(withoutContent.snippets).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { QueryTerm, termRegex } from "./query";
+import { SearchResult, Snippet, TextRange } from "./types";
+
+const SNIPPET_LIMITS = {
+  MAX_SNIPPETS: 3,
+  // Longest stretch of content whose matches share one excerpt
+  WINDOW_CHARS: 160,
+  // Context kept on either side of the first and last match
+  CONTEXT_CHARS: 60,
+} as const;
+
+const ELLIPSIS = "…";
+
+// Every match of every term in `content`, sorted and with overlaps merged
+function findMatches(content: string, terms: QueryTerm[]): TextRange[] {
+  const ranges: TextRange[] = [];
+  for (const term of terms) {
+    const regex = new RegExp(termRegex(term).source, "gi");
+    for (const match of content.matchAll(regex)) {
+      if (match[0].length === 0 || match.index === undefined) continue;
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// Move an offset outwards to the nearest whitespace so words aren't cut
+function widenToWord(content: string, offset: number, step: -1 | 1): number {
+  let position = offset;
+  const limit = step < 0 ? 0 : content.length;
+  while (
+    position !== limit &&
+    !/\s/.test(content[step < 0 ? position - 1 : position])
+  ) {
+    position += step;
+  }
+  return position;
+}
+
+/**
+ * SNIPPET BUILDER
+ * Responsible for: Showing where a query matched inside a document's content
+ * - Groups nearby matches into excerpts of at most WINDOW_CHARS
+ * - Keeps the excerpts with the most matches, in document order
+ * - Highlight offsets are relative to each excerpt's `text`, which may start
+ *   or end with an ellipsis
+ */
+export function buildSnippets(
+  content: string | undefined,
+  terms: QueryTerm[],
+  maxSnippets: number = SNIPPET_LIMITS.MAX_SNIPPETS
+): Snippet[] {
+  if (!content || terms.length === 0) return [];
+
+  const windows: TextRange[][] = [];
+  for (const match of findMatches(content, terms)) {
+    const current = windows[windows.length - 1];
+    if (
+      current &&
+      match.end - current[0].start <= SNIPPET_LIMITS.WINDOW_CHARS
+    ) {
+      current.push(match);
+    } else {
+      windows.push([match]);
+    }
+  }
+
+  return windows
+    .map((highlights, order) => ({ highlights, order }))
+    .sort(
+      (a, b) => b.highlights.length - a.highlights.length || a.order - b.order
+    )
+    .slice(0, maxSnippets)
+    .sort((a, b) => a.order - b.order)
+    .map(({ highlights }) => {
+      const start = widenToWord(
+        content,
+        Math.max(0, highlights[0].start - SNIPPET_LIMITS.CONTEXT_CHARS),
+        -1
+      );
+      const end = widenToWord(
+        content,
+        Math.min(
+          content.length,
+          highlights[highlights.length - 1].end + SNIPPET_LIMITS.CONTEXT_CHARS
+        ),
+        1
+      );
+      const prefix = start > 0 ? ELLIPSIS : "";
+      const suffix = end < content.length ? ELLIPSIS : "";
+      const shift = prefix.length - start;
+
+      return {
+        text: `${prefix}${content.slice(start, end)}${suffix}`,
+        highlights: highlights.map((range) => ({
+          start: range.start + shift,
+          end: range.end + shift,
+        })),
+      };
+    });
+}
+
+// Attach content excerpts for `terms` to each result
+export function attachSnippets(
+  results: SearchResult[],
+  terms: QueryTerm[]
+): SearchResult[] {
+  return results.map((result) => ({
+    ...result,
+    snippets: buildSnippets(result.content, terms),
+  }));
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, phoneticKey } from "./spelling";
+
+describe("editDistance", () => {
+  it.each([
+    ["gangtok", "gangtok", 0],
+    ["gangtok", "gangtk", 1],
+    ["nurse", "purse", 1],
+    ["tender", "tedner", 1],
+    ["namchi", "namchee", 2],
+    ["", "abc", 3],
+  ])("%s → %s is %i", (a, b, distance) => {
+    expect(editDistance(a, b, 3)).toBe(distance);
+    expect(editDistance(b, a, 3)).toBe(distance);
+  });
+
+  it("counts a swap of neighbouring letters as one edit", () => {
+    expect(editDistance("sikkim", "sikikm", 1)).toBe(1);
+  });
+
+  it("gives up with max + 1 once the distance exceeds max", () => {
+    expect(editDistance("a", "abcd", 2)).toBe(3);
+    expect(editDistance("abcdef", "uvwxyz", 2)).toBe(3);
+    expect(editDistance("gyalshing", "gyalsing", 0)).toBe(1);
+  });
+});
+
+describe("phoneticKey", () => {
+  it.each([
+    ["Namchi", "Namchee"],
+    ["Gyalshing", "Gyalsing"],
+    ["Phodong", "Fodong"],
+    ["Vidhan", "Bidhan"],
+    ["Rinchenpong", "Rinchhenpong"],
+    ["Zuluk", "Suluk"],
+  ])("gives %s and %s the same key", (a, b) => {
+    expect(phoneticKey(a)).toBe(phoneticKey(b));
+  });
+
+  it("keeps the first letter and drops later vowels", () => {
+    expect(phoneticKey("Namchi")).toBe("nmc");
+    expect(phoneticKey("Ravangla")).toBe("rbngl");
+  });
+
+  it("ignores accents and characters outside a-z", () => {
+    expect(phoneticKey("Café-2")).toBe(phoneticKey("cafe"));
+    expect(phoneticKey("2024")).toBe("");
+  });
+
+  it("keeps a leading h", () => {
+    expect(phoneticKey("Hee")).toBe("h");
+  });
+
+  it("tells apart words that sound different", () => {
+    expect(phoneticKey("Gangtok")).not.toBe(phoneticKey("Mangan"));
+  });
+});
@@ -0,0 +1,283 @@
+import { Db } from "mongodb";
+import { ALLOWED_COLLECTIONS, MongoDocument } from "@/lib/documents";
+import { escapeRegex, SearchFilters } from "./filters";
+import { countKeywordMatches } from "./keyword";
+import { parseQuery } from "./query";
+import { SpellingSuggestion } from "./types";
+
+/**
+ * SPELLING CORRECTION
+ * Responsible for: "Did you mean" suggestions for misspelled queries
+ * - The vocabulary is every word in document titles, keywords, categories
+ *   and departments, with how often it occurs
+ * - Unknown query terms are matched by edit distance and by a phonetic key
+ *   tuned to transliterated place names ("Gyalsing"/"Gyalshing")
+ * - Corrected queries are only suggested when they actually return hits
+ */
+const SPELLING_LIMITS = {
+  MAX_SUGGESTIONS: 3,
+  // Spellings tried per unknown term
+  CANDIDATES_PER_TERM: 3,
+  MIN_WORD_LENGTH: 3,
+  REFRESH_MS: 10 * 60 * 1000,
+} as const;
+
+interface Vocabulary {
+  frequencies: Map<string, number>;
+  // Phonetic key -> words sharing it
+  phonetic: Map<string, string[]>;
+  builtAt: number;
+}
+
+interface Candidate {
+  word: string;
+  score: number;
+}
+
+let vocabulary: Promise<Vocabulary> | undefined;
+
+function tokenizeWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) =>
+      word.length >= SPELLING_LIMITS.MIN_WORD_LENGTH && !/^\d+$/.test(word)
+  );
+}
+
+/**
+ * PHONETIC KEY
+ * Collapses spellings that sound alike in romanized Nepali and English:
+ * aspirates lose their h, v/w become b, z becomes s, and vowels after the
+ * first letter are dropped ("Namchi" and "Namchee" both become "nmc")
+ */
+export function phoneticKey(word: string): string {
+  const letters = word
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z]/g, "");
+  if (!letters) return "";
+
+  const simplified = letters
+    .replace(/ph/g, "f")
+    .replace(/ck|q/g, "k")
+    .replace(/c(?!h)/g, "k")
+    .replace(/x/g, "ks")
+    .replace(/z/g, "s")
+    .replace(/[vw]/g, "b")
+    .replace(/(?!^)h/g, "");
+  if (!simplified) return letters[0];
+
+  const [first, ...rest] = simplified;
+  return (first + rest.join("").replace(/[aeiouy]/g, "")).replace(
+    /(.)\1+/g,
+    "$1"
+  );
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+// Typos tolerated for a word of this length
+function maxEdits(length: number): number {
+  if (length <= 4) return 1;
+  if (length <= 8) return 2;
+  return 3;
+}
+
+async function buildVocabulary(db: Db): Promise<Vocabulary> {
+  const started = Date.now();
+  const frequencies = new Map<string, number>();
+
+  for (const collection of ALLOWED_COLLECTIONS) {
+    const docs = await db
+      .collection<MongoDocument>(collection)
+      .find({})
+      .project<
+        Pick<MongoDocument, "title" | "keywords" | "categories" | "department">
+      >({
+        title: 1,
+        keywords: 1,
+        categories: 1,
+        department: 1,
+      })
+      .toArray();
+
+    for (const doc of docs) {
+      const text = [
+        doc.title,
+        doc.department,
+        ...(doc.keywords ?? []),
+        ...(doc.categories ?? []),
+      ]
+        .filter((value): value is string => typeof value === "string")
+        .join(" ");
+      for (const word of tokenizeWords(text)) {
+        frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+      }
+    }
+  }
+
+  const phonetic = new Map<string, string[]>();
+  for (const word of frequencies.keys()) {
+    const key = phoneticKey(word);
+    if (!key) continue;
+    phonetic.set(key, [...(phonetic.get(key) ?? []), word]);
+  }
+
+  console.log(
+    `📖 Built spelling vocabulary: ${frequencies.size} words in ${
+      Date.now() - started
+    }ms`
+  );
+  return { frequencies, phonetic, builtAt: Date.now() };
+}
+
+async function getVocabulary(db: Db): Promise<Vocabulary> {
+  const current = vocabulary ? await vocabulary.catch(() => null) : null;
+  const refreshMs =
+    Number(process.env.SPELLING_REFRESH_MS) || SPELLING_LIMITS.REFRESH_MS;
+
+  if (!current || Date.now() - current.builtAt > refreshMs) {
+    vocabulary = buildVocabulary(db);
+    // Forget failed builds so the next request retries
+    vocabulary.catch(() => (vocabulary = undefined));
+    return vocabulary;
+  }
+  return current;
+}
+
+/**
+ * CANDIDATE SPELLINGS
+ * Vocabulary words close to `term`, best first
+ * - Edit distance within the length-based typo budget
+ * - Phonetic matches count half their edit distance, so "Gyalshing" finds
+ *   "gyalsing" ahead of equally distant unrelated words
+ * - Ties go to the more frequent word
+ */
+function findCandidates(term: string, vocab: Vocabulary): Candidate[] {
+  const budget = maxEdits(term.length);
+  const soundsLike = new Set(vocab.phonetic.get(phoneticKey(term)) ?? []);
+  const candidates: Candidate[] = [];
+
+  for (const word of vocab.frequencies.keys()) {
+    const phonetic = soundsLike.has(word);
+    // Sound-alikes may differ a little more than plain typos
+    const limit = phonetic ? budget + 1 : budget;
+    const distance = editDistance(term, word, limit);
+    if (distance === 0 || distance > limit) continue;
+    candidates.push({ word, score: phonetic ? distance / 2 : distance });
+  }
+
+  return candidates
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        (vocab.frequencies.get(b.word) ?? 0) -
+          (vocab.frequencies.get(a.word) ?? 0)
+    )
+    .slice(0, SPELLING_LIMITS.CANDIDATES_PER_TERM);
+}
+
+// Swap whole-word occurrences of `from` in the raw query, keeping its syntax
+function replaceTerm(query: string, from: string, to: string): string {
+  return query.replace(
+    new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegex(from)}(?![\\p{L}\\p{N}])`,
+      "giu"
+    ),
+    to
+  );
+}
+
+/**
+ * DID YOU MEAN
+ * Responsible for: Turning a query with unknown words into corrected queries
+ * - Only plain terms missing from the vocabulary are corrected; phrases,
+ *   exclusions and qualifiers are kept as typed
+ * - Tries the best spelling of every unknown term, then each runner-up
+ * - Keeps corrections that return more keyword hits than `currentTotal`
+ *   under the same filters
+ */
+export async function suggestCorrections(
+  db: Db,
+  query: string,
+  filters: SearchFilters = {},
+  currentTotal: number = 0
+): Promise<SpellingSuggestion[]> {
+  const parsed = parseQuery(query);
+  const vocab = await getVocabulary(db);
+
+  const unknown = parsed.groups
+    .flat()
+    .filter((term) => !term.phrase)
+    .map((term) => term.value.toLowerCase())
+    .filter(
+      (term) =>
+        term.length >= SPELLING_LIMITS.MIN_WORD_LENGTH &&
+        !vocab.frequencies.has(term)
+    );
+  if (unknown.length === 0) return [];
+
+  const corrections = unknown
+    .map((term) => ({ term, candidates: findCandidates(term, vocab) }))
+    .filter(({ candidates }) => candidates.length > 0);
+  if (corrections.length === 0) return [];
+
+  // Best spelling everywhere first, then one runner-up at a time
+  const best = (skip?: { term: string; word: string }) =>
+    corrections.reduce(
+      (text, { term, candidates }) =>
+        replaceTerm(
+          text,
+          term,
+          skip?.term === term ? skip.word : candidates[0].word
+        ),
+      query
+    );
+  const attempts = [
+    best(),
+    ...corrections.flatMap(({ term, candidates }) =>
+      candidates.slice(1).map(({ word }) => best({ term, word }))
+    ),
+  ];
+
+  const suggestions: SpellingSuggestion[] = [];
+  for (const attempt of Array.from(new Set(attempts))) {
+    if (suggestions.length >= SPELLING_LIMITS.MAX_SUGGESTIONS) break;
+    const corrected = parseQuery(attempt);
+    const total = await countKeywordMatches(db, corrected, {
+      ...filters,
+      query: corrected.constraints,
+    });
+    if (total > currentTotal) {
+      suggestions.push({ query: attempt, total });
+    }
+  }
+
+  return suggestions;
+}
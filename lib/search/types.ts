@@ -0,0 +1,221 @@
+import { ObjectId } from "mongodb";
+import type { EmploymentDetails, TenderDetails } from "@/lib/documents";
+import type { SearchFacets } from "./facets";
+
+/**
+ * CONFIGURATION CONSTANTS
+ * Performance limits (the searchable collections live in lib/documents)
+ */
+// Constants
+export const SEARCH_LIMITS = {
+  INITIAL_RESULTS: 20,
+  // Semantic matches no longer need a keyword hit, so keep enough to page through
+  SEMANTIC_RESULTS: 50,
+  // Minimum cosine similarity between query and document embeddings
+  SIMILARITY_THRESHOLD: 0.6,
+  // Reciprocal rank fusion damping constant (standard value from the RRF paper)
+  RRF_K: 60,
+  PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+  // Keyword hits considered for fusion in hybrid mode
+  HYBRID_CANDIDATES: 100,
+  // Nearest neighbours fetched from the vector index per semantic query
+  VECTOR_CANDIDATES: 100,
+  // Responses with fewer results also carry "did you mean" suggestions
+  LOW_RESULT_THRESHOLD: 3,
+  // Neighbours returned by "more like this"
+  SIMILAR_RESULTS: 10,
+  // Neighbours at least this similar are copies of the document, not related
+  NEAR_DUPLICATE_SIMILARITY: 0.98,
+} as const;
+
+/**
+ * TYPE DEFINITIONS
+ * These interfaces define the structure of data we work with
+ */
+// Types
+export interface SearchResult {
+  _id: string | ObjectId; // Allow both string and ObjectId for compatibility
+  title?: string;
+  name?: string; // Add name field
+  content?: string;
+  categories?: string[];
+  keywords?: string[];
+  department?: string;
+  createdAt?: Date | string | null;
+  similarity?: number;
+  embedding?: number[]; // Add embedding property
+  textScore?: number; // Add textScore property
+  filePath?: string;
+  collection?: string;
+  supabase?: {
+    // Add supabase field for download URLs
+    url?: string;
+  };
+  aws?: {
+    // Add aws field as fallback
+    bucket?: string;
+    key?: string;
+    region?: string;
+  };
+  summary?: string; // Add summary field
+  fileType?: string; // Add fileType field
+  tender?: TenderDetails; // Extracted fields of Tender documents
+  employment?: EmploymentDetails; // Extracted fields of employment notices
+  fusion?: FusionScore; // Per-tier contributions in hybrid mode
+  snippets?: Snippet[]; // Content excerpts around the query's matches
+}
+
+// Character offsets, end exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  highlights: TextRange[];
+}
+
+// Rank and RRF contribution of a result within one tier
+export interface TierContribution {
+  rank: number;
+  score: number;
+}
+
+export interface FusionScore {
+  score: number;
+  keyword?: TierContribution;
+  semantic?: TierContribution;
+}
+
+/**
+ * SEARCH MODES
+ * - waterfall: keyword, then semantic, then refined keywords; first tier with hits wins
+ * - hybrid: keyword and semantic run in parallel and are merged with rank fusion
+ * - semantic: meaning only, skipping the keyword tier entirely
+ */
+export const SEARCH_MODES = ["waterfall", "hybrid", "semantic"] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export type SearchType = "keyword" | "semantic" | "hybrid" | "refined";
+
+export interface SearchOutcome {
+  results: SearchResult[];
+  total: number;
+  // Set when a ranked tier hit its candidate cap, so more documents may match
+  // than `total` counts and pages past it are missing
+  totalIsEstimate?: boolean;
+  page: number;
+  pageSize: number;
+  searchType?: SearchType;
+  refinedKeywords?: string[];
+  facets?: SearchFacets;
+  didYouMean?: SpellingSuggestion[];
+  language?: LanguageInfo;
+}
+
+export type QueryLanguage = "en" | "ne" | "hi";
+
+// Language a query was typed in, and the English query searched instead
+export interface LanguageInfo {
+  detected: QueryLanguage;
+  script: "latin" | "devanagari";
+  translatedQuery?: string;
+}
+
+// A corrected query and how many documents it matches
+export interface SpellingSuggestion {
+  query: string;
+  total: number;
+}
+
+/**
+ * SEARCH PROGRESS EVENTS
+ * Emitted while a search runs, so streaming clients can render early results
+ * - status: human-readable description of the step being run
+ * - partial: results from one tier (and collection, when known) as they arrive;
+ *   final ordering and paging come with the outcome
+ * - refined: keywords suggested by the AI refinement tier
+ */
+export type SearchEvent =
+  | { type: "status"; message: string }
+  | {
+      type: "partial";
+      tier: SearchType;
+      collection?: string;
+      results: SearchResult[];
+    }
+  | { type: "refined"; keywords: string[] };
+
+export type SearchProgress = (event: SearchEvent) => void;
+
+// Pipeline stage types
+export interface MatchStage {
+  $match: Record<string, unknown>;
+}
+
+export interface ProjectStage {
+  $project: Record<string, unknown>;
+}
+
+export interface LimitStage {
+  $limit: number;
+}
+
+export interface SkipStage {
+  $skip: number;
+}
+
+export interface SortStage {
+  $sort: Record<string, 1 | -1>;
+}
+
+export interface AddFieldsStage {
+  $addFields: Record<string, unknown>;
+}
+
+export interface UnionWithStage {
+  $unionWith: { coll: string; pipeline: PipelineStage[] };
+}
+
+export interface FacetStage {
+  $facet: Record<string, PipelineStage[]>;
+}
+
+export interface CountStage {
+  $count: string;
+}
+
+export interface GroupStage {
+  $group: Record<string, unknown>;
+}
+
+export interface UnwindStage {
+  $unwind: string;
+}
+
+export type PipelineStage =
+  | MatchStage
+  | ProjectStage
+  | LimitStage
+  | SkipStage
+  | SortStage
+  | AddFieldsStage
+  | UnionWithStage
+  | FacetStage
+  | CountStage
+  | GroupStage
+  | UnwindStage;
+
+/**
+ * ERROR HANDLING CLASS
+ * Custom error class for better error management in search operations
+ */
+// Improved error handling
+export class SearchError extends Error {
+  constructor(message: string, public statusCode: number = 500) {
+    super(message);
+    this.name = "SearchError";
+  }
+}
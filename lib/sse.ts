@@ -0,0 +1,47 @@
+/**
+ * SERVER-SENT EVENTS READER
+ * Responsible for: Parsing an event stream from a fetch() response body
+ * - Works with POST requests, which EventSource doesn't support
+ * - Calls `onEvent` with the event name and JSON-decoded data of each message
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (block: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+    }
+    if (dataLines.length === 0) return;
+    try {
+      onEvent(event, JSON.parse(dataLines.join("\n")));
+    } catch (error) {
+      console.error("Malformed event stream message:", error);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Messages are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,289 @@
+import { createHash, createHmac } from "crypto";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { MongoDocument } from "@/lib/documents";
+
+/**
+ * FILE STORAGE
+ * Responsible for: Persisting uploaded source files in Supabase storage and
+ * handing out short-lived download links
+ * - Configured with SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and SUPABASE_BUCKET
+ * - Returns the storage path and public URL saved on the document record
+ * - S3 downloads use AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, optional
+ *   AWS_SESSION_TOKEN and AWS_REGION, and S3_ENDPOINT for S3-compatible
+ *   servers such as MinIO
+ */
+const DEFAULT_BUCKET = "documents";
+const DEFAULT_AWS_REGION = "us-east-1";
+const DEFAULT_DOWNLOAD_TTL_SECONDS = 300;
+
+export class StorageError extends Error {
+  constructor(message: string, public statusCode: number = 500) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+export interface StoredFile {
+  filePath: string;
+  url: string;
+}
+
+let supabaseClient: SupabaseClient | undefined;
+
+function getSupabaseClient(): SupabaseClient {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new StorageError("File storage not configured", 500);
+  }
+  if (!supabaseClient) {
+    supabaseClient = createClient(url, key, {
+      auth: { persistSession: false },
+    });
+  }
+  return supabaseClient;
+}
+
+export function getStorageBucket(): string {
+  return process.env.SUPABASE_BUCKET || DEFAULT_BUCKET;
+}
+
+// Keep storage keys URL-safe while preserving a readable file name
+function sanitizeFileName(fileName: string): string {
+  return fileName
+    .normalize("NFKD")
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/_+/g, "_");
+}
+
+export async function uploadFile(
+  folder: string,
+  fileName: string,
+  data: Buffer,
+  contentType: string
+): Promise<StoredFile> {
+  const client = getSupabaseClient();
+  const bucket = getStorageBucket();
+  const filePath = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+
+  const { error } = await client.storage
+    .from(bucket)
+    .upload(filePath, data, { contentType, upsert: false });
+
+  if (error) {
+    console.error("Supabase upload failed:", error);
+    throw new StorageError("Failed to store uploaded file", 502);
+  }
+
+  const { data: publicUrl } = client.storage
+    .from(bucket)
+    .getPublicUrl(filePath);
+
+  return { filePath, url: publicUrl.publicUrl };
+}
+
+export async function removeFile(filePath: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .storage.from(getStorageBucket())
+    .remove([filePath]);
+  if (error) {
+    console.error("Supabase removal failed:", error);
+    throw new StorageError("Failed to remove stored file", 502);
+  }
+}
+
+export type DownloadSource = "supabase" | "s3";
+
+export interface SignedDownload {
+  url: string;
+  source: DownloadSource;
+  expiresIn: number;
+}
+
+export function getDownloadTtlSeconds(): number {
+  return (
+    Number(process.env.DOWNLOAD_URL_TTL_SECONDS) || DEFAULT_DOWNLOAD_TTL_SECONDS
+  );
+}
+
+// Bucket and object path of a Supabase storage URL, public or signed
+function parseSupabaseUrl(
+  url: string
+): { bucket: string; path: string } | undefined {
+  const match = url.match(
+    /\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/([^?#]+)/
+  );
+  if (!match) return undefined;
+  return { bucket: match[1], path: decodeURIComponent(match[2]) };
+}
+
+async function signSupabaseUrl(
+  url: string,
+  expiresIn: number
+): Promise<string> {
+  const location = parseSupabaseUrl(url);
+  if (!location) {
+    throw new StorageError("Not a Supabase storage URL", 404);
+  }
+
+  const { data, error } = await getSupabaseClient()
+    .storage.from(location.bucket)
+    .createSignedUrl(location.path, expiresIn);
+  if (error || !data) {
+    console.error("Supabase signing failed:", error);
+    throw new StorageError("Failed to sign Supabase download", 502);
+  }
+  return data.signedUrl;
+}
+
+// RFC 3986 encoding, as AWS Signature Version 4 requires
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+export interface PresignRequest {
+  protocol: string;
+  host: string;
+  path: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiresIn: number;
+  now: Date;
+}
+
+/**
+ * S3 PRESIGNING
+ * Query-string authentication (AWS Signature Version 4) for a GET of one
+ * object, signing only the host header and leaving the payload unsigned
+ */
+export function presignGetUrl(request: PresignRequest): string {
+  const amzDate = request.now.toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const scope = `${amzDate.slice(0, 8)}/${request.region}/s3/aws4_request`;
+
+  const query: Record<string, string> = {
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${request.accessKeyId}/${scope}`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(request.expiresIn),
+    "X-Amz-SignedHeaders": "host",
+    ...(request.sessionToken && {
+      "X-Amz-Security-Token": request.sessionToken,
+    }),
+  };
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map((key) => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+    .join("&");
+
+  const canonicalRequest = [
+    "GET",
+    request.path,
+    canonicalQuery,
+    `host:${request.host}`,
+    "",
+    "host",
+    "UNSIGNED-PAYLOAD",
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    createHash("sha256").update(canonicalRequest, "utf8").digest("hex"),
+  ].join("\n");
+
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(
+      hmac(`AWS4${request.secretAccessKey}`, scope.slice(0, 8)),
+      request.region
+    )
+  );
+  const signature = createHmac("sha256", signingKey)
+    .update(stringToSign, "utf8")
+    .digest("hex");
+
+  return `${request.protocol}//${request.host}${request.path}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+function signS3Url(
+  aws: NonNullable<MongoDocument["aws"]>,
+  expiresIn: number
+): string {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    throw new StorageError("S3 downloads not configured", 500);
+  }
+  if (!aws.bucket || !aws.key) {
+    throw new StorageError("Document has no S3 location", 404);
+  }
+
+  const region = aws.region || process.env.AWS_REGION || DEFAULT_AWS_REGION;
+  const key = aws.key.split("/").map(encodeRfc3986).join("/");
+  // S3-compatible servers are addressed path-style, AWS virtual-hosted style
+  const endpoint = process.env.S3_ENDPOINT
+    ? new URL(process.env.S3_ENDPOINT)
+    : undefined;
+
+  return presignGetUrl({
+    protocol: endpoint?.protocol ?? "https:",
+    host: endpoint?.host ?? `${aws.bucket}.s3.${region}.amazonaws.com`,
+    path: endpoint
+      ? `${endpoint.pathname.replace(/\/$/, "")}/${encodeRfc3986(
+          aws.bucket
+        )}/${key}`
+      : `/${key}`,
+    region,
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: process.env.AWS_SESSION_TOKEN,
+    expiresIn,
+    now: new Date(),
+  });
+}
+
+/**
+ * DOWNLOAD LINKS
+ * Responsible for: A short-lived signed URL for a document's source file
+ * - Tries Supabase storage first, then the S3 object in the `aws` block
+ * - A failure in one store is logged and the next one tried
+ * - Throws a 404 StorageError when the document has no stored file, or the
+ *   last store's error when none could sign it
+ */
+export async function createSignedDownload(
+  document: Pick<MongoDocument, "supabase" | "aws">,
+  expiresIn: number = getDownloadTtlSeconds()
+): Promise<SignedDownload> {
+  const attempts: [DownloadSource, () => Promise<string> | string][] = [];
+  const supabaseUrl = document.supabase?.url;
+  if (supabaseUrl) {
+    attempts.push(["supabase", () => signSupabaseUrl(supabaseUrl, expiresIn)]);
+  }
+  const aws = document.aws;
+  if (aws?.bucket && aws.key) {
+    attempts.push(["s3", () => signS3Url(aws, expiresIn)]);
+  }
+  if (attempts.length === 0) {
+    throw new StorageError("File not available for this document", 404);
+  }
+
+  let lastError: unknown;
+  for (const [source, sign] of attempts) {
+    try {
+      return { url: await sign(), source, expiresIn };
+    } catch (error) {
+      console.error(`Failed to sign ${source} download:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
@@ -12,3 +12,13 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
   return dotProduct / (magnitudeA * magnitudeB);
 }
+
+// Copy of an object without the given keys
+export function omit<T extends object, K extends keyof T>(
+  value: T,
+  ...keys: K[]
+): Omit<T, K> {
+  const copy = { ...value };
+  keys.forEach((key) => delete copy[key]);
+  return copy;
+}
@@ -0,0 +1,97 @@
+import { Db } from "mongodb";
+import { AllowedCollection, MongoDocument } from "@/lib/documents";
+import { VectorIndex, VectorMatch, VectorSearchOptions } from "./types";
+
+/**
+ * ATLAS VECTOR SEARCH INDEX
+ * Responsible for: Nearest-neighbour search with MongoDB's $vectorSearch stage
+ * - Needs an Atlas Vector Search index named `indexName` on the `embedding`
+ *   field of every collection, using the "cosine" similarity function
+ * - Atlas maintains the index itself, so upsert/remove are no-ops
+ * - Structured filters run as a $match after $vectorSearch, widening the
+ *   neighbour set until enough documents pass
+ * - Atlas reports cosine scores as (1 + cosine) / 2; they are converted back
+ *   so both backends return plain cosine similarity
+ */
+// $vectorSearch accepts at most 10,000 candidates
+const ATLAS_LIMITS = {
+  MAX_CANDIDATES: 10_000,
+} as const;
+
+export class AtlasVectorIndex implements VectorIndex {
+  name = "atlas";
+
+  constructor(private indexName: string) {}
+
+  // One collection's nearest neighbours that pass `filter`
+  private async searchCollection(
+    db: Db,
+    collection: AllowedCollection,
+    vector: number[],
+    limit: number,
+    filter: VectorSearchOptions["filter"]
+  ): Promise<VectorMatch[]> {
+    const filtered = Boolean(filter && Object.keys(filter).length > 0);
+    // Filters aren't known to Atlas, so matches are sought among a widening
+    // set of neighbours until enough pass or the set can't grow further
+    const wanted = filtered
+      ? await db.collection(collection).countDocuments(filter, { limit })
+      : limit;
+    if (wanted === 0) return [];
+
+    for (let candidates = limit; ; candidates *= 4) {
+      const size = Math.min(candidates, ATLAS_LIMITS.MAX_CANDIDATES);
+      const docs = await db
+        .collection<MongoDocument>(collection)
+        .aggregate<{ _id: MongoDocument["_id"]; score: number }>([
+          {
+            $vectorSearch: {
+              index: this.indexName,
+              path: "embedding",
+              queryVector: vector,
+              // Atlas recommends 10-20x the limit for good recall
+              numCandidates: Math.min(size * 15, ATLAS_LIMITS.MAX_CANDIDATES),
+              limit: size,
+            },
+          },
+          ...(filtered ? [{ $match: filter }] : []),
+          { $limit: limit },
+          { $project: { _id: 1, score: { $meta: "vectorSearchScore" } } },
+        ])
+        .toArray();
+
+      if (
+        !filtered ||
+        docs.length >= wanted ||
+        size === ATLAS_LIMITS.MAX_CANDIDATES
+      ) {
+        return docs.map((doc) => ({
+          collection,
+          id: doc._id.toString(),
+          score: doc.score * 2 - 1,
+        }));
+      }
+    }
+  }
+
+  async search(
+    db: Db,
+    vector: number[],
+    { limit, collections, filter }: VectorSearchOptions
+  ): Promise<VectorMatch[]> {
+    const perCollection = await Promise.all(
+      collections.map((collection) =>
+        this.searchCollection(db, collection, vector, limit, filter)
+      )
+    );
+
+    return perCollection
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  upsert(): void {}
+
+  remove(): void {}
+}
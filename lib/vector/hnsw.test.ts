@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { HnswGraph } from "./hnsw";
+
+// Deterministic vectors, so a failing recall run can be reproduced
+function randomVectors(count: number, dimensions: number, seed = 1) {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dimensions }, next)
+  );
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+function exactNeighbours(vectors: number[][], query: number[], k: number) {
+  return vectors
+    .map((vector, i) => ({ id: String(i), score: cosine(vector, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((match) => match.id);
+}
+
+describe("HnswGraph", () => {
+  const vectors = randomVectors(600, 24);
+  const queries = randomVectors(20, 24, 99);
+
+  function buildGraph() {
+    const graph = new HnswGraph();
+    vectors.forEach((vector, i) => graph.add(String(i), vector));
+    return graph;
+  }
+
+  it("finds nearly all exact nearest neighbours", () => {
+    const graph = buildGraph();
+    let found = 0;
+    for (const query of queries) {
+      const expected = new Set(exactNeighbours(vectors, query, 10));
+      found += graph
+        .search(query, 10)
+        .filter((match) => expected.has(match.id)).length;
+    }
+    expect(found / (queries.length * 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("returns cosine similarity, best first", () => {
+    const graph = buildGraph();
+    const matches = graph.search(queries[0], 5);
+    expect(matches).toHaveLength(5);
+    for (const match of matches) {
+      expect(match.score).toBeCloseTo(
+        cosine(vectors[Number(match.id)], queries[0]),
+        5
+      );
+    }
+    const scores = matches.map((match) => match.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it("never returns removed vectors", () => {
+    const graph = buildGraph();
+    const removed = graph.search(queries[0], 20).map((match) => match.id);
+    removed.forEach((id) => graph.remove(id));
+
+    const matches = graph.search(queries[0], 20);
+    expect(matches).toHaveLength(20);
+    expect(matches.some((match) => removed.includes(match.id))).toBe(false);
+    expect(graph.size).toBe(vectors.length - removed.length);
+    expect(graph.has(removed[0])).toBe(false);
+  });
+
+  it("replaces the vector stored under an existing id", () => {
+    const graph = buildGraph();
+    graph.add("0", queries[0]);
+    expect(graph.size).toBe(vectors.length);
+    expect(graph.search(queries[0], 1)[0]).toMatchObject({ id: "0" });
+  });
+
+  it("finds accepted ids however dissimilar they are", () => {
+    const graph = buildGraph();
+    const [farthest] = vectors
+      .map((vector, i) => ({
+        id: String(i),
+        score: cosine(vector, queries[0]),
+      }))
+      .sort((a, b) => a.score - b.score);
+
+    const matches = graph.search(
+      queries[0],
+      10,
+      undefined,
+      (id) => id === farthest.id
+    );
+    expect(matches.map((match) => match.id)).toEqual([farthest.id]);
+  });
+
+  it("rejects vectors of the wrong dimension", () => {
+    const graph = buildGraph();
+    expect(() => graph.add("x", [1, 2, 3])).toThrow(/dimensions/);
+    expect(() => graph.search([1, 2, 3], 5)).toThrow(/dimensions/);
+  });
+});
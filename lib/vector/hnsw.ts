@@ -0,0 +1,305 @@
+/**
+ * HNSW GRAPH
+ * Responsible for: Approximate nearest-neighbour search over unit vectors
+ * - Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016)
+ * - Vectors are normalized on insert, so similarity is a plain dot product
+ *   equal to cosine similarity
+ * - Pure in-memory data structure with no database dependency, so it can be
+ *   built and exercised locally
+ * - Removal is a tombstone: removed nodes still route searches but are never
+ *   returned
+ */
+
+export interface HnswOptions {
+  // Max neighbours per node on upper layers (layer 0 allows 2 * M)
+  M?: number;
+  // Candidate list size while inserting
+  efConstruction?: number;
+  // Default candidate list size while searching
+  efSearch?: number;
+}
+
+export interface HnswMatch {
+  id: string;
+  score: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  score: number;
+}
+
+// Binary heap ordered by `compare` (negative when a should pop first)
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.compare(items[left], items[next]) < 0)
+          next = left;
+        if (right < items.length && this.compare(items[right], items[next]) < 0)
+          next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let magnitude = 0;
+  for (let i = 0; i < result.length; i++) magnitude += result[i] * result[i];
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= magnitude;
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export class HnswGraph {
+  private nodes: HnswNode[] = [];
+  private idToNode = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private dimensions = 0;
+  private readonly M: number;
+  private readonly maxNeighborsLayer0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+
+  constructor({ M = 16, efConstruction = 100, efSearch = 64 }: HnswOptions = {}) {
+    this.M = M;
+    this.maxNeighborsLayer0 = M * 2;
+    this.efConstruction = efConstruction;
+    this.efSearch = efSearch;
+    this.levelMultiplier = 1 / Math.log(M);
+  }
+
+  /** Number of live (not removed) vectors */
+  get size(): number {
+    return this.idToNode.size;
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - Math.random()) * this.levelMultiplier);
+  }
+
+  /**
+   * Greedy best-first search of one layer
+   * Returns up to `ef` closest nodes found from the entry points
+   */
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    level: number
+  ): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    // Best candidate first
+    const candidates = new Heap<Candidate>((a, b) => b.score - a.score);
+    // Worst kept result first, so it can be evicted
+    const results = new Heap<Candidate>((a, b) => a.score - b.score);
+
+    for (const node of entryPoints) {
+      const candidate = { node, score: dot(query, this.nodes[node].vector) };
+      candidates.push(candidate);
+      results.push(candidate);
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const worst = results.peek()!;
+      if (current.score < worst.score && results.size >= ef) break;
+
+      for (const neighbor of this.nodes[current.node].neighbors[level] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const score = dot(query, this.nodes[neighbor].vector);
+        if (results.size < ef || score > results.peek()!.score) {
+          candidates.push({ node: neighbor, score });
+          results.push({ node: neighbor, score });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.score - a.score);
+  }
+
+  // Keep the closest `max` neighbours of a node on one layer
+  private pruneNeighbors(node: number, level: number, max: number): void {
+    const own = this.nodes[node];
+    own.neighbors[level] = own.neighbors[level]
+      .map((n) => ({ n, score: dot(own.vector, this.nodes[n].vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, max)
+      .map(({ n }) => n);
+  }
+
+  /** Add a vector, replacing any previous vector stored under the same id */
+  add(id: string, vector: ArrayLike<number>): void {
+    if (this.dimensions === 0) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Vector for ${id} has ${vector.length} dimensions, expected ${this.dimensions}`
+      );
+    }
+
+    this.remove(id);
+
+    const level = this.randomLevel();
+    const nodeIndex = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.idToNode.set(id, nodeIndex);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = nodeIndex;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Descend greedily through layers above the new node's level
+    let entry = [this.entryPoint];
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = [this.searchLayer(node.vector, entry, 1, l)[0].node];
+    }
+
+    // Connect on every layer the new node lives on
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(
+        node.vector,
+        entry,
+        this.efConstruction,
+        l
+      );
+      const max = l === 0 ? this.maxNeighborsLayer0 : this.M;
+      node.neighbors[l] = found.slice(0, this.M).map((c) => c.node);
+
+      for (const neighbor of node.neighbors[l]) {
+        const links = this.nodes[neighbor].neighbors[l];
+        links.push(nodeIndex);
+        if (links.length > max) this.pruneNeighbors(neighbor, l, max);
+      }
+      entry = found.map((c) => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = nodeIndex;
+      this.maxLevel = level;
+    }
+  }
+
+  /** Remove a vector; returns false when the id is unknown */
+  remove(id: string): boolean {
+    const nodeIndex = this.idToNode.get(id);
+    if (nodeIndex === undefined) return false;
+    this.nodes[nodeIndex].deleted = true;
+    this.idToNode.delete(id);
+    return true;
+  }
+
+  /**
+   * Return the `k` most similar live vectors, best first
+   * - With `accept`, only ids it accepts count towards `k`; the candidate
+   *   list is widened until `k` are found or the whole graph has been read,
+   *   so a narrow filter still finds its matches however dissimilar
+   */
+  search(
+    vector: ArrayLike<number>,
+    k: number,
+    ef?: number,
+    accept?: (id: string) => boolean
+  ): HnswMatch[] {
+    if (this.entryPoint === -1 || k <= 0) return [];
+    if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Query has ${vector.length} dimensions, expected ${this.dimensions}`
+      );
+    }
+
+    const query = normalize(vector);
+    let entry = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = [this.searchLayer(query, entry, 1, l)[0].node];
+    }
+
+    const tombstones = this.nodes.length - this.size;
+    for (let width = Math.max(ef ?? this.efSearch, k); ; width *= 2) {
+      // Over-fetch to make up for tombstoned nodes in the candidate list
+      const matches = this.searchLayer(query, entry, width + tombstones, 0)
+        .filter((c) => !this.nodes[c.node].deleted)
+        .map((c) => ({ id: this.nodes[c.node].id, score: c.score }))
+        .filter((match) => !accept || accept(match.id));
+
+      if (matches.length >= k || width + tombstones >= this.nodes.length) {
+        return matches.slice(0, k);
+      }
+    }
+  }
+}
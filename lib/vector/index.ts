@@ -0,0 +1,47 @@
+import { AtlasVectorIndex } from "./atlas";
+import { HnswVectorIndex } from "./memory";
+import { VectorIndex } from "./types";
+
+export type { VectorIndex, VectorMatch, VectorSearchOptions } from "./types";
+export { HnswGraph } from "./hnsw";
+export type { HnswMatch, HnswOptions } from "./hnsw";
+
+/**
+ * VECTOR INDEX CONFIGURATION
+ * Selected through environment variables:
+ * - VECTOR_INDEX: "hnsw" (default, in-process) or "atlas" ($vectorSearch)
+ * - ATLAS_VECTOR_INDEX_NAME: Atlas index name, defaults to "embedding_index"
+ * - HNSW_REFRESH_MS: how long an in-memory graph is reused before a rebuild
+ */
+const DEFAULTS = {
+  ATLAS_INDEX_NAME: "embedding_index",
+  HNSW_REFRESH_MS: 10 * 60 * 1000,
+} as const;
+
+let vectorIndex: VectorIndex | undefined;
+
+function createVectorIndex(): VectorIndex {
+  const name = (process.env.VECTOR_INDEX || "hnsw").toLowerCase();
+
+  switch (name) {
+    case "atlas":
+      return new AtlasVectorIndex(
+        process.env.ATLAS_VECTOR_INDEX_NAME || DEFAULTS.ATLAS_INDEX_NAME
+      );
+    case "hnsw":
+      return new HnswVectorIndex(
+        Number(process.env.HNSW_REFRESH_MS) || DEFAULTS.HNSW_REFRESH_MS
+      );
+    default:
+      throw new Error(`Unknown VECTOR_INDEX "${name}"`);
+  }
+}
+
+// Returns the configured index, created once per server process
+export function getVectorIndex(): VectorIndex {
+  if (!vectorIndex) {
+    vectorIndex = createVectorIndex();
+    console.log(`🧭 Using ${vectorIndex.name} vector index`);
+  }
+  return vectorIndex;
+}
@@ -0,0 +1,144 @@
+import { Db, ObjectId } from "mongodb";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HnswVectorIndex } from "./memory";
+
+interface StoredDoc {
+  _id: ObjectId;
+  embedding: number[];
+  department: string;
+}
+
+// Just enough of a MongoDB Db for the index: equality filters on plain
+// fields; the embedding condition used while building is always met
+function fakeDb(docs: StoredDoc[]): Db {
+  const matches = (doc: StoredDoc, filter: Record<string, unknown>) =>
+    Object.entries(filter).every(
+      ([field, value]) =>
+        field === "embedding" || doc[field as keyof StoredDoc] === value
+    );
+  return {
+    collection: () => ({
+      find: (filter: Record<string, unknown>) => ({
+        project: () => {
+          const rows = docs.filter((doc) => matches(doc, filter));
+          return {
+            toArray: async () => rows,
+            async *[Symbol.asyncIterator]() {
+              yield* rows;
+            },
+          };
+        },
+      }),
+    }),
+  } as unknown as Db;
+}
+
+describe("HnswVectorIndex", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const query = [1, 0, 0];
+  // Many documents close to the query, and one far away in another department
+  const close = Array.from({ length: 150 }, (_, i) => ({
+    _id: new ObjectId(),
+    embedding: [1, 0.01 + (i % 10) / 100, i / 1000],
+    department: "Education",
+  }));
+  const far = {
+    _id: new ObjectId(),
+    embedding: [-0.2, 1, 0],
+    department: "Forest",
+  };
+  const db = fakeDb([...close, far]);
+
+  it("returns a filtered match that isn't among the nearest neighbours", async () => {
+    const index = new HnswVectorIndex(60_000);
+
+    const unfiltered = await index.search(db, query, {
+      limit: 100,
+      collections: ["Tender"],
+    });
+    expect(unfiltered).toHaveLength(100);
+    expect(unfiltered.some((m) => m.id === far._id.toString())).toBe(false);
+
+    const filtered = await index.search(db, query, {
+      limit: 100,
+      collections: ["Tender"],
+      filter: { department: "Forest" },
+    });
+    expect(filtered.map((m) => m.id)).toEqual([far._id.toString()]);
+  });
+
+  it("returns nothing when no document passes the filter", async () => {
+    const index = new HnswVectorIndex(60_000);
+    const matches = await index.search(db, query, {
+      limit: 10,
+      collections: ["Tender"],
+      filter: { department: "Health" },
+    });
+    expect(matches).toEqual([]);
+  });
+
+  it("applies upserts and removals to a built graph", async () => {
+    const index = new HnswVectorIndex(60_000);
+    await index.search(db, query, { limit: 1, collections: ["Tender"] });
+
+    const added = new ObjectId().toString();
+    index.upsert("Tender", added, [1, 0, 0]);
+    await vi.waitFor(async () => {
+      const [best] = await index.search(db, query, {
+        limit: 1,
+        collections: ["Tender"],
+      });
+      expect(best.id).toBe(added);
+    });
+
+    index.remove("Tender", added);
+    await vi.waitFor(async () => {
+      const [best] = await index.search(db, query, {
+        limit: 1,
+        collections: ["Tender"],
+      });
+      expect(best.id).not.toBe(added);
+    });
+  });
+
+  it("shares one rebuild between concurrent searches of a stale graph", async () => {
+    // A negative refresh interval makes every built graph stale
+    const index = new HnswVectorIndex(-1);
+    const built = vi.spyOn(console, "log").mockImplementation(() => {});
+    const builds = () =>
+      built.mock.calls.filter(([message]) =>
+        String(message).startsWith("🧭 Built HNSW index")
+      ).length;
+    const search = () =>
+      index.search(db, query, { limit: 1, collections: ["Tender"] });
+
+    await search();
+    expect(builds()).toBe(1);
+
+    await Promise.all([search(), search(), search()]);
+    expect(builds()).toBe(2);
+
+    // The finished rebuild isn't reused once it is stale too
+    await search();
+    expect(builds()).toBe(3);
+  });
+
+  it("logs a failed update instead of rejecting", async () => {
+    const index = new HnswVectorIndex(60_000);
+    await index.search(db, query, { limit: 1, collections: ["Tender"] });
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    const unhandled = vi.fn();
+    process.on("unhandledRejection", unhandled);
+
+    // Wrong number of dimensions makes the graph throw
+    index.upsert("Tender", new ObjectId().toString(), [1, 0]);
+    await vi.waitFor(() => expect(logged).toHaveBeenCalled());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    process.off("unhandledRejection", unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
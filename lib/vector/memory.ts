@@ -0,0 +1,158 @@
+import { Db } from "mongodb";
+import { AllowedCollection, MongoDocument } from "@/lib/documents";
+import { HnswGraph } from "./hnsw";
+import {
+  VectorIndex,
+  VectorMatch,
+  VectorSearchOptions,
+} from "./types";
+
+interface CollectionGraph {
+  graph: HnswGraph;
+  builtAt: number;
+}
+
+/**
+ * IN-MEMORY HNSW INDEX
+ * Responsible for: Nearest-neighbour search without a managed vector index
+ * - Builds one HNSW graph per collection from stored embeddings on first use
+ * - Rebuilds a graph once it is older than `refreshMs`, picking up documents
+ *   written by other server instances
+ * - Works with any MongoDB deployment, including a local one
+ */
+export class HnswVectorIndex implements VectorIndex {
+  name = "hnsw";
+  private graphs = new Map<AllowedCollection, Promise<CollectionGraph>>();
+  private building = new Map<AllowedCollection, Promise<CollectionGraph>>();
+
+  constructor(private refreshMs: number) {}
+
+  private async build(
+    db: Db,
+    collection: AllowedCollection
+  ): Promise<CollectionGraph> {
+    const started = Date.now();
+    const graph = new HnswGraph();
+
+    const cursor = db
+      .collection<MongoDocument>(collection)
+      .find({ embedding: { $exists: true, $type: "array" } })
+      .project<Pick<MongoDocument, "_id" | "embedding">>({ embedding: 1 });
+
+    for await (const doc of cursor) {
+      if (Array.isArray(doc.embedding) && doc.embedding.length > 0) {
+        try {
+          graph.add(doc._id.toString(), doc.embedding);
+        } catch (error) {
+          console.error(`Skipping embedding of ${collection}/${doc._id}:`, error);
+        }
+      }
+    }
+
+    console.log(
+      `🧭 Built HNSW index for ${collection}: ${graph.size} vectors in ${
+        Date.now() - started
+      }ms`
+    );
+    return { graph, builtAt: Date.now() };
+  }
+
+  private async getGraph(
+    db: Db,
+    collection: AllowedCollection
+  ): Promise<HnswGraph> {
+    const pending = this.graphs.get(collection);
+    const current = pending ? await pending.catch(() => null) : null;
+
+    if (!current || Date.now() - current.builtAt > this.refreshMs) {
+      return (await this.rebuild(db, collection)).graph;
+    }
+    return current.graph;
+  }
+
+  // Start a build unless one is already running, so callers that find the
+  // same stale graph share a single rebuild
+  private rebuild(
+    db: Db,
+    collection: AllowedCollection
+  ): Promise<CollectionGraph> {
+    let building = this.building.get(collection);
+    if (!building) {
+      building = this.build(db, collection);
+      this.building.set(collection, building);
+      this.graphs.set(collection, building);
+      building
+        // Forget failed builds so the next search retries
+        .catch(() => this.graphs.delete(collection))
+        .finally(() => this.building.delete(collection));
+    }
+    return building;
+  }
+
+  // Ids in a collection that pass a filter, or undefined when unfiltered
+  private async matchingIds(
+    db: Db,
+    collection: AllowedCollection,
+    filter: VectorSearchOptions["filter"]
+  ): Promise<Set<string> | undefined> {
+    if (!filter || Object.keys(filter).length === 0) return undefined;
+    const docs = await db
+      .collection<MongoDocument>(collection)
+      .find(filter)
+      .project<Pick<MongoDocument, "_id">>({ _id: 1 })
+      .toArray();
+    return new Set(docs.map((doc) => doc._id.toString()));
+  }
+
+  async search(
+    db: Db,
+    vector: number[],
+    { limit, collections, filter }: VectorSearchOptions
+  ): Promise<VectorMatch[]> {
+    const perCollection = await Promise.all(
+      collections.map(async (collection) => {
+        const [graph, allowed] = await Promise.all([
+          this.getGraph(db, collection),
+          this.matchingIds(db, collection, filter),
+        ]);
+        if (allowed?.size === 0) return [];
+        return graph
+          .search(
+            vector,
+            limit,
+            undefined,
+            allowed && ((id) => allowed.has(id))
+          )
+          .map((match) => ({ collection, ...match }));
+      })
+    );
+
+    return perCollection
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Apply a change to a built graph; failures are logged, as the next
+  // rebuild picks the document up from MongoDB anyway
+  private update(
+    collection: AllowedCollection,
+    change: (graph: HnswGraph) => void
+  ): void {
+    this.graphs
+      .get(collection)
+      ?.then(({ graph }) => change(graph))
+      .catch((error) =>
+        console.error(`Failed to update HNSW index for ${collection}:`, error)
+      );
+  }
+
+  upsert(collection: AllowedCollection, id: string, vector: number[]): void {
+    // Graphs that haven't been built yet will load the document from MongoDB
+    this.update(collection, (graph) => graph.add(id, vector));
+  }
+
+  remove(collection: AllowedCollection, id: string): void {
+    this.update(collection, (graph) => graph.remove(id));
+  }
+}
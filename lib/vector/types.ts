@@ -0,0 +1,34 @@
+import { Db, Document, Filter } from "mongodb";
+import { AllowedCollection } from "@/lib/documents";
+
+/**
+ * VECTOR INDEX TYPES
+ * Shared contract implemented by every nearest-neighbour backend
+ */
+
+export interface VectorMatch {
+  collection: AllowedCollection;
+  id: string;
+  // Cosine similarity between the query and the document embedding
+  score: number;
+}
+
+export interface VectorSearchOptions {
+  limit: number;
+  collections: readonly AllowedCollection[];
+  // MongoDB match a document must pass; `limit` counts matching documents
+  filter?: Filter<Document>;
+}
+
+export interface VectorIndex {
+  /** Backend identifier, e.g. "atlas" or "hnsw" */
+  name: string;
+  search(
+    db: Db,
+    vector: number[],
+    options: VectorSearchOptions
+  ): Promise<VectorMatch[]>;
+  /** Keep the index in step with a document whose embedding changed */
+  upsert(collection: AllowedCollection, id: string, vector: number[]): void;
+  remove(collection: AllowedCollection, id: string): void;
+}